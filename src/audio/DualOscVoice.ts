@@ -0,0 +1,575 @@
+// Dual oscillator voice
+// Monophonic voice used by every track's PolySynth, configured from TrackSettings
+
+import * as Tone from "tone";
+import {
+  Monophonic,
+  MonophonicOptions,
+} from "tone/build/esm/instrument/Monophonic";
+import {
+  DEFAULT_MOD_MATRIX,
+  type ModMatrix,
+  type ModSourceValues,
+} from "./modMatrix";
+import type { TrackModulator } from "./TrackModulator";
+
+// Custom voice class for dual oscillator synthesis
+export class DualOscVoice extends Monophonic<DualOscVoiceOptions> {
+  readonly name = "DualOscVoice";
+
+  // Required by Monophonic base class
+  readonly frequency: Tone.Signal<"frequency">;
+  readonly detune: Tone.Signal<"cents">;
+
+  private osc1: Tone.OmniOscillator<any>;
+  private osc2: Tone.OmniOscillator<any>;
+  // Per-oscillator pitch offsets (octave + semitone + detune), summed with detune
+  private osc1Pitch: Tone.Signal<"cents">;
+  private osc2Pitch: Tone.Signal<"cents">;
+  // Wavefolders for the shape control on non-square waveforms
+  private osc1Shaper: Tone.WaveShaper;
+  private osc2Shaper: Tone.WaveShaper;
+  private osc1Gain: Tone.Gain;
+  private osc2Gain: Tone.Gain;
+  // Ring modulator (osc1 * osc2), crossfaded against the dry oscillator mix
+  private ringModulator: Tone.Multiply;
+  private ringMix: Tone.CrossFade;
+  private mixer: Tone.Gain;
+  private envelope: Tone.AmplitudeEnvelope;
+  private internalFilter: Tone.Filter;
+  private filterEnvelope: Tone.FrequencyEnvelope;
+
+  // Per-voice LFO, scaled separately for each destination
+  private lfo: Tone.LFO;
+  private lfoOsc1: Tone.Gain; // cents
+  private lfoOsc2: Tone.Gain; // cents
+  private lfoFilter: Tone.Gain; // cents on the voice filter
+  private lfoAmp: Tone.Gain; // tremolo depth
+  private ampMod: Tone.Gain;
+
+  // Free envelope, only read as a modulation matrix source
+  private modEnvelope: Tone.Envelope;
+
+  // Current voice settings, kept so partial updates can be merged
+  private settings: DualOscVoiceOptions;
+  // Settings last pushed onto the nodes, modulated or not, so a new note
+  // keeps the modulated filter when it retracks the keyboard
+  private applied: TrackSettings;
+  // Frequency of the current note, used for filter key tracking
+  private keyFrequency = 261.63;
+  // Velocity and time of the last attack, for the modulation matrix
+  private velocity = 0;
+  attackTime = -Infinity;
+  // When the last note's release ends. The matrix only modulates the voice
+  // until then
+  private releaseEnd = -Infinity;
+  // Last wavefold amount per shaper, so curves are only rebuilt on change
+  private shaperFolds = new Map<Tone.WaveShaper, number>();
+  private modulator?: TrackModulator;
+
+  static getDefaults(): DualOscVoiceOptions {
+    return Object.assign(Monophonic.getDefaults(), {
+      osc1Type: "sine" as const,
+      osc1Octave: 0,
+      osc1Semitone: 0,
+      osc1Detune: 0,
+      osc1Shape: 0,
+      osc2Type: "sine" as const,
+      osc2Octave: 0,
+      osc2Semitone: 0,
+      osc2Detune: 0,
+      osc2Shape: 0,
+      oscMix: 0.5,
+      ringMod: 0,
+      attack: 0.01,
+      decay: 0.1,
+      sustain: 0.5,
+      release: 1,
+      drive: 0,
+      filterType: "lowpass" as const,
+      filterFreq: 1000,
+      filterQ: 1,
+      filterEnvAmount: 0,
+      filterKeyTrack: 0,
+      filterAttack: 0.01,
+      filterDecay: 0.1,
+      filterSustain: 0.5,
+      filterRelease: 1,
+      filterBaseFreq: 200,
+      filterOctaves: 4,
+      portamentoMode: "off" as const,
+      lfoRate: 0,
+      lfoType: "sine" as const,
+      lfoOsc1Amount: 0,
+      lfoOsc2Amount: 0,
+      lfoFilterAmount: 0,
+      lfoAmpAmount: 0,
+      delayTime: 0,
+      delayFeedback: 0,
+      delayWet: 0,
+      reverbDecay: 1,
+      reverbWet: 0,
+      reverbSize: 0.5,
+      reverbStereo: 0.5,
+      reverbDamping: 0.5,
+      modMatrix: DEFAULT_MOD_MATRIX,
+    });
+  }
+
+  constructor(options?: Partial<DualOscVoiceOptions>) {
+    super(options);
+
+    this.settings = Object.assign(DualOscVoice.getDefaults(), options);
+    this.applied = this.settings;
+
+    // Create frequency and detune signals required by Monophonic
+    this.frequency = new Tone.Signal({
+      value: 440,
+      units: "frequency",
+    });
+
+    this.detune = new Tone.Signal({
+      value: 0,
+      units: "cents",
+    });
+
+    // Create oscillators (omni so square waves can switch to pulse width)
+    this.osc1 = new Tone.OmniOscillator().start();
+    this.osc2 = new Tone.OmniOscillator().start();
+
+    // Connecting a signal to the oscillator detune overrides its own value,
+    // so the per-oscillator offsets are separate signals summed with detune
+    this.osc1Pitch = new Tone.Signal({ value: 0, units: "cents" });
+    this.osc2Pitch = new Tone.Signal({ value: 0, units: "cents" });
+
+    // Connect frequency and detune signals to oscillators
+    this.frequency.connect(this.osc1.frequency);
+    this.frequency.connect(this.osc2.frequency);
+    this.detune.connect(this.osc1.detune);
+    this.detune.connect(this.osc2.detune);
+    this.osc1Pitch.connect(this.osc1.detune);
+    this.osc2Pitch.connect(this.osc2.detune);
+
+    this.osc1Shaper = new Tone.WaveShaper();
+    this.osc2Shaper = new Tone.WaveShaper();
+    this.osc1.connect(this.osc1Shaper);
+    this.osc2.connect(this.osc2Shaper);
+
+    // Use a gain node per oscillator to mix them
+    // oscMix: 0 = only osc1, 1 = only osc2
+    this.osc1Gain = new Tone.Gain();
+    this.osc2Gain = new Tone.Gain();
+
+    this.osc1Shaper.connect(this.osc1Gain);
+    this.osc2Shaper.connect(this.osc2Gain);
+
+    // Ring mod: ringMod 0 = dry oscillator mix, 1 = only osc1 * osc2
+    this.ringModulator = new Tone.Multiply();
+    this.osc1Shaper.connect(this.ringModulator);
+    this.osc2Shaper.connect(this.ringModulator.factor);
+
+    this.ringMix = new Tone.CrossFade();
+    this.osc1Gain.connect(this.ringMix.a);
+    this.osc2Gain.connect(this.ringMix.a);
+    this.ringModulator.connect(this.ringMix.b);
+
+    // Mixer sets the level of the combined oscillators
+    this.mixer = new Tone.Gain(0.5); // Reduce overall level to prevent clipping
+    this.ringMix.connect(this.mixer);
+
+    // Internal filter (separate from track-level filter)
+    this.internalFilter = new Tone.Filter();
+
+    // Filter envelope
+    this.filterEnvelope = new Tone.FrequencyEnvelope();
+    this.filterEnvelope.connect(this.internalFilter.frequency);
+
+    // Amp envelope
+    this.envelope = new Tone.AmplitudeEnvelope();
+
+    // Tremolo stage after the amp envelope
+    this.ampMod = new Tone.Gain();
+
+    // Connect signal chain to output (output is provided by Monophonic base class)
+    this.mixer.chain(
+      this.internalFilter,
+      this.envelope,
+      this.ampMod,
+      this.output,
+    );
+
+    // LFO (bipolar) fans out to each destination through its own amount.
+    // Owned by the voice, so voices allocated later are modulated as well.
+    this.lfo = new Tone.LFO({ min: -1, max: 1 });
+    this.lfoOsc1 = new Tone.Gain(0);
+    this.lfoOsc2 = new Tone.Gain(0);
+    this.lfoFilter = new Tone.Gain(0);
+    this.lfoAmp = new Tone.Gain(0);
+    this.lfo.fan(this.lfoOsc1, this.lfoOsc2, this.lfoFilter, this.lfoAmp);
+    this.lfoOsc1.connect(this.osc1.detune);
+    this.lfoOsc2.connect(this.osc2.detune);
+    this.lfoFilter.connect(this.internalFilter.detune);
+    this.lfoAmp.connect(this.ampMod.gain);
+
+    this.modEnvelope = new Tone.Envelope();
+
+    this.applySettings();
+
+    // Voices allocated later join the track's modulation matrix as well
+    this.modulator = this.settings.modulator;
+    this.modulator?.addVoice(this);
+  }
+
+  /**
+   * Update the voice from (partial) track settings. Changes are applied to
+   * the live nodes, so voices that are already sounding pick them up.
+   */
+  set(props: Partial<DualOscVoiceOptions>): this {
+    super.set(props);
+    Object.assign(this.settings, props);
+    this.applySettings();
+    return this;
+  }
+
+  get(): DualOscVoiceOptions {
+    return { ...super.get(), ...this.settings };
+  }
+
+  /**
+   * Apply modulated settings from the track's modulation matrix. Signal
+   * parameters ramp to their value at `time`, the rest change immediately.
+   */
+  modulate(settings: TrackSettings, time: number): void {
+    this.applySettings(settings, time);
+  }
+
+  // Per-voice modulation sources at the given time
+  getModSources(
+    time: number,
+  ): Pick<ModSourceValues, "filterEnv" | "modEnv" | "velocity" | "note"> {
+    const midi = 69 + 12 * Math.log2(this.keyFrequency / 440);
+    return {
+      filterEnv: this.filterEnvelope.getValueAtTime(time),
+      modEnv: this.modEnvelope.getValueAtTime(time),
+      velocity: this.velocity,
+      note: Math.max(-1, Math.min(1, (midi - 60) / 60)),
+    };
+  }
+
+  // Push settings onto the oscillators, filter and envelopes. Without a time
+  // values jump immediately, with one they ramp to arrive at that time.
+  private applySettings(
+    settings: TrackSettings = this.settings,
+    time?: number,
+  ): void {
+    this.applied = settings;
+    this.applyShape(
+      this.osc1,
+      this.osc1Shaper,
+      settings.osc1Type,
+      settings.osc1Shape,
+      time,
+    );
+    this.applyShape(
+      this.osc2,
+      this.osc2Shaper,
+      settings.osc2Type,
+      settings.osc2Shape,
+      time,
+    );
+
+    setParam(
+      this.osc1Pitch,
+      settings.osc1Octave * 1200 +
+        settings.osc1Semitone * 100 +
+        settings.osc1Detune,
+      time,
+    );
+    setParam(
+      this.osc2Pitch,
+      settings.osc2Octave * 1200 +
+        settings.osc2Semitone * 100 +
+        settings.osc2Detune,
+      time,
+    );
+
+    setParam(this.osc1Gain.gain, 1 - settings.oscMix, time);
+    setParam(this.osc2Gain.gain, settings.oscMix, time);
+    setParam(this.ringMix.fade, settings.ringMod, time);
+
+    this.internalFilter.type = settings.filterType;
+    setParam(this.internalFilter.Q, settings.filterQ, time);
+
+    this.filterEnvelope.attack = settings.filterAttack;
+    this.filterEnvelope.decay = settings.filterDecay;
+    this.filterEnvelope.sustain = settings.filterSustain;
+    this.filterEnvelope.release = settings.filterRelease;
+    this.applyFilterTracking(settings);
+
+    this.envelope.set({
+      attack: settings.attack,
+      decay: settings.decay,
+      sustain: settings.sustain,
+      release: settings.release,
+    });
+
+    this.modEnvelope.set({
+      attack: settings.modMatrix.envAttack,
+      decay: settings.modMatrix.envDecay,
+      sustain: settings.modMatrix.envSustain,
+      release: settings.modMatrix.envRelease,
+    });
+
+    setParam(this.volume, settings.volume, time);
+
+    this.portamento =
+      settings.portamentoMode === "off" ? 0 : settings.portamento;
+
+    this.applyLfo(settings, time);
+  }
+
+  private applyLfo(settings: TrackSettings, time?: number): void {
+    const active =
+      settings.lfoRate > 0 &&
+      (settings.lfoOsc1Amount > 0 ||
+        settings.lfoOsc2Amount > 0 ||
+        settings.lfoFilterAmount > 0 ||
+        settings.lfoAmpAmount > 0);
+
+    setParam(this.lfo.frequency, settings.lfoRate, time);
+    if (this.lfo.type !== settings.lfoType) {
+      this.lfo.type = settings.lfoType;
+    }
+
+    // Pitch: up to +/-50 cents, filter: up to +/-1 octave
+    setParam(this.lfoOsc1.gain, active ? 50 * settings.lfoOsc1Amount : 0, time);
+    setParam(this.lfoOsc2.gain, active ? 50 * settings.lfoOsc2Amount : 0, time);
+    setParam(
+      this.lfoFilter.gain,
+      active ? 1200 * settings.lfoFilterAmount : 0,
+      time,
+    );
+
+    // Amp: gain swings between 1 - amount and 1
+    const tremolo = active ? settings.lfoAmpAmount / 2 : 0;
+    setParam(this.lfoAmp.gain, tremolo, time);
+    setParam(this.ampMod.gain, 1 - tremolo, time);
+
+    if (active && this.lfo.state !== "started") {
+      this.lfo.start();
+    } else if (!active && this.lfo.state === "started") {
+      this.lfo.stop();
+    }
+  }
+
+  // Shape is the pulse width for square waves and a wavefold amount otherwise
+  private applyShape(
+    osc: Tone.OmniOscillator<any>,
+    shaper: Tone.WaveShaper,
+    type: TrackSettings["osc1Type"],
+    shape: number,
+    time?: number,
+  ): void {
+    const oscType = type === "square" && shape > 0 ? "pulse" : type;
+    if (osc.type !== oscType) {
+      osc.type = oscType;
+    }
+
+    if (oscType === "pulse" && osc.width) {
+      // Keep the pulse from collapsing to silence at full width
+      setParam(osc.width, shape * 0.9, time);
+    }
+
+    const fold = oscType === "pulse" ? 0 : shape;
+    if (this.shaperFolds.get(shaper) === fold) return;
+    this.shaperFolds.set(shaper, fold);
+    shaper.setMap(
+      (x) =>
+        (1 - fold) * x + fold * Math.sin(((x * Math.PI) / 2) * (1 + 4 * fold)),
+    );
+  }
+
+  // Env amount scales the sweep depth, key track moves the base with the note
+  private applyFilterTracking(settings: TrackSettings): void {
+    const keyRatio = this.keyFrequency / 261.63; // relative to C4
+
+    this.filterEnvelope.baseFrequency =
+      settings.filterBaseFreq * Math.pow(keyRatio, settings.filterKeyTrack);
+    this.filterEnvelope.octaves =
+      settings.filterOctaves * settings.filterEnvAmount;
+  }
+
+  setNote(
+    note: Tone.Unit.Frequency | Tone.FrequencyClass,
+    time?: Tone.Unit.Time,
+  ): this {
+    this.keyFrequency =
+      note instanceof Tone.FrequencyClass
+        ? note.toFrequency()
+        : this.toFrequency(note);
+    this.applyFilterTracking(this.applied);
+    return super.setNote(note, time);
+  }
+
+  protected _triggerEnvelopeAttack(
+    time?: Tone.Unit.Time,
+    velocity: number = 1,
+  ): void {
+    this.velocity = velocity;
+    this.attackTime = this.toSeconds(time);
+    this.releaseEnd = Infinity;
+    // Envelopes take their times as they trigger, so settle them first
+    this.modulator?.startVoice(this, this.attackTime);
+    this.envelope.triggerAttack(time, velocity);
+    this.filterEnvelope.triggerAttack(time);
+    this.modEnvelope.triggerAttack(time);
+  }
+
+  protected _triggerEnvelopeRelease(time?: Tone.Unit.Time): void {
+    this.envelope.triggerRelease(time);
+    this.filterEnvelope.triggerRelease(time);
+    this.modEnvelope.triggerRelease(time);
+
+    // Schedule onsilence callback after release completes
+    // Add a small buffer to ensure envelope is fully released
+    const releaseDuration = Tone.Time(this.envelope.release).toSeconds() + 0.1;
+    this.releaseEnd = this.toSeconds(time) + releaseDuration;
+
+    this.context.setTimeout(() => {
+      // Check if voice is actually silent before calling onsilence
+      const level = this.getLevelAtTime(this.now());
+      if (level < 0.001 && this.onsilence) {
+        this.onsilence(this);
+      }
+    }, releaseDuration);
+  }
+
+  // Whether a note is playing or releasing at a time
+  isSounding(time: number): boolean {
+    return time <= this.releaseEnd;
+  }
+
+  getLevelAtTime(time: Tone.Unit.Time): number {
+    return this.envelope.getValueAtTime(time);
+  }
+
+  dispose(): this {
+    super.dispose();
+    this.modulator?.removeVoice(this);
+    this.frequency.dispose();
+    this.detune.dispose();
+    this.osc1.dispose();
+    this.osc2.dispose();
+    this.osc1Pitch.dispose();
+    this.osc2Pitch.dispose();
+    this.osc1Shaper.dispose();
+    this.osc2Shaper.dispose();
+    this.osc1Gain.dispose();
+    this.osc2Gain.dispose();
+    this.ringModulator.dispose();
+    this.ringMix.dispose();
+    this.mixer.dispose();
+    this.envelope.dispose();
+    this.internalFilter.dispose();
+    this.filterEnvelope.dispose();
+    this.lfo.dispose();
+    this.lfoOsc1.dispose();
+    this.lfoOsc2.dispose();
+    this.lfoFilter.dispose();
+    this.lfoAmp.dispose();
+    this.ampMod.dispose();
+    this.modEnvelope.dispose();
+    return this;
+  }
+}
+
+// Options accepted by DualOscVoice (and by PolySynth.set on its voices)
+export interface DualOscVoiceOptions extends MonophonicOptions, TrackSettings {
+  // Track-level modulation engine the voice registers with
+  modulator?: TrackModulator;
+}
+
+// Jump a parameter to a value now, or ramp it to arrive at `time`
+function setParam(
+  param: Tone.Param<any> | Tone.Signal<any>,
+  value: number,
+  time?: number,
+): void {
+  if (time === undefined) {
+    param.value = value;
+  } else {
+    param.linearRampToValueAtTime(value, time);
+  }
+}
+
+export interface TrackSettings {
+  // Oscillator 1
+  osc1Type: "sine" | "square" | "sawtooth" | "triangle";
+  osc1Octave: number;
+  osc1Semitone: number;
+  osc1Detune: number;
+  osc1Shape: number;
+
+  // Oscillator 2
+  osc2Type: "sine" | "square" | "sawtooth" | "triangle";
+  osc2Octave: number;
+  osc2Semitone: number;
+  osc2Detune: number;
+  osc2Shape: number;
+
+  // Oscillator Mix
+  oscMix: number;
+  ringMod: number;
+
+  // Amp Envelope
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+
+  // Amp
+  volume: number;
+  drive: number;
+
+  // Filter
+  filterType: "lowpass" | "highpass" | "bandpass" | "notch";
+  filterFreq: number;
+  filterQ: number;
+  filterEnvAmount: number;
+  filterKeyTrack: number;
+
+  // Filter Envelope
+  filterAttack: number;
+  filterDecay: number;
+  filterSustain: number;
+  filterRelease: number;
+  filterBaseFreq: number;
+  filterOctaves: number;
+
+  // Portamento
+  portamento: number;
+  portamentoMode: "always" | "legato" | "off";
+
+  // LFO
+  lfoRate: number;
+  lfoType: "sine" | "square" | "sawtooth" | "triangle";
+  lfoOsc1Amount: number;
+  lfoOsc2Amount: number;
+  lfoFilterAmount: number;
+  lfoAmpAmount: number;
+
+  // Delay
+  delayTime: number;
+  delayFeedback: number;
+  delayWet: number;
+
+  // Reverb
+  reverbDecay: number;
+  reverbWet: number;
+  reverbSize: number;
+  reverbStereo: number;
+  reverbDamping: number;
+
+  // Modulation matrix
+  modMatrix: ModMatrix;
+}
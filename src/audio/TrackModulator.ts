@@ -0,0 +1,372 @@
+// Track Modulator
+// Runs a track's modulation matrix, scheduling modulated settings slightly
+// ahead on the audio clock for every voice and for the track effects. The
+// sequencer's automation and parameter locks replace settings over time
+// (locks win for their step); the matrix modulates around those values
+
+import * as Tone from "tone";
+import type { DualOscVoice, TrackSettings } from "./DualOscVoice";
+import {
+  applyModOffsets,
+  computeModOffsets,
+  hasModTarget,
+  lfoValue,
+  type ModSourceValues,
+} from "./modMatrix";
+import { applyParamLocks, type ParamLocks } from "./settingPaths";
+
+// Modulation is evaluated every 10ms and scheduled up to 50ms ahead
+const MOD_RESOLUTION = 0.01;
+const MOD_LOOKAHEAD = 0.05;
+
+// Pitch bend messages are smoothed over this long to avoid zipper noise
+const PITCH_BEND_GLIDE = 0.01;
+
+// Parameter locks glide in over this long, so they don't click
+const LOCK_GLIDE = 0.005;
+
+// Only the latest event before the current time is still needed
+function dropPastEvents(events: { time: number }[], now: number): void {
+  while (events.length > 1 && events[1].time <= now) {
+    events.shift();
+  }
+}
+
+interface TrackEffects {
+  distortion: Tone.Distortion;
+  filter: Tone.Filter;
+  delay: Tone.FeedbackDelay;
+  reverb: Tone.JCReverb;
+}
+
+export class TrackModulator {
+  private context = Tone.getContext();
+  private voices = new Set<DualOscVoice>();
+  private settings: TrackSettings;
+  private effects: TrackEffects;
+
+  private intervalId: number | null = null;
+  private scheduledUntil = 0;
+  private lfoPhases = [0, 0];
+
+  // Live input (mod wheel 0 to 1, pitch bend) and the sequencer step timeline
+  private modWheel = 0;
+  private pitchBend = 0; // Cents
+  private stepEvents: { time: number; value: number }[] = [];
+  // Parameter locks from each step on and automation values at each
+  // breakpoint (null for none), and how often they were cleared, which
+  // cancels the ones still waiting to be applied
+  private lockEvents: { time: number; locks: ParamLocks | null }[] = [];
+  private automationEvents: { time: number; values: ParamLocks | null }[] = [];
+  private resets = 0;
+
+  constructor(settings: TrackSettings, effects: TrackEffects) {
+    this.settings = settings;
+    this.effects = effects;
+    this.updateRunning();
+  }
+
+  addVoice(voice: DualOscVoice): void {
+    this.voices.add(voice);
+    voice.detune.value = this.pitchBend;
+    // New voices start on the settings, which may be locked or automated
+    const now = this.context.now();
+    if (this.locksAt(now) || this.automationAt(now)) {
+      voice.modulate(this.settingsAt(now), now);
+    }
+  }
+
+  removeVoice(voice: DualOscVoice): void {
+    this.voices.delete(voice);
+  }
+
+  // Called by a voice as it starts a note. The matrix only modulates voices
+  // that sound, so one that sat idle first catches up with it
+  startVoice(voice: DualOscVoice, time: number): void {
+    if (
+      this.intervalId === null ||
+      !hasModTarget(this.settings.modMatrix, "voice")
+    ) {
+      return;
+    }
+    this.modulateVoice(
+      voice,
+      this.settingsAt(time),
+      this.sourcesAt(time),
+      time,
+    );
+  }
+
+  // Base settings the matrix modulates around
+  setSettings(settings: TrackSettings): void {
+    this.settings = settings;
+    this.updateRunning();
+  }
+
+  setModWheel(value: number): void {
+    this.modWheel = value;
+  }
+
+  // Bends every voice of the track, held ones and ones allocated later
+  setPitchBend(cents: number): void {
+    this.pitchBend = cents;
+    this.voices.forEach((voice) =>
+      voice.detune.rampTo(cents, PITCH_BEND_GLIDE),
+    );
+  }
+
+  // Called by the sequencer ahead of time for each step it plays
+  setStep(step: number, stepCount: number, time: number): void {
+    const value = stepCount > 1 ? step / (stepCount - 1) : 0;
+    this.stepEvents.push({ time, value });
+    dropPastEvents(this.stepEvents, this.context.currentTime);
+  }
+
+  // Called by the sequencer ahead of time for each step it plays, with the
+  // step's parameter locks (null for none). They are applied on the same
+  // clock the synth triggers its notes on, just before the step's notes, so
+  // envelopes and the filter's key tracking pick them up as well
+  setLocks(locks: ParamLocks | null, time: number): void {
+    const last = this.lockEvents[this.lockEvents.length - 1];
+    if (!locks && !last?.locks) return;
+    this.lockEvents.push({ time, locks });
+    dropPastEvents(this.lockEvents, this.context.currentTime);
+    this.scheduleSettings(time, LOCK_GLIDE);
+  }
+
+  // Called by the sequencer ahead of time at each breakpoint of the track's
+  // automation, with the automated values there (null for none). Signals ramp
+  // from one breakpoint to the next; settings that aren't signals, like the
+  // voice filter's, change at each one and carry into notes starting after
+  // it. Knob moves recorded live come in out of order, at the current time
+  setAutomation(values: ParamLocks | null, time: number): void {
+    const events = this.automationEvents;
+    const index = events.findIndex((event) => event.time > time);
+    const previous = events[(index === -1 ? events.length : index) - 1];
+    if (!values && !previous?.values) return;
+    events.splice(index === -1 ? events.length : index, 0, { time, values });
+    dropPastEvents(this.automationEvents, this.context.currentTime);
+    this.scheduleSettings(time, 0);
+  }
+
+  // Drop every lock and automation value at once (playback stopped)
+  clearSequenced(): void {
+    if (this.lockEvents.length === 0 && this.automationEvents.length === 0) {
+      return;
+    }
+    this.lockEvents = [];
+    this.automationEvents = [];
+    this.resets++;
+    const now = this.context.now();
+    this.voices.forEach((voice) => voice.modulate(this.settings, now));
+    this.applyEffects(this.settings, now);
+  }
+
+  dispose(): void {
+    this.stop();
+    this.voices.clear();
+  }
+
+  private updateRunning(): void {
+    const active = this.settings.modMatrix.slots.some(
+      (slot) => slot.amount !== 0,
+    );
+    if (active && this.intervalId === null) {
+      this.scheduledUntil = this.context.now();
+      this.intervalId = this.context.setInterval(this.tick, MOD_LOOKAHEAD / 2);
+    } else if (!active && this.intervalId !== null) {
+      this.stop();
+      // Settle everything back on the unmodulated settings
+      const now = this.context.now();
+      const settings = this.settingsAt(now);
+      this.voices.forEach((voice) => voice.modulate(settings, now));
+      this.applyEffects(settings, now);
+    }
+  }
+
+  // Apply the settings at a time, from just before it on the clock the synth
+  // triggers notes on (so envelopes pick them up for notes starting then).
+  // With a glide, signals first hold the settings from before. Whatever the
+  // matrix modulates, it applies the settings to itself
+  private scheduleSettings(time: number, glide: number): void {
+    const resets = this.resets;
+    this.context.setTimeout(
+      () => {
+        if (resets !== this.resets) return;
+        const running = this.intervalId !== null;
+        const { modMatrix } = this.settings;
+        const times = glide > 0 ? [time - glide, time] : [time];
+        times.forEach((at) => {
+          const settings = this.settingsAt(at);
+          if (!running || !hasModTarget(modMatrix, "voice")) {
+            this.voices.forEach((voice) => voice.modulate(settings, at));
+          }
+          if (!running || !hasModTarget(modMatrix, "track")) {
+            this.applyEffects(settings, at);
+          }
+        });
+      },
+      Math.max(0, time - glide - this.context.now()),
+    );
+  }
+
+  private stop(): void {
+    if (this.intervalId !== null) {
+      this.context.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private locksAt(time: number): ParamLocks | null {
+    let locks: ParamLocks | null = null;
+    for (const event of this.lockEvents) {
+      if (event.time > time) break;
+      locks = event.locks;
+    }
+    return locks;
+  }
+
+  // Automated values at a time, on the line between the breakpoints around
+  // it (the sequencer sends the next one ahead of time)
+  private automationAt(time: number): ParamLocks | null {
+    const events = this.automationEvents;
+    const nextIndex = events.findIndex((event) => event.time > time);
+    const previous = events[(nextIndex === -1 ? events.length : nextIndex) - 1];
+    const next = nextIndex === -1 ? undefined : events[nextIndex];
+    if (!previous?.values) return null;
+    if (!next?.values) return previous.values;
+
+    const share = (time - previous.time) / (next.time - previous.time);
+    const to = next.values;
+    return Object.fromEntries(
+      Object.entries(previous.values).map(([param, value]) => [
+        param,
+        param in to ? value + (to[param] - value) * share : value,
+      ]),
+    );
+  }
+
+  // The settings with the automation and locks playing at a time
+  private settingsAt(time: number): TrackSettings {
+    const automation = this.automationAt(time);
+    const locks = this.locksAt(time);
+    const automated = automation
+      ? applyParamLocks(this.settings, automation)
+      : this.settings;
+    return locks ? applyParamLocks(automated, locks) : automated;
+  }
+
+  private stepAt(time: number): number {
+    let value = 0;
+    for (const event of this.stepEvents) {
+      if (event.time > time) break;
+      value = event.value;
+    }
+    return value;
+  }
+
+  private tick = (): void => {
+    const { modMatrix } = this.settings;
+    const voiceTargets = hasModTarget(modMatrix, "voice");
+    const trackTargets = hasModTarget(modMatrix, "track");
+
+    // Don't try to catch up after the tab was suspended
+    const start = Math.max(this.scheduledUntil, this.context.now());
+    const end = this.context.now() + MOD_LOOKAHEAD;
+
+    for (
+      let time = start + MOD_RESOLUTION;
+      time <= end;
+      time += MOD_RESOLUTION
+    ) {
+      this.lfoPhases[0] += this.settings.lfoRate * MOD_RESOLUTION;
+      this.lfoPhases[1] += modMatrix.lfo2Rate * MOD_RESOLUTION;
+
+      const base = this.settingsAt(time);
+      const sources = this.sourcesAt(time);
+
+      if (voiceTargets) {
+        this.voices.forEach((voice) => {
+          if (voice.isSounding(time)) {
+            this.modulateVoice(voice, base, sources, time);
+          }
+        });
+      }
+
+      if (trackTargets) {
+        // Per-note sources follow the most recently started note
+        let lastVoice: DualOscVoice | null = null;
+        for (const voice of this.voices) {
+          if (
+            voice.attackTime <= time &&
+            (!lastVoice || voice.attackTime > lastVoice.attackTime)
+          ) {
+            lastVoice = voice;
+          }
+        }
+        const trackSources = lastVoice
+          ? { ...sources, ...lastVoice.getModSources(time) }
+          : sources;
+
+        this.applyEffects(
+          applyModOffsets(
+            base,
+            computeModOffsets(modMatrix.slots, trackSources),
+          ),
+          time,
+        );
+      }
+
+      this.scheduledUntil = time;
+    }
+  };
+
+  // Track-wide sources, with the LFOs where the last tick left them
+  private sourcesAt(time: number): ModSourceValues {
+    const { modMatrix } = this.settings;
+    return {
+      lfo1: lfoValue(this.settings.lfoType, this.lfoPhases[0]),
+      lfo2: lfoValue(modMatrix.lfo2Type, this.lfoPhases[1]),
+      modWheel: this.modWheel,
+      step: this.stepAt(time),
+      filterEnv: 0,
+      modEnv: 0,
+      velocity: 0,
+      note: 0,
+    };
+  }
+
+  private modulateVoice(
+    voice: DualOscVoice,
+    base: TrackSettings,
+    sources: ModSourceValues,
+    time: number,
+  ): void {
+    const voiceSources = { ...sources, ...voice.getModSources(time) };
+    voice.modulate(
+      applyModOffsets(
+        base,
+        computeModOffsets(this.settings.modMatrix.slots, voiceSources),
+      ),
+      time,
+    );
+  }
+
+  private applyEffects(settings: TrackSettings, time: number): void {
+    const { distortion, filter, delay, reverb } = this.effects;
+
+    filter.frequency.linearRampToValueAtTime(settings.filterFreq, time);
+    filter.Q.linearRampToValueAtTime(settings.filterQ, time);
+    delay.delayTime.linearRampToValueAtTime(settings.delayTime, time);
+    delay.feedback.linearRampToValueAtTime(settings.delayFeedback, time);
+    delay.wet.linearRampToValueAtTime(settings.delayWet, time);
+    reverb.wet.linearRampToValueAtTime(settings.reverbWet, time);
+    reverb.roomSize.linearRampToValueAtTime(settings.reverbSize, time);
+
+    // The distortion curve is not a signal, so it changes immediately
+    if (distortion.distortion !== settings.drive) {
+      distortion.distortion = settings.drive;
+      distortion.wet.value = settings.drive > 0 ? 1 : 0;
+    }
+  }
+}
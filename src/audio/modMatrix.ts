@@ -0,0 +1,243 @@
+// Modulation Matrix
+// Per-track routing of modulation sources onto numeric track settings
+
+export type ModSource =
+  | "lfo1"
+  | "lfo2"
+  | "filterEnv"
+  | "modEnv"
+  | "velocity"
+  | "note"
+  | "modWheel"
+  | "step";
+
+export type ModDestination =
+  | "osc1Octave"
+  | "osc1Semitone"
+  | "osc1Detune"
+  | "osc1Shape"
+  | "osc2Octave"
+  | "osc2Semitone"
+  | "osc2Detune"
+  | "osc2Shape"
+  | "oscMix"
+  | "ringMod"
+  | "attack"
+  | "decay"
+  | "sustain"
+  | "release"
+  | "volume"
+  | "drive"
+  | "filterFreq"
+  | "filterQ"
+  | "filterEnvAmount"
+  | "filterKeyTrack"
+  | "filterAttack"
+  | "filterDecay"
+  | "filterSustain"
+  | "filterRelease"
+  | "filterBaseFreq"
+  | "filterOctaves"
+  | "portamento"
+  | "lfoRate"
+  | "lfoOsc1Amount"
+  | "lfoOsc2Amount"
+  | "lfoFilterAmount"
+  | "lfoAmpAmount"
+  | "delayTime"
+  | "delayFeedback"
+  | "delayWet"
+  | "reverbWet"
+  | "reverbSize";
+
+export interface ModSlot {
+  source: ModSource;
+  destination: ModDestination;
+  amount: number; // -1 to +1 (bipolar)
+}
+
+export interface ModMatrix {
+  // Second LFO (LFO 1 uses the track's lfoRate / lfoType)
+  lfo2Rate: number;
+  lfo2Type: "sine" | "square" | "sawtooth" | "triangle";
+
+  // Free modulation envelope, triggered with every note
+  envAttack: number;
+  envDecay: number;
+  envSustain: number;
+  envRelease: number;
+
+  slots: ModSlot[];
+}
+
+interface ModDestinationInfo {
+  label: string;
+  min: number;
+  max: number;
+  // Exponential destinations are modulated in octaves rather than linearly
+  exponential?: boolean;
+  // Where the parameter lives: on each voice, on the track effects, or both
+  target: "voice" | "track" | "both";
+}
+
+// Source values: LFOs are bipolar (-1 to 1), note is bipolar around C4,
+// everything else is unipolar (0 to 1)
+export const MOD_SOURCES: Record<ModSource, string> = {
+  lfo1: "LFO 1",
+  lfo2: "LFO 2",
+  filterEnv: "Filter Env",
+  modEnv: "Mod Env",
+  velocity: "Velocity",
+  note: "Note Number",
+  modWheel: "Mod Wheel",
+  step: "Sequencer Step",
+};
+
+// An amount of 1 sweeps the destination across its whole range
+export const MOD_DESTINATIONS: Record<ModDestination, ModDestinationInfo> = {
+  osc1Octave: { label: "OSC 1 Octave", min: -3, max: 3, target: "voice" },
+  osc1Semitone: { label: "OSC 1 Semi", min: -12, max: 12, target: "voice" },
+  osc1Detune: { label: "OSC 1 Detune", min: -100, max: 100, target: "voice" },
+  osc1Shape: { label: "OSC 1 Shape", min: 0, max: 1, target: "voice" },
+  osc2Octave: { label: "OSC 2 Octave", min: -3, max: 3, target: "voice" },
+  osc2Semitone: { label: "OSC 2 Semi", min: -12, max: 12, target: "voice" },
+  osc2Detune: { label: "OSC 2 Detune", min: -100, max: 100, target: "voice" },
+  osc2Shape: { label: "OSC 2 Shape", min: 0, max: 1, target: "voice" },
+  oscMix: { label: "OSC Mix", min: 0, max: 1, target: "voice" },
+  ringMod: { label: "Ring Mod", min: 0, max: 1, target: "voice" },
+  attack: { label: "Amp Attack", min: 0.001, max: 2, target: "voice" },
+  decay: { label: "Amp Decay", min: 0.001, max: 2, target: "voice" },
+  sustain: { label: "Amp Sustain", min: 0, max: 1, target: "voice" },
+  release: { label: "Amp Release", min: 0.001, max: 5, target: "voice" },
+  volume: { label: "Volume", min: -40, max: 6, target: "voice" },
+  drive: { label: "Drive", min: 0, max: 1, target: "track" },
+  filterFreq: {
+    label: "Filter Cutoff",
+    min: 20,
+    max: 20000,
+    exponential: true,
+    target: "track",
+  },
+  filterQ: { label: "Filter Resonance", min: 0.1, max: 20, target: "both" },
+  filterEnvAmount: { label: "Filter Env Amt", min: 0, max: 1, target: "voice" },
+  filterKeyTrack: {
+    label: "Filter Key Track",
+    min: 0,
+    max: 1,
+    target: "voice",
+  },
+  filterAttack: { label: "Filter Attack", min: 0.001, max: 2, target: "voice" },
+  filterDecay: { label: "Filter Decay", min: 0.001, max: 2, target: "voice" },
+  filterSustain: { label: "Filter Sustain", min: 0, max: 1, target: "voice" },
+  filterRelease: {
+    label: "Filter Release",
+    min: 0.001,
+    max: 5,
+    target: "voice",
+  },
+  filterBaseFreq: {
+    label: "Filter Base Freq",
+    min: 20,
+    max: 5000,
+    exponential: true,
+    target: "voice",
+  },
+  filterOctaves: { label: "Filter Octaves", min: 0, max: 7, target: "voice" },
+  portamento: { label: "Portamento", min: 0, max: 1, target: "voice" },
+  lfoRate: { label: "LFO Speed", min: 0, max: 20, target: "voice" },
+  lfoOsc1Amount: { label: "LFO > OSC 1", min: 0, max: 1, target: "voice" },
+  lfoOsc2Amount: { label: "LFO > OSC 2", min: 0, max: 1, target: "voice" },
+  lfoFilterAmount: { label: "LFO > Filter", min: 0, max: 1, target: "voice" },
+  lfoAmpAmount: { label: "LFO > Amp", min: 0, max: 1, target: "voice" },
+  delayTime: { label: "Delay Time", min: 0, max: 1, target: "track" },
+  delayFeedback: {
+    label: "Delay Feedback",
+    min: 0,
+    max: 0.95,
+    target: "track",
+  },
+  delayWet: { label: "Delay Wet", min: 0, max: 1, target: "track" },
+  reverbWet: { label: "Reverb Wet", min: 0, max: 1, target: "track" },
+  reverbSize: { label: "Reverb Size", min: 0, max: 1, target: "track" },
+};
+
+export const MAX_MOD_SLOTS = 8;
+
+export const DEFAULT_MOD_MATRIX: ModMatrix = {
+  lfo2Rate: 1,
+  lfo2Type: "sine",
+  envAttack: 0.01,
+  envDecay: 0.3,
+  envSustain: 0,
+  envRelease: 0.3,
+  slots: [],
+};
+
+export type ModSourceValues = Record<ModSource, number>;
+
+export type ModOffsets = Partial<Record<ModDestination, number>>;
+
+// Value of an LFO waveform (-1 to 1) at a phase (0 to 1)
+export function lfoValue(type: ModMatrix["lfo2Type"], phase: number): number {
+  const p = phase - Math.floor(phase);
+  switch (type) {
+    case "square":
+      return p < 0.5 ? 1 : -1;
+    case "sawtooth":
+      return 2 * p - 1;
+    case "triangle":
+      return p < 0.25 ? 4 * p : p < 0.75 ? 2 - 4 * p : 4 * p - 4;
+    default:
+      return Math.sin(2 * Math.PI * p);
+  }
+}
+
+// Whether any active slot modulates a destination living at the given place
+export function hasModTarget(
+  matrix: ModMatrix,
+  target: "voice" | "track",
+): boolean {
+  return matrix.slots.some((slot) => {
+    const info = MOD_DESTINATIONS[slot.destination];
+    return (
+      slot.amount !== 0 &&
+      info !== undefined &&
+      (info.target === target || info.target === "both")
+    );
+  });
+}
+
+// Sum every slot into a normalized offset (-1 to 1 per unit of range)
+export function computeModOffsets(
+  slots: ModSlot[],
+  sources: ModSourceValues,
+): ModOffsets {
+  const offsets: ModOffsets = {};
+  slots.forEach((slot) => {
+    if (slot.amount === 0 || !MOD_DESTINATIONS[slot.destination]) return;
+    offsets[slot.destination] =
+      (offsets[slot.destination] ?? 0) + slot.amount * sources[slot.source];
+  });
+  return offsets;
+}
+
+// Apply offsets on top of the base settings, clamped to each range
+export function applyModOffsets<T extends Record<ModDestination, number>>(
+  base: T,
+  offsets: ModOffsets,
+): T {
+  const result = { ...base };
+  (Object.keys(offsets) as ModDestination[]).forEach((destination) => {
+    const { min, max, exponential } = MOD_DESTINATIONS[destination];
+    const offset = offsets[destination] ?? 0;
+    const value = exponential
+      ? Math.max(base[destination], min) *
+        Math.pow(2, offset * Math.log2(max / min))
+      : base[destination] + offset * (max - min);
+    result[destination] = Math.min(
+      max,
+      Math.max(min, value),
+    ) as T[ModDestination];
+  });
+  return result;
+}
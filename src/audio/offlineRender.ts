@@ -0,0 +1,138 @@
+// Offline Render
+// Render the arrangement faster than realtime with Tone.Offline, through the
+// same per-track chain as live playback. Nothing in the chain is random (the
+// groove's humanize is seeded), so the same project always renders the same
+// samples
+
+import * as Tone from "tone";
+import type { TrackSettings } from "./DualOscVoice";
+import { createTrack, disposeTrack, type Track } from "./trackChain";
+import {
+  getTimelineAutomation,
+  getTimelineNotes,
+  getTimelineQuarters,
+  getTimelineSteps,
+  layoutSections,
+  type Section,
+} from "../sequencer/arrangement";
+import type { GrooveSettings } from "../sequencer/groove";
+import { getTrackLength } from "../sequencer/timing";
+
+export const RENDER_SAMPLE_RATES = [44100, 48000, 96000];
+
+// Effect tails longer than this are cut off (seconds)
+const MAX_TAIL = 30;
+
+// Level the tails are rendered down to (-60 dB)
+const SILENCE = 0.001;
+
+// Comb filter delay of the JCReverb's longest line (seconds)
+const REVERB_COMB_DELAY = 0.04;
+
+export interface RenderOptions {
+  sections: Section[];
+  bars: number;
+  bpm: number;
+  groove: GrooveSettings;
+  trackSettings: TrackSettings[];
+  trackVolumes: number[]; // dB
+  trackMutes: boolean[];
+  solo: number | null; // Render only this track (a stem), even when muted
+  sampleRate: number;
+}
+
+// How long a track keeps sounding after its last note is released
+export function getTrackTail(settings: TrackSettings): number {
+  // Number of passes through a feedback loop until it falls silent
+  const passes = (feedback: number) =>
+    feedback > 0 ? Math.log(SILENCE) / Math.log(Math.min(feedback, 0.999)) : 1;
+
+  const release = Math.max(settings.release, settings.filterRelease);
+  const delay =
+    settings.delayWet > 0
+      ? settings.delayTime * (passes(settings.delayFeedback) + 1)
+      : 0;
+  const reverb =
+    settings.reverbWet > 0
+      ? REVERB_COMB_DELAY * passes(settings.reverbSize)
+      : 0;
+  return Math.min(MAX_TAIL, release + delay + reverb);
+}
+
+// Stereo channels of the rendered audio
+export async function renderAudio(
+  options: RenderOptions,
+): Promise<Float32Array[]> {
+  const { bpm, groove, trackSettings, trackVolumes, trackMutes, solo } =
+    options;
+  const placed = layoutSections(options.sections, options.bars);
+  const toSeconds = (quarters: number) => (quarters * 60) / bpm;
+
+  const included = trackSettings
+    .map((_, i) => i)
+    .filter((i) => (solo === null ? !trackMutes[i] : i === solo));
+  const tail = Math.max(
+    0,
+    ...included.map((i) => getTrackTail(trackSettings[i])),
+  );
+  const duration = toSeconds(getTimelineQuarters(placed)) + tail;
+
+  const tracks: Track[] = [];
+  const buffer = await Tone.Offline(
+    ({ transport }) => {
+      // Every node below belongs to the offline context while this runs
+      transport.bpm.value = bpm;
+
+      included.forEach((trackIndex) => {
+        const track = createTrack(trackSettings[trackIndex]);
+        tracks.push(track);
+        const synth = track.synth!;
+        synth.volume.value = trackVolumes[trackIndex];
+
+        getTimelineNotes(placed, trackIndex, groove).forEach((note) => {
+          transport.schedule((time) => {
+            synth.triggerAttackRelease(
+              Tone.Frequency(note.pitch, "midi").toNote(),
+              toSeconds(note.duration),
+              time,
+              note.velocity,
+            );
+          }, toSeconds(note.time));
+        });
+
+        // Automation ramps from breakpoint to breakpoint as playback does
+        getTimelineAutomation(placed, trackIndex).forEach(
+          ({ time, values }) => {
+            transport.schedule((eventTime) => {
+              track.modulator?.setAutomation(values, eventTime);
+            }, toSeconds(time));
+          },
+        );
+
+        // Feed the "Sequencer Step" modulation source and apply parameter
+        // locks as playback does
+        getTimelineSteps(placed).forEach(
+          ({ time, step, pattern, settings }) => {
+            const trackLength = getTrackLength(settings, trackIndex);
+            const position = step % trackLength;
+            const locks =
+              pattern.sequence[position]?.[trackIndex]?.locks ?? null;
+            transport.schedule((stepTime) => {
+              track.modulator?.setStep(position, trackLength, stepTime);
+              track.modulator?.setLocks(locks, stepTime);
+            }, toSeconds(time));
+          },
+        );
+      });
+
+      transport.start(0);
+    },
+    duration,
+    2,
+    options.sampleRate,
+  );
+
+  tracks.forEach(disposeTrack);
+  const audio = buffer.get()!;
+  return [audio.getChannelData(0), audio.getChannelData(1)];
+}
@@ -0,0 +1,60 @@
+// Setting Paths
+// Single numeric track settings addressed by path, e.g. "filterFreq" or
+// "modMatrix.slots.1.amount". Used by MIDI mappings and by the parameter
+// locks of sequencer steps
+
+import type { TrackSettings } from "./DualOscVoice";
+
+// Setting values by path
+export type ParamLocks = Record<string, number>;
+
+// Top-level settings, matrix settings and slot amounts
+const PARAM_PATTERN = /^(\w+|modMatrix\.\w+|modMatrix\.slots\.\d+\.amount)$/;
+
+export function isSettingPath(param: string): boolean {
+  return PARAM_PATTERN.test(param);
+}
+
+// The setting's current value, or null if the path has no number (a removed
+// matrix slot)
+export function getParamValue(
+  settings: TrackSettings,
+  param: string,
+): number | null {
+  let value: unknown = settings;
+  for (const key of param.split(".")) {
+    if (typeof value !== "object" || value === null) return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return typeof value === "number" ? value : null;
+}
+
+// Settings with one value replaced, copying each object on the path
+export function setParamValue(
+  settings: TrackSettings,
+  param: string,
+  value: number,
+): TrackSettings {
+  const update = (target: any, keys: string[]): any => {
+    const [key, ...rest] = keys;
+    const copy = Array.isArray(target) ? [...target] : { ...target };
+    copy[key] = rest.length === 0 ? value : update(target[key], rest);
+    return copy;
+  };
+  return update(settings, param.split("."));
+}
+
+// Settings with locked values in place of their own. Locks on paths the
+// settings don't have (a removed matrix slot) are skipped
+export function applyParamLocks(
+  settings: TrackSettings,
+  locks: ParamLocks,
+): TrackSettings {
+  return Object.entries(locks).reduce(
+    (locked, [param, value]) =>
+      getParamValue(locked, param) === null
+        ? locked
+        : setParamValue(locked, param, value),
+    settings,
+  );
+}
@@ -0,0 +1,125 @@
+// Track Chain
+// The audio nodes of one track: synth -> distortion -> filter -> delay ->
+// reverb, with the modulation matrix driving voices and effects
+
+import * as Tone from "tone";
+import { DualOscVoice, type TrackSettings } from "./DualOscVoice";
+import { TrackModulator } from "./TrackModulator";
+
+export interface Track {
+  synth: Tone.PolySynth<any> | null;
+  reverb: Tone.JCReverb | null;
+  delay: Tone.FeedbackDelay | null;
+  filter: Tone.Filter | null;
+  distortion: Tone.Distortion | null;
+  modulator: TrackModulator | null;
+}
+
+// Create synth and effects for a track
+export function createTrack(settings: TrackSettings): Track {
+  // Create filter for this track (independent instance for external effects)
+  const filter = new Tone.Filter({
+    type: settings.filterType,
+    frequency: settings.filterFreq,
+    Q: settings.filterQ,
+  });
+
+  // Create distortion for this track
+  const distortion = new Tone.Distortion({
+    distortion: settings.drive,
+    wet: settings.drive > 0 ? 1 : 0, // Full wet when drive enabled
+  });
+
+  // Create delay for this track
+  const delay = new Tone.FeedbackDelay({
+    delayTime: settings.delayTime,
+    feedback: settings.delayFeedback,
+    wet: settings.delayWet,
+  });
+
+  // Create reverb for this track
+  const reverb = new Tone.JCReverb({
+    roomSize: settings.reverbSize,
+    wet: settings.reverbWet,
+  });
+
+  // Chain: synth -> distortion -> filter -> delay -> reverb -> destination
+  distortion.connect(filter);
+  filter.connect(delay);
+  delay.connect(reverb);
+  reverb.toDestination();
+
+  // Create modulation matrix for this track (drives voices and effects)
+  const modulator = new TrackModulator(settings, {
+    distortion,
+    filter,
+    delay,
+    reverb,
+  });
+
+  // Create synth with dual oscillator voice
+  const synth = new Tone.PolySynth(DualOscVoice, {
+    // Pass all settings to the voice constructor
+    ...settings,
+    modulator,
+  }).connect(distortion);
+
+  // Set max polyphony - very high to avoid voice stealing
+  synth.maxPolyphony = 128;
+
+  // Apply synth-level settings separately
+  synth.volume.value = settings.volume;
+  if (settings.portamento > 0) {
+    synth.set({ portamento: settings.portamento });
+  }
+
+  return { synth, reverb, delay, filter, distortion, modulator };
+}
+
+// Apply settings to a track's live nodes: every allocated voice (and future
+// ones) and the effects, which the modulation matrix modulates around
+export function applyTrackSettings(track: Track, settings: TrackSettings) {
+  const { synth, filter, reverb, delay, distortion, modulator } = track;
+  if (!synth || !filter || !reverb || !delay || !distortion) return;
+
+  // The voices map every setting onto their live nodes, including the
+  // per-voice LFO routing
+  synth.set(settings);
+
+  filter.type = settings.filterType;
+  filter.frequency.value = settings.filterFreq;
+  filter.Q.value = settings.filterQ;
+
+  reverb.roomSize.value = settings.reverbSize;
+  reverb.wet.value = settings.reverbWet;
+
+  delay.delayTime.value = settings.delayTime;
+  delay.feedback.value = settings.delayFeedback;
+  delay.wet.value = settings.delayWet;
+
+  distortion.distortion = settings.drive;
+  distortion.wet.value = settings.drive > 0 ? 1 : 0;
+
+  modulator?.setSettings(settings);
+}
+
+export function disposeTrack(track: Track) {
+  if (track.modulator) {
+    track.modulator.dispose();
+  }
+  if (track.synth) {
+    track.synth.dispose();
+  }
+  if (track.reverb) {
+    track.reverb.dispose();
+  }
+  if (track.delay) {
+    track.delay.dispose();
+  }
+  if (track.filter) {
+    track.filter.dispose();
+  }
+  if (track.distortion) {
+    track.distortion.dispose();
+  }
+}
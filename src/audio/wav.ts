@@ -0,0 +1,70 @@
+// WAV Encoding
+// Interleave rendered channels into a RIFF WAVE file. 16 and 24 bit are
+// integer PCM, 32 bit is IEEE float. Samples are clipped, not dithered, so
+// the same audio always encodes to the same bytes
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export const WAV_BIT_DEPTHS: WavBitDepth[] = [16, 24, 32];
+
+const FORMAT_PCM = 1;
+const FORMAT_IEEE_FLOAT = 3;
+
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: WavBitDepth,
+): ArrayBuffer {
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? FORMAT_IEEE_FLOAT : FORMAT_PCM, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame++) {
+    channels.forEach((channel) => {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitDepth === 24) {
+        const value = Math.round(
+          sample < 0 ? sample * 0x800000 : sample * 0x7fffff,
+        );
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      } else {
+        view.setInt16(
+          offset,
+          Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff),
+          true,
+        );
+      }
+      offset += bytesPerSample;
+    });
+  }
+
+  return buffer;
+}
@@ -0,0 +1,232 @@
+import {
+  MAX_SONG_REPEATS,
+  PATTERN_LETTERS,
+  hasNotes,
+  type Pattern,
+  type PlayMode,
+  type SongEntry,
+} from "../sequencer/patterns";
+
+interface ArrangementPanelProps {
+  patterns: Pattern[];
+  currentPattern: number;
+  queuedPattern: number | null;
+  isPlaying: boolean;
+  playMode: PlayMode;
+  song: SongEntry[];
+  songEntry: number | null; // Entry playing in song mode
+  onSelectPattern: (index: number) => void;
+  onRenamePattern: (name: string) => void;
+  onPlayModeChange: (mode: PlayMode) => void;
+  onSongChange: (song: SongEntry[]) => void;
+}
+
+function ArrangementPanel({
+  patterns,
+  currentPattern,
+  queuedPattern,
+  isPlaying,
+  playMode,
+  song,
+  songEntry,
+  onSelectPattern,
+  onRenamePattern,
+  onPlayModeChange,
+  onSongChange,
+}: ArrangementPanelProps) {
+  // In song mode the song decides which pattern plays
+  const patternsLocked = isPlaying && playMode === "song";
+
+  const updateEntry = (index: number, changes: Partial<SongEntry>) => {
+    onSongChange(
+      song.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)),
+    );
+  };
+
+  const modeButtonStyle = (active: boolean) => ({
+    padding: "6px 12px",
+    fontSize: "12px",
+    cursor: "pointer",
+    backgroundColor: active ? "#673AB7" : "#e0e0e0",
+    color: active ? "white" : "#333",
+    border: "none",
+    borderRadius: "4px",
+  });
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "10px 15px",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        backgroundColor: "#fafafa",
+        display: "flex",
+        flexDirection: "column",
+        gap: "10px",
+      }}
+    >
+      {/* Play Mode */}
+      <div style={{ display: "flex", gap: "6px", alignItems: "center" }}>
+        <strong style={{ fontSize: "12px", minWidth: "70px" }}>Play</strong>
+        <button
+          onClick={() => onPlayModeChange("pattern")}
+          style={modeButtonStyle(playMode === "pattern")}
+        >
+          🔁 Pattern Loop
+        </button>
+        <button
+          onClick={() => onPlayModeChange("song")}
+          disabled={song.length === 0}
+          style={{
+            ...modeButtonStyle(playMode === "song"),
+            opacity: song.length === 0 ? 0.5 : 1,
+            cursor: song.length === 0 ? "not-allowed" : "pointer",
+          }}
+          title={song.length === 0 ? "Add patterns to the song first" : ""}
+        >
+          🎼 Song
+        </button>
+      </div>
+
+      {/* Pattern Bank */}
+      <div
+        style={{
+          display: "flex",
+          gap: "4px",
+          alignItems: "center",
+          flexWrap: "wrap",
+        }}
+      >
+        <strong style={{ fontSize: "12px", minWidth: "70px" }}>Patterns</strong>
+        {PATTERN_LETTERS.map((letter, index) => {
+          const isCurrent = index === currentPattern;
+          const isQueued = index === queuedPattern;
+          return (
+            <button
+              key={letter}
+              onClick={() => onSelectPattern(index)}
+              disabled={patternsLocked}
+              style={{
+                width: "30px",
+                padding: "6px 0",
+                fontSize: "12px",
+                fontWeight: "bold",
+                cursor: patternsLocked ? "not-allowed" : "pointer",
+                backgroundColor: isCurrent ? "#673AB7" : "white",
+                color: isCurrent ? "white" : "#333",
+                border: isQueued ? "2px solid #FF9800" : "1px solid #ccc",
+                borderRadius: "4px",
+                opacity: isCurrent || hasNotes(patterns[index]) ? 1 : 0.5,
+              }}
+              title={
+                isQueued
+                  ? "Queued: switches at the next bar"
+                  : patterns[index].name || `Pattern ${letter}`
+              }
+            >
+              {letter}
+            </button>
+          );
+        })}
+        <input
+          type="text"
+          value={patterns[currentPattern].name}
+          onChange={(e) => onRenamePattern(e.target.value)}
+          placeholder={`Name pattern ${PATTERN_LETTERS[currentPattern]}`}
+          style={{ padding: "5px", fontSize: "12px", width: "140px" }}
+        />
+      </div>
+
+      {/* Song Arrangement */}
+      <div
+        style={{
+          display: "flex",
+          gap: "6px",
+          alignItems: "center",
+          flexWrap: "wrap",
+        }}
+      >
+        <strong style={{ fontSize: "12px", minWidth: "70px" }}>Song</strong>
+        {song.map((entry, index) => (
+          <div
+            key={index}
+            style={{
+              display: "flex",
+              gap: "2px",
+              alignItems: "center",
+              padding: "3px",
+              border:
+                isPlaying && playMode === "song" && songEntry === index
+                  ? "2px solid #673AB7"
+                  : "1px solid #ccc",
+              borderRadius: "4px",
+              backgroundColor: "white",
+            }}
+          >
+            <select
+              value={entry.pattern}
+              onChange={(e) =>
+                updateEntry(index, { pattern: Number(e.target.value) })
+              }
+              style={{ fontSize: "11px" }}
+            >
+              {PATTERN_LETTERS.map((letter, i) => (
+                <option key={letter} value={i}>
+                  {letter}
+                </option>
+              ))}
+            </select>
+            <span style={{ fontSize: "11px" }}>×</span>
+            <input
+              type="number"
+              value={entry.repeats}
+              onChange={(e) =>
+                updateEntry(index, {
+                  repeats: Math.max(
+                    1,
+                    Math.min(MAX_SONG_REPEATS, Number(e.target.value) || 1),
+                  ),
+                })
+              }
+              min="1"
+              max={MAX_SONG_REPEATS}
+              style={{ width: "36px", fontSize: "11px" }}
+            />
+            <button
+              onClick={() => onSongChange(song.filter((_, i) => i !== index))}
+              style={{
+                padding: "0 4px",
+                fontSize: "10px",
+                cursor: "pointer",
+                border: "none",
+                background: "none",
+              }}
+              title="Remove from song"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() =>
+            onSongChange([...song, { pattern: currentPattern, repeats: 1 }])
+          }
+          style={{
+            padding: "4px 10px",
+            fontSize: "12px",
+            cursor: "pointer",
+            backgroundColor: "#2196F3",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+        >
+          + {PATTERN_LETTERS[currentPattern]}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ArrangementPanel;
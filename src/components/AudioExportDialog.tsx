@@ -0,0 +1,237 @@
+import { useState } from "react";
+import type { TrackSettings } from "../audio/DualOscVoice";
+import { RENDER_SAMPLE_RATES, renderAudio } from "../audio/offlineRender";
+import { WAV_BIT_DEPTHS, encodeWav, type WavBitDepth } from "../audio/wav";
+import { getSectionBars, type Section } from "../sequencer/arrangement";
+import type { GrooveSettings } from "../sequencer/groove";
+
+interface AudioExportDialogProps {
+  sections: Section[];
+  fileName: string; // Without extension
+  bpm: number;
+  groove: GrooveSettings;
+  trackSettings: TrackSettings[];
+  trackVolumes: number[];
+  trackMutes: boolean[];
+  onClose: () => void;
+}
+
+const BIT_DEPTH_LABELS: Record<WavBitDepth, string> = {
+  16: "16 bit",
+  24: "24 bit",
+  32: "32 bit float",
+};
+
+function downloadWav(data: ArrayBuffer, fileName: string) {
+  const blob = new Blob([data], { type: "audio/wav" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function AudioExportDialog({
+  sections,
+  fileName,
+  bpm,
+  groove,
+  trackSettings,
+  trackVolumes,
+  trackMutes,
+  onClose,
+}: AudioExportDialogProps) {
+  const [bars, setBars] = useState<number>(() =>
+    Math.max(1, Math.ceil(getSectionBars(sections) - 1e-9)),
+  );
+  const [sampleRate, setSampleRate] = useState<number>(44100);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(24);
+  const [stems, setStems] = useState<boolean>(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState<boolean>(false);
+
+  // Renders run one after another: Tone.Offline swaps the global context
+  const handleRender = async () => {
+    setIsRendering(true);
+    try {
+      const render = async (solo: number | null, name: string) => {
+        const channels = await renderAudio({
+          sections,
+          bars,
+          bpm,
+          groove,
+          trackSettings,
+          trackVolumes,
+          trackMutes,
+          solo,
+          sampleRate,
+        });
+        downloadWav(encodeWav(channels, sampleRate, bitDepth), name);
+      };
+
+      setStatus("Rendering mix…");
+      await render(null, `${fileName}.wav`);
+
+      if (stems) {
+        for (let i = 0; i < trackSettings.length; i++) {
+          setStatus(`Rendering stem ${i + 1} of ${trackSettings.length}…`);
+          await render(i, `${fileName}-track-${i + 1}.wav`);
+        }
+      }
+      setStatus(
+        stems
+          ? `Exported the mix and ${trackSettings.length} stems`
+          : "Exported the mix",
+      );
+    } catch (e) {
+      console.error("Failed to render audio:", e);
+      setStatus(`Rendering failed: ${(e as Error).message}`);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const labelStyle = {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "4px",
+    fontSize: "12px",
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={() => !isRendering && onClose()}
+    >
+      <div
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "20px",
+          maxWidth: "500px",
+          width: "95%",
+          boxShadow: "0 4px 20px rgba(0, 0, 0, 0.3)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>🎧 Export Audio</h2>
+
+        <div
+          style={{
+            display: "flex",
+            gap: "15px",
+            flexWrap: "wrap",
+            alignItems: "flex-end",
+            marginBottom: "15px",
+          }}
+        >
+          <label style={labelStyle}>
+            Bars
+            <input
+              type="number"
+              value={bars}
+              onChange={(e) =>
+                setBars(Math.max(1, Number(e.target.value) || 1))
+              }
+              min="1"
+              style={{ width: "60px" }}
+            />
+          </label>
+
+          <label style={labelStyle}>
+            Sample rate
+            <select
+              value={sampleRate}
+              onChange={(e) => setSampleRate(Number(e.target.value))}
+            >
+              {RENDER_SAMPLE_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {(rate / 1000).toFixed(1)} kHz
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label style={labelStyle}>
+            Bit depth
+            <select
+              value={bitDepth}
+              onChange={(e) =>
+                setBitDepth(Number(e.target.value) as WavBitDepth)
+              }
+            >
+              {WAV_BIT_DEPTHS.map((depth) => (
+                <option key={depth} value={depth}>
+                  {BIT_DEPTH_LABELS[depth]}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label style={{ fontSize: "12px" }}>
+            <input
+              type="checkbox"
+              checked={stems}
+              onChange={(e) => setStems(e.target.checked)}
+            />{" "}
+            One stem per track
+          </label>
+        </div>
+
+        <p style={{ fontSize: "12px", color: "#666" }}>
+          Renders {bars} bar{bars === 1 ? "" : "s"} at {bpm} BPM, looping the
+          arrangement if needed, plus the effect tails. The mix leaves out muted
+          tracks; stems include every track.
+        </p>
+
+        <div style={{ display: "flex", gap: "10px", alignItems: "center" }}>
+          <button
+            onClick={handleRender}
+            disabled={isRendering}
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              cursor: isRendering ? "not-allowed" : "pointer",
+              backgroundColor: "#607D8B",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+            }}
+          >
+            🎧 Render
+          </button>
+          <button
+            onClick={onClose}
+            disabled={isRendering}
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              cursor: isRendering ? "not-allowed" : "pointer",
+              backgroundColor: "#4CAF50",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+            }}
+          >
+            ✓ Done
+          </button>
+          {status && <span style={{ fontSize: "12px" }}>{status}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AudioExportDialog;
@@ -0,0 +1,267 @@
+import { useRef, useState } from "react";
+import {
+  erasePoints,
+  smoothLane,
+  writePoint,
+  type AutomationLane,
+} from "../sequencer/automation";
+
+interface AutomationPanelProps {
+  lanes: AutomationLane[]; // Of the pattern shown in the grid
+  length: number; // Steps in the pattern
+  playhead: number | null; // Step playing in this pattern, if any
+  armed: boolean;
+  recording: boolean; // Armed and playing
+  onArm: (armed: boolean) => void;
+  onChange: (lanes: AutomationLane[]) => void;
+}
+
+type Tool = "draw" | "erase";
+
+// Size of the lane editor
+const STEP_WIDTH = 24;
+const LANE_HEIGHT = 120;
+
+function AutomationPanel({
+  lanes,
+  length,
+  playhead,
+  armed,
+  recording,
+  onArm,
+  onChange,
+}: AutomationPanelProps) {
+  const [selected, setSelected] = useState(0);
+  const [tool, setTool] = useState<Tool>("draw");
+  // Where the pointer was last while drawing or erasing, in steps
+  const lastTimeRef = useRef<number | null>(null);
+
+  const laneIndex = Math.min(selected, lanes.length - 1);
+  const lane = lanes[laneIndex] as AutomationLane | undefined;
+  const width = length * STEP_WIDTH;
+
+  const rowStyle = {
+    display: "flex",
+    gap: "10px",
+    alignItems: "center",
+    flexWrap: "wrap" as const,
+  };
+  const buttonStyle = (active: boolean) => ({
+    padding: "4px 10px",
+    fontSize: "12px",
+    cursor: "pointer",
+    backgroundColor: active ? "#009688" : "#eeeeee",
+    color: active ? "white" : "black",
+    border: "1px solid #ccc",
+    borderRadius: "4px",
+  });
+
+  const updateLane = (updated: AutomationLane) => {
+    onChange(lanes.map((l, i) => (i === laneIndex ? updated : l)));
+  };
+
+  const toY = (value: number) =>
+    lane && lane.max !== lane.min
+      ? ((lane.max - value) / (lane.max - lane.min)) * LANE_HEIGHT
+      : LANE_HEIGHT / 2;
+
+  // Edit at the pointer: draw a breakpoint there, or erase the ones passed
+  const editAt = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!lane) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = Math.max(0, Math.min(width, e.clientX - rect.left));
+    const y = Math.max(0, Math.min(LANE_HEIGHT, e.clientY - rect.top));
+    const time = Number((x / STEP_WIDTH).toFixed(3));
+    const last = lastTimeRef.current ?? undefined;
+    lastTimeRef.current = time;
+
+    if (tool === "erase") {
+      const radius = 0.25;
+      updateLane(
+        erasePoints(
+          lane,
+          Math.min(last ?? time, time) - radius,
+          Math.max(last ?? time, time) + radius,
+        ),
+      );
+      return;
+    }
+    const value = lane.max - (y / LANE_HEIGHT) * (lane.max - lane.min);
+    updateLane(
+      writePoint(lane, { time, value: Number(value.toFixed(4)) }, last),
+    );
+  };
+
+  const polyline = lane
+    ? lane.points.length > 0
+      ? [
+          `0,${toY(lane.points[0].value)}`,
+          ...lane.points.map((p) => `${p.time * STEP_WIDTH},${toY(p.value)}`),
+          `${width},${toY(lane.points[lane.points.length - 1].value)}`,
+        ].join(" ")
+      : ""
+    : "";
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "10px 15px",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        backgroundColor: "#fafafa",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        fontSize: "12px",
+      }}
+    >
+      <div style={rowStyle}>
+        <button
+          onClick={() => onArm(!armed)}
+          style={{
+            ...buttonStyle(false),
+            backgroundColor: armed ? "#f44336" : "#eeeeee",
+            color: armed ? "white" : "black",
+          }}
+          title="While armed and playing, moving a track's sliders or mapped MIDI controls records them into the playing pattern"
+        >
+          ⏺ {recording ? "Recording" : armed ? "Armed" : "Record"}
+        </button>
+        <span style={{ color: "#666" }}>
+          {armed
+            ? "Play, then move a track's knobs to record them"
+            : "Arm, play and move knobs to record automation"}
+        </span>
+      </div>
+
+      {lanes.length === 0 ? (
+        <span style={{ color: "#666" }}>
+          No automation in this pattern yet.
+        </span>
+      ) : (
+        <>
+          <div style={rowStyle}>
+            <select
+              value={laneIndex}
+              onChange={(e) => setSelected(Number(e.target.value))}
+              style={{ padding: "4px", fontSize: "12px" }}
+            >
+              {lanes.map((l, i) => (
+                <option key={i} value={i}>
+                  Track {l.track + 1} · {l.param} ({l.points.length} points)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setTool("draw")}
+              style={buttonStyle(tool === "draw")}
+            >
+              ✏️ Draw
+            </button>
+            <button
+              onClick={() => setTool("erase")}
+              style={buttonStyle(tool === "erase")}
+            >
+              🧽 Erase
+            </button>
+            <button
+              onClick={() => lane && updateLane(smoothLane(lane))}
+              style={buttonStyle(false)}
+              title="Average each breakpoint with its neighbours and drop the ones on a straight line"
+            >
+              〰️ Smooth
+            </button>
+            <button
+              onClick={() => onChange(lanes.filter((_, i) => i !== laneIndex))}
+              style={buttonStyle(false)}
+            >
+              🗑 Delete lane
+            </button>
+          </div>
+
+          {lane && (
+            <div style={{ overflowX: "auto" }}>
+              <div style={{ display: "flex", gap: "6px" }}>
+                <div
+                  style={{
+                    display: "flex",
+                    flexDirection: "column",
+                    justifyContent: "space-between",
+                    height: `${LANE_HEIGHT}px`,
+                    fontSize: "10px",
+                    color: "#666",
+                    textAlign: "right",
+                    minWidth: "40px",
+                  }}
+                >
+                  <span>{lane.max}</span>
+                  <span>{lane.min}</span>
+                </div>
+                <svg
+                  width={width}
+                  height={LANE_HEIGHT}
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    lastTimeRef.current = null;
+                    editAt(e);
+                  }}
+                  onPointerMove={(e) => {
+                    if (lastTimeRef.current !== null) editAt(e);
+                  }}
+                  onPointerUp={() => {
+                    lastTimeRef.current = null;
+                  }}
+                  style={{
+                    flexShrink: 0,
+                    backgroundColor: "white",
+                    border: "1px solid #ddd",
+                    cursor: tool === "draw" ? "crosshair" : "cell",
+                    touchAction: "none",
+                  }}
+                >
+                  {Array.from({ length }, (_, step) => (
+                    <line
+                      key={step}
+                      x1={step * STEP_WIDTH}
+                      x2={step * STEP_WIDTH}
+                      y1={0}
+                      y2={LANE_HEIGHT}
+                      stroke="#eee"
+                    />
+                  ))}
+                  {playhead !== null && (
+                    <rect
+                      x={playhead * STEP_WIDTH}
+                      y={0}
+                      width={STEP_WIDTH}
+                      height={LANE_HEIGHT}
+                      fill="#fff9c4"
+                    />
+                  )}
+                  <polyline
+                    points={polyline}
+                    fill="none"
+                    stroke="#009688"
+                    strokeWidth={2}
+                  />
+                  {lane.points.map((p, i) => (
+                    <circle
+                      key={i}
+                      cx={p.time * STEP_WIDTH}
+                      cy={toY(p.value)}
+                      r={2.5}
+                      fill="#00695c"
+                    />
+                  ))}
+                </svg>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default AutomationPanel;
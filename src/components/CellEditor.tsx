@@ -0,0 +1,448 @@
+import * as Tone from "tone";
+import type {
+  SequenceCell,
+  StepNote,
+  TupletRatio,
+} from "../sequencer/sequence";
+import { isInScale, type ScaleSettings } from "../sequencer/scales";
+import {
+  DEFAULT_TRIG,
+  MAX_CONDITION_LOOPS,
+  MAX_RATCHETS,
+  TRIG_CONDITIONS,
+  type StepTrig,
+  type TrigCondition,
+} from "../sequencer/trigs";
+
+interface CellEditorProps {
+  cell: SequenceCell;
+  scale: ScaleSettings;
+  trackNumber: number;
+  stepNumber: number;
+  onChange: (cell: SequenceCell) => void;
+  onTupletChange: (tuplet: TupletRatio) => void;
+  onGenerate: () => void;
+  onTrigChange: (trig: StepTrig) => void;
+  onClose: () => void;
+}
+
+// Piano roll range (C3 to C6), highest pitch first
+const LOWEST_PITCH = 48;
+const HIGHEST_PITCH = 84;
+const allPitches = Array.from(
+  { length: HIGHEST_PITCH - LOWEST_PITCH + 1 },
+  (_, i) => HIGHEST_PITCH - i,
+);
+
+const isBlackKey = (pitch: number) =>
+  [1, 3, 6, 8, 10].includes(((pitch % 12) + 12) % 12);
+
+function CellEditor({
+  cell,
+  scale,
+  trackNumber,
+  stepNumber,
+  onChange,
+  onTupletChange,
+  onGenerate,
+  onTrigChange,
+  onClose,
+}: CellEditorProps) {
+  const trig = cell.trig ?? DEFAULT_TRIG;
+  const changeTrig = (changes: Partial<StepTrig>) =>
+    onTrigChange({ ...trig, ...changes });
+
+  const ratio = trig.condition?.type === "ratio" ? trig.condition : null;
+
+  const changeConditionType = (type: TrigCondition["type"] | "") => {
+    changeTrig({
+      condition:
+        type === ""
+          ? null
+          : type === "ratio"
+            ? { type, play: 1, of: 2 }
+            : { type },
+    });
+  };
+
+  const updateNote = (index: number, changes: Partial<StepNote>) => {
+    onChange({
+      ...cell,
+      notes: cell.notes.map((note, i) =>
+        i === index ? { ...note, ...changes } : note,
+      ),
+    });
+  };
+
+  // Clicking a note removes it, clicking anywhere else moves the note there
+  const togglePitch = (index: number, pitch: number) => {
+    updateNote(index, {
+      pitch: cell.notes[index].pitch === pitch ? null : pitch,
+    });
+  };
+
+  // Only pitches in the track's scale can be entered (notes already written
+  // outside of it stay visible)
+  const pitches = allPitches.filter(
+    (pitch) =>
+      isInScale(pitch, scale) ||
+      cell.notes.some((note) => note.pitch === pitch),
+  );
+
+  const columnWidth = 60;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "20px",
+          maxWidth: "800px",
+          width: "95%",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          boxShadow: "0 4px 20px rgba(0, 0, 0, 0.3)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginBottom: "15px",
+          }}
+        >
+          <h2 style={{ margin: 0 }}>
+            🎼 Track {trackNumber} · Step {stepNumber}
+          </h2>
+          <div style={{ display: "flex", gap: "10px", alignItems: "center" }}>
+            <select
+              value={cell.tuplet}
+              onChange={(e) => onTupletChange(e.target.value as TupletRatio)}
+              style={{ fontSize: "14px", padding: "6px" }}
+            >
+              <option value="0">-</option>
+              <option value="1">×1</option>
+              <option value="2">×2</option>
+              <option value="3">×3</option>
+              <option value="4">×4</option>
+              <option value="5">×5</option>
+              <option value="6">×6</option>
+              <option value="7">×7</option>
+              <option value="8">×8</option>
+            </select>
+            <button
+              onClick={onGenerate}
+              disabled={cell.notes.length === 0}
+              style={{
+                padding: "8px 16px",
+                fontSize: "14px",
+                cursor: cell.notes.length > 0 ? "pointer" : "not-allowed",
+                backgroundColor: "#FF9800",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+                opacity: cell.notes.length > 0 ? 1 : 0.5,
+              }}
+              title="Replace the notes with a random arpeggio"
+            >
+              🎲 Generate
+            </button>
+            <button
+              onClick={onClose}
+              style={{
+                padding: "8px 16px",
+                fontSize: "14px",
+                cursor: "pointer",
+                backgroundColor: "#4CAF50",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+              }}
+            >
+              ✓ Done
+            </button>
+          </div>
+        </div>
+
+        {cell.notes.length === 0 ? (
+          <p style={{ color: "#666" }}>
+            This step is silent. Choose a subdivision count to add notes.
+          </p>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            {/* Piano roll: one column per subdivision */}
+            <div
+              style={{
+                maxHeight: "360px",
+                overflowY: "auto",
+                border: "1px solid #ddd",
+                borderRadius: "4px",
+              }}
+            >
+              {pitches.map((pitch) => (
+                <div key={pitch} style={{ display: "flex" }}>
+                  <div
+                    style={{
+                      width: "40px",
+                      flexShrink: 0,
+                      fontSize: "10px",
+                      padding: "0 4px",
+                      lineHeight: "14px",
+                      backgroundColor: isBlackKey(pitch) ? "#333" : "#fff",
+                      color: isBlackKey(pitch) ? "#fff" : "#333",
+                      fontWeight:
+                        (pitch - scale.root) % 12 === 0 ? "bold" : "normal",
+                      borderBottom: "1px solid #eee",
+                    }}
+                  >
+                    {Tone.Frequency(pitch, "midi").toNote()}
+                  </div>
+                  {cell.notes.map((note, index) => (
+                    <div
+                      key={index}
+                      onClick={() => togglePitch(index, pitch)}
+                      style={{
+                        width: `${columnWidth}px`,
+                        height: "14px",
+                        flexShrink: 0,
+                        cursor: "pointer",
+                        borderLeft: "1px solid #ddd",
+                        borderBottom: "1px solid #eee",
+                        backgroundColor:
+                          note.pitch === pitch
+                            ? `rgba(103, 58, 183, ${0.3 + (note.velocity / 127) * 0.7})`
+                            : isBlackKey(pitch)
+                              ? "#f0f0f0"
+                              : "#fafafa",
+                      }}
+                    >
+                      {note.pitch === pitch && (
+                        <div
+                          style={{
+                            width: `${note.tie ? 100 : note.gate * 100}%`,
+                            height: "100%",
+                            backgroundColor: "#673AB7",
+                          }}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            {/* Per-note velocity, gate and tie */}
+            <div style={{ display: "flex", marginTop: "10px" }}>
+              <div
+                style={{
+                  width: "40px",
+                  flexShrink: 0,
+                  fontSize: "10px",
+                  lineHeight: "24px",
+                }}
+              >
+                <div>Vel</div>
+                <div>Gate</div>
+                <div>Tie</div>
+              </div>
+              {cell.notes.map((note, index) => (
+                <div
+                  key={index}
+                  style={{
+                    width: `${columnWidth}px`,
+                    flexShrink: 0,
+                    padding: "0 2px",
+                    boxSizing: "border-box",
+                    fontSize: "10px",
+                    textAlign: "center",
+                    opacity: note.pitch === null ? 0.4 : 1,
+                  }}
+                >
+                  <input
+                    type="range"
+                    min="1"
+                    max="127"
+                    value={note.velocity}
+                    onChange={(e) =>
+                      updateNote(index, { velocity: Number(e.target.value) })
+                    }
+                    style={{ width: "100%", height: "24px", margin: 0 }}
+                    title={`Velocity: ${note.velocity}`}
+                  />
+                  <input
+                    type="range"
+                    min="0.05"
+                    max="1"
+                    step="0.05"
+                    value={note.gate}
+                    onChange={(e) =>
+                      updateNote(index, { gate: Number(e.target.value) })
+                    }
+                    style={{ width: "100%", height: "24px", margin: 0 }}
+                    title={`Gate: ${(note.gate * 100).toFixed(0)}%`}
+                  />
+                  <input
+                    type="checkbox"
+                    checked={note.tie}
+                    onChange={(e) =>
+                      updateNote(index, { tie: e.target.checked })
+                    }
+                    style={{ height: "24px", margin: 0 }}
+                    title="Tie into the next subdivision"
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* When and how often the step plays */}
+            <div
+              style={{
+                display: "flex",
+                gap: "15px",
+                alignItems: "center",
+                flexWrap: "wrap",
+                marginTop: "15px",
+                paddingTop: "10px",
+                borderTop: "1px solid #ddd",
+                fontSize: "12px",
+              }}
+            >
+              <label>
+                Probability{" "}
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={trig.probability}
+                  onChange={(e) =>
+                    changeTrig({ probability: Number(e.target.value) })
+                  }
+                  style={{ verticalAlign: "middle", width: "100px" }}
+                />{" "}
+                {trig.probability}%
+              </label>
+              <label>
+                Condition{" "}
+                <select
+                  value={trig.condition?.type ?? ""}
+                  onChange={(e) =>
+                    changeConditionType(
+                      e.target.value as TrigCondition["type"] | "",
+                    )
+                  }
+                  style={{ padding: "4px", fontSize: "12px" }}
+                >
+                  <option value="">Always</option>
+                  {Object.entries(TRIG_CONDITIONS).map(([type, label]) => (
+                    <option key={type} value={type}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {ratio && (
+                <span title="Plays on this loop of every so many loops of the track">
+                  Loop{" "}
+                  <select
+                    value={ratio.play}
+                    onChange={(e) =>
+                      changeTrig({
+                        condition: { ...ratio, play: Number(e.target.value) },
+                      })
+                    }
+                    style={{ padding: "4px", fontSize: "12px" }}
+                  >
+                    {Array.from({ length: ratio.of }, (_, i) => i + 1).map(
+                      (play) => (
+                        <option key={play} value={play}>
+                          {play}
+                        </option>
+                      ),
+                    )}
+                  </select>{" "}
+                  of{" "}
+                  <select
+                    value={ratio.of}
+                    onChange={(e) => {
+                      const of = Number(e.target.value);
+                      changeTrig({
+                        condition: {
+                          ...ratio,
+                          play: Math.min(ratio.play, of),
+                          of,
+                        },
+                      });
+                    }}
+                    style={{ padding: "4px", fontSize: "12px" }}
+                  >
+                    {Array.from(
+                      { length: MAX_CONDITION_LOOPS - 1 },
+                      (_, i) => i + 2,
+                    ).map((of) => (
+                      <option key={of} value={of}>
+                        {of}
+                      </option>
+                    ))}
+                  </select>
+                </span>
+              )}
+              <label>
+                Ratchets{" "}
+                <select
+                  value={trig.ratchets}
+                  onChange={(e) =>
+                    changeTrig({ ratchets: Number(e.target.value) })
+                  }
+                  style={{ padding: "4px", fontSize: "12px" }}
+                >
+                  {Array.from({ length: MAX_RATCHETS }, (_, i) => i + 1).map(
+                    (count) => (
+                      <option key={count} value={count}>
+                        ×{count}
+                      </option>
+                    ),
+                  )}
+                </select>
+              </label>
+              <label style={{ opacity: trig.ratchets > 1 ? 1 : 0.5 }}>
+                Decay{" "}
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={trig.ratchetDecay}
+                  disabled={trig.ratchets === 1}
+                  onChange={(e) =>
+                    changeTrig({ ratchetDecay: Number(e.target.value) })
+                  }
+                  style={{ verticalAlign: "middle", width: "80px" }}
+                  title="Velocity each repeat loses"
+                />{" "}
+                {trig.ratchetDecay}%
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CellEditor;
@@ -1,24 +1,37 @@
 interface GridVisualizerProps {
   currentStep: number;
   isPlaying: boolean;
+  stepCount: number;
+  barSteps?: number; // Steps per bar, to mark the start of each bar
 }
 
-function GridVisualizer({ currentStep, isPlaying }: GridVisualizerProps) {
-  // 3x3 grid positions (clockwise pattern starting top-left)
-  const gridPositions = [
-    [0, 0], // Top-left (step 0)
-    [1, 0], // Top-center (step 1)
-    [2, 0], // Top-right (step 2)
-    [2, 1], // Right-center (step 3)
-    [2, 2], // Bottom-right (step 4)
-    [1, 2], // Bottom-center (step 5)
-    [0, 2], // Bottom-left (step 6)
-    [0, 1], // Left-center (step 7)
-  ];
+// Clockwise positions around the border of a size x size grid,
+// starting top-left
+function getBorderPositions(size: number): number[][] {
+  const positions: number[][] = [];
+  for (let col = 0; col < size; col++) positions.push([col, 0]);
+  for (let row = 1; row < size; row++) positions.push([size - 1, row]);
+  for (let col = size - 2; col >= 0; col--) positions.push([col, size - 1]);
+  for (let row = size - 2; row > 0; row--) positions.push([0, row]);
+  return positions;
+}
+
+function GridVisualizer({
+  currentStep,
+  isPlaying,
+  stepCount,
+  barSteps,
+}: GridVisualizerProps) {
+  // Smallest grid whose border fits every step (3x3 holds 8 steps, 5x5 holds
+  // 16, ...), steps run clockwise around it
+  const size = Math.max(3, Math.ceil(stepCount / 4) + 1);
+  const gridPositions = getBorderPositions(size).slice(0, stepCount);
 
-  const cellSize = 20; // Small cells
+  // Cells shrink as the grid grows so it stays a compact overview
   const gap = 2;
-  const gridSize = cellSize * 3 + gap * 2;
+  const cellSize = Math.max(4, Math.min(20, Math.floor(110 / size) - gap));
+  const gridSize = cellSize * size + gap * (size - 1);
+  const showNumbers = cellSize >= 14;
 
   return (
     <div
@@ -35,10 +48,10 @@ function GridVisualizer({ currentStep, isPlaying }: GridVisualizerProps) {
           backgroundColor: "#fafafa",
         }}
       >
-        {/* Draw 3x3 grid */}
-        {Array.from({ length: 9 }).map((_, i) => {
-          const row = Math.floor(i / 3);
-          const col = i % 3;
+        {/* Draw grid */}
+        {Array.from({ length: size * size }).map((_, i) => {
+          const row = Math.floor(i / size);
+          const col = i % size;
           const x = col * (cellSize + gap);
           const y = row * (cellSize + gap);
 
@@ -48,6 +61,8 @@ function GridVisualizer({ currentStep, isPlaying }: GridVisualizerProps) {
           );
           const isActive = isPlaying && stepIndex === currentStep;
           const hasStep = stepIndex !== -1;
+          const isBarStart =
+            hasStep && barSteps !== undefined && stepIndex % barSteps === 0;
 
           return (
             <g key={i}>
@@ -56,12 +71,20 @@ function GridVisualizer({ currentStep, isPlaying }: GridVisualizerProps) {
                 y={y}
                 width={cellSize}
                 height={cellSize}
-                fill={isActive ? "#ffeb3b" : hasStep ? "#e0e0e0" : "#f5f5f5"}
+                fill={
+                  isActive
+                    ? "#ffeb3b"
+                    : isBarStart
+                      ? "#bdbdbd"
+                      : hasStep
+                        ? "#e0e0e0"
+                        : "#f5f5f5"
+                }
                 stroke={isActive ? "#fbc02d" : "#ccc"}
                 strokeWidth={isActive ? 2 : 1}
                 rx={2}
               />
-              {hasStep && (
+              {hasStep && showNumbers && (
                 <text
                   x={x + cellSize / 2}
                   y={y + cellSize / 2}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import type { Midi } from "@tonejs/midi";
+import {
+  GROOVE_TEMPLATES,
+  MAX_HUMANIZE,
+  MAX_SEED,
+  MAX_SWING,
+  extractGroove,
+  type GrooveSettings,
+  type Humanize,
+} from "../sequencer/groove";
+import type { PatternSettings } from "../sequencer/timing";
+
+interface GroovePanelProps {
+  groove: GrooveSettings;
+  numTracks: number;
+  midi: Midi | null; // Loaded MIDI file, a groove can be taken from it
+  settings: PatternSettings; // Step resolution and meter to extract on
+  onChange: (groove: GrooveSettings) => void;
+}
+
+const HUMANIZE_LABELS: [keyof Omit<Humanize, "seed">, string, string][] = [
+  ["timing", "Timing", "of a step"],
+  ["velocity", "Velocity", ""],
+  ["length", "Length", ""],
+];
+
+function GroovePanel({
+  groove,
+  numTracks,
+  midi,
+  settings,
+  onChange,
+}: GroovePanelProps) {
+  const sources = (midi?.tracks ?? [])
+    .map((track, index) => ({ track, index }))
+    .filter(({ track }) => track.notes.length > 0);
+  const [selectedTrack, setSelectedTrack] = useState<number | null>(null);
+  // The file may be replaced while the panel is open
+  const sourceTrack = sources.some(({ index }) => index === selectedTrack)
+    ? selectedTrack!
+    : (sources[0]?.index ?? 0);
+
+  const rowStyle = {
+    display: "flex",
+    gap: "10px",
+    alignItems: "center",
+    flexWrap: "wrap" as const,
+  };
+  const labelStyle = { fontSize: "12px", minWidth: "70px" };
+
+  const changeTrackSwing = (trackIndex: number, swing: number | null) => {
+    const trackSwing = Array.from(
+      { length: numTracks },
+      (_, i) => groove.trackSwing[i] ?? null,
+    );
+    trackSwing[trackIndex] = swing;
+    onChange({ ...groove, trackSwing });
+  };
+
+  const changeHumanize = (changes: Partial<Humanize>) => {
+    onChange({ ...groove, humanize: { ...groove.humanize, ...changes } });
+  };
+
+  // Built-in templates are picked by name; an extracted one is listed too
+  const templateValue = groove.template?.name ?? "";
+  const custom =
+    groove.template &&
+    !GROOVE_TEMPLATES.some((t) => t.name === groove.template!.name)
+      ? groove.template
+      : null;
+
+  const extract = () => {
+    const track = midi?.tracks[sourceTrack];
+    if (!midi || !track || track.notes.length === 0) return;
+    const fileName = midi.name || "MIDI file";
+    onChange({
+      ...groove,
+      template: extractGroove(
+        `${fileName} (${track.name || `track ${sourceTrack + 1}`})`,
+        track.notes,
+        midi.header.ppq,
+        settings,
+      ),
+    });
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "10px 15px",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        backgroundColor: "#fafafa",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        fontSize: "12px",
+      }}
+    >
+      <div style={rowStyle}>
+        <strong style={labelStyle}>Swing</strong>
+        <input
+          type="range"
+          min="0"
+          max={MAX_SWING}
+          value={groove.swing}
+          onChange={(e) =>
+            onChange({ ...groove, swing: Number(e.target.value) })
+          }
+        />
+        <span>{groove.swing}%</span>
+        <span style={{ color: "#666" }}>
+          Every second step is delayed by this share of a step
+        </span>
+      </div>
+      {Array.from({ length: numTracks }, (_, trackIndex) => {
+        const trackSwing = groove.trackSwing[trackIndex] ?? null;
+        return (
+          <div key={trackIndex} style={rowStyle}>
+            <span style={labelStyle}>Track {trackIndex + 1}</span>
+            <label style={{ whiteSpace: "nowrap" }}>
+              <input
+                type="checkbox"
+                checked={trackSwing === null}
+                onChange={(e) =>
+                  changeTrackSwing(
+                    trackIndex,
+                    e.target.checked ? null : groove.swing,
+                  )
+                }
+              />{" "}
+              Global
+            </label>
+            <input
+              type="range"
+              min="0"
+              max={MAX_SWING}
+              value={trackSwing ?? groove.swing}
+              disabled={trackSwing === null}
+              onChange={(e) =>
+                changeTrackSwing(trackIndex, Number(e.target.value))
+              }
+            />
+            <span style={{ opacity: trackSwing === null ? 0.5 : 1 }}>
+              {trackSwing ?? groove.swing}%
+            </span>
+          </div>
+        );
+      })}
+
+      <div
+        style={{ ...rowStyle, paddingTop: "8px", borderTop: "1px solid #ddd" }}
+      >
+        <strong style={labelStyle}>Template</strong>
+        <select
+          value={templateValue}
+          onChange={(e) =>
+            onChange({
+              ...groove,
+              template:
+                e.target.value === ""
+                  ? null
+                  : e.target.value === custom?.name
+                    ? custom
+                    : (GROOVE_TEMPLATES.find(
+                        (t) => t.name === e.target.value,
+                      ) ?? null),
+            })
+          }
+          style={{ padding: "4px", fontSize: "12px" }}
+        >
+          <option value="">None</option>
+          {GROOVE_TEMPLATES.map((template) => (
+            <option key={template.name} value={template.name}>
+              {template.name}
+            </option>
+          ))}
+          {custom && <option value={custom.name}>{custom.name}</option>}
+        </select>
+        <label>
+          Amount{" "}
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={groove.amount}
+            disabled={groove.template === null}
+            onChange={(e) =>
+              onChange({ ...groove, amount: Number(e.target.value) })
+            }
+            style={{ verticalAlign: "middle" }}
+          />{" "}
+          {groove.amount}%
+        </label>
+        {groove.template && (
+          <span style={{ color: "#666" }}>
+            {groove.template.steps.length} steps
+          </span>
+        )}
+      </div>
+      <div style={rowStyle}>
+        <span style={labelStyle}>From MIDI</span>
+        {sources.length > 0 ? (
+          <>
+            <select
+              value={sourceTrack}
+              onChange={(e) => setSelectedTrack(Number(e.target.value))}
+              style={{ padding: "4px", fontSize: "12px" }}
+            >
+              {sources.map(({ track, index }) => (
+                <option key={index} value={index}>
+                  {track.name || `Track ${index + 1}`} ({track.notes.length}{" "}
+                  notes)
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={extract}
+              style={{ padding: "4px 10px", fontSize: "12px" }}
+              title="Take the timing and dynamics of the track's notes, one bar of steps long"
+            >
+              Extract groove
+            </button>
+          </>
+        ) : (
+          <span style={{ color: "#666" }}>
+            Load a MIDI file to take a groove from one of its tracks
+          </span>
+        )}
+      </div>
+
+      <div
+        style={{ ...rowStyle, paddingTop: "8px", borderTop: "1px solid #ddd" }}
+      >
+        <strong style={labelStyle}>Humanize</strong>
+        {HUMANIZE_LABELS.map(([key, label, unit]) => (
+          <label key={key}>
+            {label}{" "}
+            <input
+              type="range"
+              min="0"
+              max={MAX_HUMANIZE}
+              value={groove.humanize[key]}
+              onChange={(e) =>
+                changeHumanize({ [key]: Number(e.target.value) })
+              }
+              style={{ verticalAlign: "middle", width: "80px" }}
+            />{" "}
+            ±{groove.humanize[key]}%{unit && ` ${unit}`}
+          </label>
+        ))}
+        <label>
+          Seed{" "}
+          <input
+            type="number"
+            min="0"
+            max={MAX_SEED}
+            step="1"
+            value={groove.humanize.seed}
+            onChange={(e) => {
+              const seed = Number(e.target.value);
+              if (Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED) {
+                changeHumanize({ seed });
+              }
+            }}
+            style={{ width: "80px", padding: "2px" }}
+          />
+        </label>
+        <button
+          onClick={() =>
+            changeHumanize({ seed: Math.floor(Math.random() * (MAX_SEED + 1)) })
+          }
+          style={{ padding: "4px 10px", fontSize: "12px" }}
+          title="Other variations; the same seed always plays the same way"
+        >
+          🎲 New seed
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default GroovePanel;
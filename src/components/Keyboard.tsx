@@ -0,0 +1,336 @@
+import { useEffect, useRef, useState } from "react";
+import type { Track } from "../audio/trackChain";
+import type { LiveInput } from "../midi/LiveInput";
+
+interface KeyboardProps {
+  liveInput: LiveInput;
+  track: Track | null; // Track the keys play, read when a key goes down
+  captureKeys?: boolean; // Play from the computer keyboard (one instance at a time)
+}
+
+// Physical keys (KeyboardEvent.code) in semitones above the base octave's C:
+// the bottom letter row and the row above it, with the number row as black
+// keys. Codes keep the piano layout on non-QWERTY keyboards too
+const KEY_CODES: Record<string, number> = {
+  KeyZ: 0,
+  KeyS: 1,
+  KeyX: 2,
+  KeyD: 3,
+  KeyC: 4,
+  KeyV: 5,
+  KeyG: 6,
+  KeyB: 7,
+  KeyH: 8,
+  KeyN: 9,
+  KeyJ: 10,
+  KeyM: 11,
+  Comma: 12,
+  KeyL: 13,
+  Period: 14,
+  Semicolon: 15,
+  Slash: 16,
+  KeyQ: 12,
+  Digit2: 13,
+  KeyW: 14,
+  Digit3: 15,
+  KeyE: 16,
+  KeyR: 17,
+  Digit5: 18,
+  KeyT: 19,
+  Digit6: 20,
+  KeyY: 21,
+  Digit7: 22,
+  KeyU: 23,
+  KeyI: 24,
+  Digit9: 25,
+  KeyO: 26,
+  Digit0: 27,
+  KeyP: 28,
+};
+
+// Octave down/up and velocity down/up
+const OCTAVE_DOWN = "Minus";
+const OCTAVE_UP = "Equal";
+const VELOCITY_DOWN = "BracketLeft";
+const VELOCITY_UP = "BracketRight";
+
+const MIN_OCTAVE = 0;
+const MAX_OCTAVE = 8;
+const VELOCITIES = [20, 40, 60, 80, 100, 127];
+const OCTAVE_COUNTS = [2, 3, 4];
+
+const BLACK_KEYS = [1, 3, 6, 8, 10];
+
+// Notes from this component are released together when it loses the keys
+const SOURCE = "keyboard";
+
+const WHITE_KEY_WIDTH = 28;
+
+// Typing into a form field must not play notes (sliders and checkboxes
+// don't take letters, so keys still play while one has focus)
+const KEYLESS_INPUTS = ["range", "checkbox", "radio", "button", "file"];
+
+function isTextField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) {
+    return !KEYLESS_INPUTS.includes(target.type);
+  }
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLSelectElement ||
+    target instanceof HTMLTextAreaElement
+  );
+}
+
+function Keyboard({ liveInput, track, captureKeys = true }: KeyboardProps) {
+  const [octave, setOctave] = useState<number>(4); // Of the lowest key
+  const [octaves, setOctaves] = useState<number>(2);
+  const [velocityIndex, setVelocityIndex] = useState<number>(4);
+  const [pressed, setPressed] = useState<Set<number>>(new Set());
+
+  // Latest values for the window listeners
+  const stateRef = useRef({ track, octave, velocityIndex });
+  stateRef.current = { track, octave, velocityIndex };
+  // Pitch each held key started, so a later octave shift can't strand it
+  const heldKeysRef = useRef<Map<string, number>>(new Map());
+
+  const noteOn = (input: string, pitch: number) => {
+    const { track, velocityIndex } = stateRef.current;
+    liveInput.noteOn(
+      `${SOURCE}:${input}:${pitch}`,
+      track ? [track] : [],
+      pitch,
+      VELOCITIES[velocityIndex] / 127,
+    );
+    setPressed((prev) => new Set(prev).add(pitch));
+  };
+
+  const noteOff = (input: string, pitch: number) => {
+    liveInput.noteOff(`${SOURCE}:${input}:${pitch}`);
+    setPressed((prev) => {
+      const next = new Set(prev);
+      next.delete(pitch);
+      return next;
+    });
+  };
+  const noteOnRef = useRef(noteOn);
+  noteOnRef.current = noteOn;
+  const noteOffRef = useRef(noteOff);
+  noteOffRef.current = noteOff;
+
+  useEffect(() => {
+    if (!captureKeys) return;
+    const heldKeys = heldKeysRef.current;
+
+    const releaseAll = () => {
+      liveInput.releaseSource(SOURCE);
+      heldKeys.clear();
+      setPressed(new Set());
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTextField(e.target)) return;
+
+      const { octave } = stateRef.current;
+      if (e.code === OCTAVE_DOWN || e.code === OCTAVE_UP) {
+        setOctave(
+          Math.max(
+            MIN_OCTAVE,
+            Math.min(MAX_OCTAVE, octave + (e.code === OCTAVE_UP ? 1 : -1)),
+          ),
+        );
+      } else if (e.code === VELOCITY_DOWN || e.code === VELOCITY_UP) {
+        setVelocityIndex((index) =>
+          Math.max(
+            0,
+            Math.min(
+              VELOCITIES.length - 1,
+              index + (e.code === VELOCITY_UP ? 1 : -1),
+            ),
+          ),
+        );
+      } else if (e.code in KEY_CODES && !heldKeys.has(e.code)) {
+        const pitch = (octave + 1) * 12 + KEY_CODES[e.code];
+        if (pitch > 127) return;
+        heldKeys.set(e.code, pitch);
+        noteOnRef.current("qwerty", pitch);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const pitch = heldKeys.get(e.code);
+      if (pitch === undefined) return;
+      heldKeys.delete(e.code);
+      noteOffRef.current("qwerty", pitch);
+    };
+
+    // Key releases are never delivered to a window without focus
+    const handleVisibility = () => {
+      if (document.hidden) releaseAll();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", releaseAll);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", releaseAll);
+      document.removeEventListener("visibilitychange", handleVisibility);
+      releaseAll();
+    };
+  }, [captureKeys, liveInput]);
+
+  // Mouse and touch notes end with the pointer, wherever it is released
+  const handlePointerDown = (e: React.PointerEvent, pitch: number) => {
+    e.preventDefault();
+    (e.target as HTMLElement).releasePointerCapture(e.pointerId);
+    noteOn("pointer", pitch);
+  };
+
+  const lowest = (octave + 1) * 12;
+  const whiteKeys: number[] = [];
+  const blackKeys: number[] = [];
+  for (let pitch = lowest; pitch <= lowest + octaves * 12; pitch++) {
+    if (pitch > 127) break;
+    (BLACK_KEYS.includes(pitch % 12) ? blackKeys : whiteKeys).push(pitch);
+  }
+  const whiteIndex = (pitch: number) =>
+    whiteKeys.findIndex((white) => white > pitch);
+
+  const keyHandlers = (pitch: number) => ({
+    onPointerDown: (e: React.PointerEvent) => handlePointerDown(e, pitch),
+    onPointerUp: () => noteOff("pointer", pitch),
+    onPointerLeave: (e: React.PointerEvent) => {
+      if (e.buttons > 0) noteOff("pointer", pitch);
+    },
+  });
+
+  const buttonStyle = {
+    padding: "2px 8px",
+    fontSize: "12px",
+    cursor: "pointer",
+  };
+
+  return (
+    <div style={{ userSelect: "none" }}>
+      <div
+        style={{
+          display: "flex",
+          gap: "10px",
+          alignItems: "center",
+          fontSize: "12px",
+          marginBottom: "6px",
+          flexWrap: "wrap",
+        }}
+      >
+        <span>
+          Octave{" "}
+          <button
+            onClick={() => setOctave(Math.max(MIN_OCTAVE, octave - 1))}
+            style={buttonStyle}
+          >
+            −
+          </button>{" "}
+          C{octave}{" "}
+          <button
+            onClick={() => setOctave(Math.min(MAX_OCTAVE, octave + 1))}
+            style={buttonStyle}
+          >
+            +
+          </button>
+        </span>
+        <label>
+          Velocity{" "}
+          <select
+            value={velocityIndex}
+            onChange={(e) => setVelocityIndex(Number(e.target.value))}
+            style={{ fontSize: "12px" }}
+          >
+            {VELOCITIES.map((velocity, i) => (
+              <option key={velocity} value={i}>
+                {velocity}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Octaves{" "}
+          <select
+            value={octaves}
+            onChange={(e) => setOctaves(Number(e.target.value))}
+            style={{ fontSize: "12px" }}
+          >
+            {OCTAVE_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        {captureKeys && (
+          <span style={{ color: "#666" }}>
+            Keys Z–/ and Q–P play, - = shift octave, [ ] change velocity
+          </span>
+        )}
+      </div>
+
+      <div
+        style={{
+          position: "relative",
+          height: "90px",
+          width: `${whiteKeys.length * WHITE_KEY_WIDTH}px`,
+          touchAction: "none",
+        }}
+      >
+        {whiteKeys.map((pitch, i) => (
+          <div
+            key={pitch}
+            {...keyHandlers(pitch)}
+            style={{
+              position: "absolute",
+              left: `${i * WHITE_KEY_WIDTH}px`,
+              width: `${WHITE_KEY_WIDTH - 1}px`,
+              height: "100%",
+              backgroundColor: pressed.has(pitch) ? "#90caf9" : "white",
+              border: "1px solid #999",
+              borderRadius: "0 0 3px 3px",
+              boxSizing: "border-box",
+              display: "flex",
+              alignItems: "flex-end",
+              justifyContent: "center",
+              fontSize: "9px",
+              color: "#999",
+              cursor: "pointer",
+            }}
+          >
+            {pitch % 12 === 0 && `C${Math.floor(pitch / 12) - 1}`}
+          </div>
+        ))}
+        {blackKeys.map((pitch) => (
+          <div
+            key={pitch}
+            {...keyHandlers(pitch)}
+            style={{
+              position: "absolute",
+              left: `${whiteIndex(pitch) * WHITE_KEY_WIDTH - WHITE_KEY_WIDTH * 0.3}px`,
+              width: `${WHITE_KEY_WIDTH * 0.6}px`,
+              height: "58%",
+              backgroundColor: pressed.has(pitch) ? "#1976d2" : "#222",
+              borderRadius: "0 0 3px 3px",
+              zIndex: 1,
+              cursor: "pointer",
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default Keyboard;
@@ -37,7 +37,7 @@ function MidiFileUploader({ onMidiLoaded, onError }: MidiFileUploaderProps) {
         });
       });
 
-      onMidiLoaded({ events, originalMidi: midi });
+      onMidiLoaded({ events, originalMidi: midi, fileName: file.name });
     } catch (error) {
       if (onError) {
         onError(`Failed to parse MIDI file: ${(error as Error).message}`);
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import type { Midi } from "@tonejs/midi";
+import type { SequenceCell } from "../sequencer/sequence";
+import {
+  MAX_SUBDIVISIONS,
+  getMidiBarCount,
+  quantizeMidiNotes,
+  type MidiImportResult,
+} from "../sequencer/midiImport";
+import {
+  MAX_PATTERN_LENGTH,
+  STEP_RESOLUTIONS,
+  getBarQuarters,
+  type PatternSettings,
+} from "../sequencer/timing";
+
+interface MidiImportDialogProps {
+  midi: Midi;
+  numTracks: number;
+  patternLabel: string;
+  settings: PatternSettings; // Of the pattern being imported into
+  velocity: number;
+  onImport: (trackIndex: number, cells: SequenceCell[]) => void;
+  onClose: () => void;
+}
+
+// Note values of a subdivision, in quarter notes
+const NOTE_VALUES: [number, string][] = [
+  [4, "1/1"],
+  [2, "1/2"],
+  [4 / 3, "1/2 T"],
+  [1, "1/4"],
+  [2 / 3, "1/4 T"],
+  [1 / 2, "1/8"],
+  [1 / 3, "1/8 T"],
+  [1 / 4, "1/16"],
+  [1 / 6, "1/16 T"],
+  [1 / 8, "1/32"],
+  [1 / 12, "1/32 T"],
+  [1 / 16, "1/64"],
+];
+
+function getGridLabel(stepQuarters: number, subdivisions: number): string {
+  const quarters = stepQuarters / subdivisions;
+  const value = NOTE_VALUES.find(([q]) => Math.abs(q - quarters) < 1e-6);
+  return `${subdivisions} per step${value ? ` (${value[1]})` : ""}`;
+}
+
+function MidiImportDialog({
+  midi,
+  numTracks,
+  patternLabel,
+  settings,
+  velocity,
+  onImport,
+  onClose,
+}: MidiImportDialogProps) {
+  const sources = midi.tracks
+    .map((track, index) => ({ track, index }))
+    .filter(({ track }) => track.notes.length > 0);
+
+  const [sourceTrack, setSourceTrack] = useState<number>(
+    sources[0]?.index ?? 0,
+  );
+  const [targetTrack, setTargetTrack] = useState<number>(0);
+  const [subdivisions, setSubdivisions] = useState<number>(4);
+  const [startBar, setStartBar] = useState<number>(1);
+  const [endBar, setEndBar] = useState<number>(() => {
+    // As many bars as fit in a pattern
+    const stepQuarters = STEP_RESOLUTIONS[settings.resolution].quarters;
+    const maxBars = Math.max(
+      1,
+      Math.floor(
+        (MAX_PATTERN_LENGTH * stepQuarters) /
+          getBarQuarters(settings.timeSignature),
+      ),
+    );
+    const notes = midi.tracks.flatMap((track) => track.notes);
+    return Math.min(maxBars, getMidiBarCount(notes, midi.header.ppq, settings));
+  });
+  const [result, setResult] = useState<MidiImportResult | null>(null);
+
+  const stepQuarters = STEP_RESOLUTIONS[settings.resolution].quarters;
+
+  const handleImport = () => {
+    const imported = quantizeMidiNotes(midi.tracks[sourceTrack].notes, {
+      ppq: midi.header.ppq,
+      settings,
+      subdivisions,
+      startBar,
+      endBar: Math.max(startBar, endBar),
+      velocity,
+    });
+    onImport(targetTrack, imported.cells);
+    setResult(imported);
+  };
+
+  const labelStyle = {
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: "4px",
+    fontSize: "12px",
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: "rgba(0, 0, 0, 0.5)",
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        zIndex: 1000,
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: "white",
+          borderRadius: "8px",
+          padding: "20px",
+          maxWidth: "700px",
+          width: "95%",
+          maxHeight: "90vh",
+          overflowY: "auto",
+          boxShadow: "0 4px 20px rgba(0, 0, 0, 0.3)",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 style={{ marginTop: 0 }}>
+          ⤵ Import MIDI into Pattern {patternLabel}
+        </h2>
+
+        <div
+          style={{
+            display: "flex",
+            gap: "15px",
+            flexWrap: "wrap",
+            alignItems: "flex-end",
+            marginBottom: "15px",
+          }}
+        >
+          <label style={labelStyle}>
+            From MIDI track
+            <select
+              value={sourceTrack}
+              onChange={(e) => setSourceTrack(Number(e.target.value))}
+            >
+              {sources.map(({ track, index }) => (
+                <option key={index} value={index}>
+                  {index + 1}. {track.name || track.instrument.name} (
+                  {track.notes.length} notes)
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label style={labelStyle}>
+            To track
+            <select
+              value={targetTrack}
+              onChange={(e) => setTargetTrack(Number(e.target.value))}
+            >
+              {Array.from({ length: numTracks }, (_, i) => (
+                <option key={i} value={i}>
+                  Track {i + 1}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label style={labelStyle}>
+            Quantize
+            <select
+              value={subdivisions}
+              onChange={(e) => setSubdivisions(Number(e.target.value))}
+            >
+              {Array.from({ length: MAX_SUBDIVISIONS }, (_, i) => (
+                <option key={i + 1} value={i + 1}>
+                  {getGridLabel(stepQuarters, i + 1)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label style={labelStyle}>
+            Bars
+            <span>
+              <input
+                type="number"
+                value={startBar}
+                onChange={(e) =>
+                  setStartBar(Math.max(1, Number(e.target.value) || 1))
+                }
+                min="1"
+                style={{ width: "50px" }}
+              />{" "}
+              to{" "}
+              <input
+                type="number"
+                value={endBar}
+                onChange={(e) =>
+                  setEndBar(Math.max(1, Number(e.target.value) || 1))
+                }
+                min="1"
+                style={{ width: "50px" }}
+              />
+            </span>
+          </label>
+        </div>
+
+        <p style={{ fontSize: "12px", color: "#666" }}>
+          Replaces every step of the track in this pattern. Bars are counted in
+          the pattern's meter; at most {MAX_PATTERN_LENGTH} steps are imported.
+        </p>
+
+        <div style={{ display: "flex", gap: "10px", marginBottom: "15px" }}>
+          <button
+            onClick={handleImport}
+            disabled={sources.length === 0}
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              cursor: sources.length > 0 ? "pointer" : "not-allowed",
+              backgroundColor: "#FF9800",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+            }}
+          >
+            ⤵ Import
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 16px",
+              fontSize: "14px",
+              cursor: "pointer",
+              backgroundColor: "#4CAF50",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+            }}
+          >
+            ✓ Done
+          </button>
+        </div>
+
+        {/* Quantization Report */}
+        {result && (
+          <div style={{ fontSize: "12px" }}>
+            <strong>
+              Imported {result.imported} notes into {result.cells.length} steps
+              · {result.report.filter((e) => !e.dropped).length} moved ·{" "}
+              {result.report.filter((e) => e.dropped).length} dropped
+            </strong>
+            {result.report.length > 0 && (
+              <div
+                style={{
+                  marginTop: "8px",
+                  maxHeight: "240px",
+                  overflowY: "auto",
+                  border: "1px solid #ddd",
+                  borderRadius: "4px",
+                }}
+              >
+                {result.report.map((entry, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      padding: "3px 8px",
+                      borderBottom: "1px solid #eee",
+                      color: entry.dropped ? "#c62828" : "#333",
+                    }}
+                  >
+                    Bar {entry.bar}, beat {entry.beat.toFixed(2)} · {entry.name}{" "}
+                    · {entry.dropped ? "dropped: " : ""}
+                    {entry.detail}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MidiImportDialog;
@@ -0,0 +1,346 @@
+import { useEffect, useRef, useState } from "react";
+import type { Track } from "../audio/trackChain";
+import type { ClockSync } from "../midi/ClockSync";
+import type { LiveInput } from "../midi/LiveInput";
+import type { MidiLearn } from "../midi/MidiLearn";
+import {
+  describeMidiError,
+  isMidiSupported,
+  requestMidiAccess,
+} from "../midi/midiAccess";
+import {
+  CC_ALL_NOTES_OFF,
+  CC_MOD_WHEEL,
+  CC_SUSTAIN,
+  MAX_BEND_RANGE,
+  MIDI_CHANNELS,
+  parseMidiMessage,
+  parseSyncMessage,
+} from "../midi/midiMessages";
+
+interface MidiDevice {
+  id: string;
+  name: string;
+}
+
+interface MidiInputPanelProps {
+  liveInput: LiveInput;
+  tracks: Track[]; // Read when messages arrive, so track changes apply at once
+  defaultTrack: number; // Index of the track unassigned channels play
+  trackChannels: (number | null)[]; // MIDI channel per track, null = none
+  bendRanges: number[]; // Semitones per track
+  onChannelChange: (trackIndex: number, channel: number | null) => void;
+  onBendRangeChange: (trackIndex: number, range: number) => void;
+  midiLearn: MidiLearn; // Controllers mapped to settings, before any other use
+  clockSync: ClockSync;
+  clockSource: string | null; // Input the transport follows, null = internal
+  onClockSourceChange: (source: string | null) => void;
+}
+
+function MidiInputPanel({
+  liveInput,
+  tracks,
+  defaultTrack,
+  trackChannels,
+  bendRanges,
+  onChannelChange,
+  onBendRangeChange,
+  midiLearn,
+  clockSync,
+  clockSource,
+  onClockSourceChange,
+}: MidiInputPanelProps) {
+  // Without Web MIDI the panel only says why; the rest of the app is unaffected
+  const [status, setStatus] = useState<string>("Requesting MIDI access…");
+  const [devices, setDevices] = useState<MidiDevice[]>([]);
+  const [showRouting, setShowRouting] = useState<boolean>(false);
+
+  // Latest routing for the MIDI message handlers
+  const routingRef = useRef({
+    tracks,
+    defaultTrack,
+    trackChannels,
+    bendRanges,
+    clockSource,
+  });
+  routingRef.current = {
+    tracks,
+    defaultTrack,
+    trackChannels,
+    bendRanges,
+    clockSource,
+  };
+
+  // A new clock source starts from a stopped transport
+  useEffect(() => () => clockSync.reset(), [clockSync, clockSource]);
+
+  useEffect(() => {
+    if (!isMidiSupported()) {
+      setStatus("Web MIDI is not supported in this browser");
+      return;
+    }
+
+    // Tracks listening on a channel, or the default track if none is
+    const getTargets = (channel: number): number[] => {
+      const { trackChannels, defaultTrack } = routingRef.current;
+      const assigned = trackChannels
+        .map((c, i) => (c === channel ? i : -1))
+        .filter((i) => i >= 0);
+      return assigned.length > 0 ? assigned : [defaultTrack];
+    };
+
+    const handleMessage = (
+      deviceId: string,
+      data: Uint8Array | null,
+      timestamp: number,
+    ) => {
+      if (data && deviceId === routingRef.current.clockSource) {
+        const sync = parseSyncMessage(data);
+        if (sync) {
+          clockSync.handleMessage(sync, timestamp);
+          return;
+        }
+      }
+
+      const message = data && parseMidiMessage(data);
+      if (!message) return;
+      const { tracks, bendRanges } = routingRef.current;
+      const targets = getTargets(message.channel).filter((i) => tracks[i]);
+      const key = `${deviceId}:${message.channel}`;
+
+      switch (message.type) {
+        case "noteOn":
+          liveInput.noteOn(
+            `${key}:${message.note}`,
+            targets.map((i) => tracks[i]),
+            message.note,
+            message.velocity / 127,
+          );
+          break;
+        case "noteOff":
+          liveInput.noteOff(`${key}:${message.note}`);
+          break;
+        case "pitchBend":
+          targets.forEach((i) =>
+            liveInput.setPitchBend(tracks[i], message.value, bendRanges[i]),
+          );
+          break;
+        case "controlChange":
+          if (
+            midiLearn.handleControlChange(
+              message.channel,
+              message.controller,
+              message.value,
+            )
+          ) {
+            break;
+          }
+          if (message.controller === CC_SUSTAIN) {
+            targets.forEach((i) =>
+              liveInput.setSustain(tracks[i], message.value >= 64),
+            );
+          } else if (message.controller === CC_MOD_WHEEL) {
+            targets.forEach((i) =>
+              liveInput.setModWheel(tracks[i], message.value / 127),
+            );
+          } else if (message.controller === CC_ALL_NOTES_OFF) {
+            liveInput.releaseSource(deviceId);
+          }
+          break;
+      }
+    };
+
+    let access: MIDIAccess | null = null;
+    let cancelled = false;
+
+    // Listen to every connected input (called again whenever one comes or goes)
+    const connectInputs = () => {
+      if (!access) return;
+      const connected: MidiDevice[] = [];
+      access.inputs.forEach((input) => {
+        if (input.state !== "connected") return;
+        input.onmidimessage = (event) =>
+          handleMessage(input.id, event.data, event.timeStamp);
+        connected.push({ id: input.id, name: input.name ?? "MIDI input" });
+      });
+      setDevices(connected);
+      setStatus(
+        connected.length > 0
+          ? `${connected.length} device${connected.length === 1 ? "" : "s"} connected`
+          : "No MIDI devices connected",
+      );
+    };
+
+    const handleStateChange = (event: Event) => {
+      const port = (event as MIDIConnectionEvent).port;
+      // An unplugged device can't send its note offs any more
+      if (port && port.type === "input" && port.state === "disconnected") {
+        liveInput.releaseSource(port.id);
+        if (port.id === routingRef.current.clockSource) clockSync.reset();
+      }
+      connectInputs();
+    };
+
+    requestMidiAccess()
+      .then((midiAccess) => {
+        if (cancelled) return;
+        access = midiAccess;
+        access.addEventListener("statechange", handleStateChange);
+        connectInputs();
+      })
+      .catch((e) => {
+        console.error("MIDI access failed:", e);
+        if (!cancelled) setStatus(describeMidiError(e));
+      });
+
+    return () => {
+      cancelled = true;
+      if (access) {
+        access.removeEventListener("statechange", handleStateChange);
+        access.inputs.forEach((input) => {
+          input.onmidimessage = null;
+        });
+      }
+      liveInput.releaseAll();
+    };
+  }, [liveInput, midiLearn, clockSync]);
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "10px 15px",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        backgroundColor: "#fafafa",
+      }}
+    >
+      <div style={{ display: "flex", gap: "10px", alignItems: "center" }}>
+        <strong>🎛 MIDI Input</strong>
+        <span style={{ fontSize: "12px", color: "#666" }}>
+          {status}
+          {devices.length > 0 &&
+            ` · ${devices.map((device) => device.name).join(", ")}`}
+        </span>
+        <button
+          onClick={() => setShowRouting(!showRouting)}
+          style={{
+            marginLeft: "auto",
+            padding: "4px 10px",
+            fontSize: "12px",
+            cursor: "pointer",
+            backgroundColor: showRouting ? "#2196F3" : "#e0e0e0",
+            color: showRouting ? "white" : "black",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Channel and pitch bend range per track"
+        >
+          ⚙ Routing
+        </button>
+      </div>
+
+      {showRouting && (
+        <div style={{ marginTop: "10px", fontSize: "12px" }}>
+          <p style={{ margin: "0 0 8px", color: "#666" }}>
+            Channels no track listens on play the record-armed track, or else
+            the selected one (now Track {defaultTrack + 1}).
+          </p>
+          <div
+            style={{
+              display: "flex",
+              gap: "10px",
+              alignItems: "center",
+              padding: "3px 0 8px",
+              marginBottom: "5px",
+              borderBottom: "1px solid #ddd",
+            }}
+          >
+            <span style={{ minWidth: "70px" }}>Clock sync</span>
+            <select
+              value={clockSource ?? ""}
+              onChange={(e) =>
+                onClockSourceChange(
+                  e.target.value === "" ? null : e.target.value,
+                )
+              }
+              style={{ fontSize: "12px" }}
+            >
+              <option value="">Internal</option>
+              {devices.map((device) => (
+                <option key={device.id} value={device.id}>
+                  {device.name}
+                </option>
+              ))}
+              {clockSource !== null &&
+                !devices.some((device) => device.id === clockSource) && (
+                  <option value={clockSource}>Disconnected device</option>
+                )}
+            </select>
+            <span style={{ color: "#666" }}>
+              Follow the clock, start/stop and song position of a device
+            </span>
+          </div>
+          {trackChannels.map((channel, i) => (
+            <div
+              key={i}
+              style={{
+                display: "flex",
+                gap: "10px",
+                alignItems: "center",
+                padding: "3px 0",
+              }}
+            >
+              <span style={{ minWidth: "70px" }}>Track {i + 1}</span>
+              <label>
+                Channel{" "}
+                <select
+                  value={channel ?? ""}
+                  onChange={(e) =>
+                    onChannelChange(
+                      i,
+                      e.target.value === "" ? null : Number(e.target.value),
+                    )
+                  }
+                  style={{ fontSize: "12px" }}
+                >
+                  <option value="">None</option>
+                  {Array.from({ length: MIDI_CHANNELS }, (_, c) => (
+                    <option key={c} value={c}>
+                      {c + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Pitch bend ±{" "}
+                <input
+                  type="number"
+                  value={bendRanges[i]}
+                  onChange={(e) =>
+                    onBendRangeChange(
+                      i,
+                      Math.max(
+                        0,
+                        Math.min(
+                          MAX_BEND_RANGE,
+                          Math.round(Number(e.target.value) || 0),
+                        ),
+                      ),
+                    )
+                  }
+                  min="0"
+                  max={MAX_BEND_RANGE}
+                  style={{ width: "45px", fontSize: "12px" }}
+                />{" "}
+                semitones
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MidiInputPanel;
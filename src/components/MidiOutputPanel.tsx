@@ -0,0 +1,236 @@
+import { useEffect, useState } from "react";
+import {
+  describeMidiError,
+  isMidiSupported,
+  requestMidiAccess,
+} from "../midi/midiAccess";
+import { MIDI_CHANNELS } from "../midi/midiMessages";
+import type { TrackMidiOutput } from "../midi/midiOutput";
+
+interface MidiDevice {
+  id: string;
+  name: string;
+}
+
+interface MidiOutputPanelProps {
+  trackOutputs: TrackMidiOutput[];
+  clockOutputs: string[]; // Ids of the outputs sent clock and start/stop
+  onTrackOutputChange: (trackIndex: number, output: TrackMidiOutput) => void;
+  onClockOutputsChange: (outputs: string[]) => void;
+}
+
+function MidiOutputPanel({
+  trackOutputs,
+  clockOutputs,
+  onTrackOutputChange,
+  onClockOutputsChange,
+}: MidiOutputPanelProps) {
+  const [status, setStatus] = useState<string>("Requesting MIDI access…");
+  const [devices, setDevices] = useState<MidiDevice[]>([]);
+  const [showRouting, setShowRouting] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!isMidiSupported()) {
+      setStatus("Web MIDI is not supported in this browser");
+      return;
+    }
+
+    let access: MIDIAccess | null = null;
+    let cancelled = false;
+
+    // List the connected outputs (called again whenever one comes or goes)
+    const listOutputs = () => {
+      if (!access) return;
+      const connected: MidiDevice[] = [];
+      access.outputs.forEach((output) => {
+        if (output.state !== "connected") return;
+        connected.push({ id: output.id, name: output.name ?? "MIDI output" });
+      });
+      setDevices(connected);
+      setStatus(
+        connected.length > 0
+          ? `${connected.length} output${connected.length === 1 ? "" : "s"} available`
+          : "No MIDI outputs connected",
+      );
+    };
+
+    requestMidiAccess()
+      .then((midiAccess) => {
+        if (cancelled) return;
+        access = midiAccess;
+        access.addEventListener("statechange", listOutputs);
+        listOutputs();
+      })
+      .catch((e) => {
+        console.error("MIDI access failed:", e);
+        if (!cancelled) setStatus(describeMidiError(e));
+      });
+
+    return () => {
+      cancelled = true;
+      access?.removeEventListener("statechange", listOutputs);
+    };
+  }, []);
+
+  // Outputs a track or the clock is set to but that aren't connected now
+  // keep their setting, and are used again once plugged back in
+  const deviceName = (id: string) =>
+    devices.find((device) => device.id === id)?.name ?? "Disconnected device";
+
+  const toggleClock = (id: string) => {
+    onClockOutputsChange(
+      clockOutputs.includes(id)
+        ? clockOutputs.filter((output) => output !== id)
+        : [...clockOutputs, id],
+    );
+  };
+
+  const clockDevices = [
+    ...devices.map((device) => device.id),
+    ...clockOutputs.filter((id) => !devices.some((device) => device.id === id)),
+  ];
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "10px 15px",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        backgroundColor: "#fafafa",
+      }}
+    >
+      <div style={{ display: "flex", gap: "10px", alignItems: "center" }}>
+        <strong>🔌 MIDI Output</strong>
+        <span style={{ fontSize: "12px", color: "#666" }}>{status}</span>
+        <button
+          onClick={() => setShowRouting(!showRouting)}
+          style={{
+            marginLeft: "auto",
+            padding: "4px 10px",
+            fontSize: "12px",
+            cursor: "pointer",
+            backgroundColor: showRouting ? "#2196F3" : "#e0e0e0",
+            color: showRouting ? "white" : "black",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Output and channel per track, and clock sync"
+        >
+          ⚙ Routing
+        </button>
+      </div>
+
+      {showRouting && (
+        <div style={{ marginTop: "10px", fontSize: "12px" }}>
+          <p style={{ margin: "0 0 8px", color: "#666" }}>
+            Tracks sent to an output play their sequenced notes on it. While the
+            output is disconnected they play the internal synth.
+          </p>
+          {trackOutputs.map((output, i) => (
+            <div
+              key={i}
+              style={{
+                display: "flex",
+                gap: "10px",
+                alignItems: "center",
+                padding: "3px 0",
+              }}
+            >
+              <span style={{ minWidth: "70px" }}>Track {i + 1}</span>
+              <label>
+                Output{" "}
+                <select
+                  value={output.device ?? ""}
+                  onChange={(e) =>
+                    onTrackOutputChange(i, {
+                      ...output,
+                      device: e.target.value === "" ? null : e.target.value,
+                    })
+                  }
+                  style={{ fontSize: "12px" }}
+                >
+                  <option value="">None</option>
+                  {devices.map((device) => (
+                    <option key={device.id} value={device.id}>
+                      {device.name}
+                    </option>
+                  ))}
+                  {output.device !== null &&
+                    !devices.some((device) => device.id === output.device) && (
+                      <option value={output.device}>
+                        {deviceName(output.device)}
+                      </option>
+                    )}
+                </select>
+              </label>
+              <label>
+                Channel{" "}
+                <select
+                  value={output.channel}
+                  onChange={(e) =>
+                    onTrackOutputChange(i, {
+                      ...output,
+                      channel: Number(e.target.value),
+                    })
+                  }
+                  disabled={output.device === null}
+                  style={{ fontSize: "12px" }}
+                >
+                  {Array.from({ length: MIDI_CHANNELS }, (_, c) => (
+                    <option key={c} value={c}>
+                      {c + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={output.internal}
+                  onChange={(e) =>
+                    onTrackOutputChange(i, {
+                      ...output,
+                      internal: e.target.checked,
+                    })
+                  }
+                  disabled={output.device === null}
+                />{" "}
+                Internal synth too
+              </label>
+            </div>
+          ))}
+
+          <div
+            style={{
+              display: "flex",
+              gap: "10px",
+              alignItems: "center",
+              flexWrap: "wrap",
+              marginTop: "8px",
+              paddingTop: "8px",
+              borderTop: "1px solid #ddd",
+            }}
+          >
+            <span style={{ minWidth: "70px" }}>Send clock</span>
+            {clockDevices.length === 0 && (
+              <span style={{ color: "#666" }}>No outputs</span>
+            )}
+            {clockDevices.map((id) => (
+              <label key={id}>
+                <input
+                  type="checkbox"
+                  checked={clockOutputs.includes(id)}
+                  onChange={() => toggleClock(id)}
+                />{" "}
+                {deviceName(id)}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MidiOutputPanel;
@@ -1,117 +1,229 @@
 import { useEffect, useRef, useState } from "react";
 import * as Tone from "tone";
+import type { Midi } from "@tonejs/midi";
 
-interface MidiPlayerProps {
-  midiData: Tone.ToneEvent[] | null;
-  isPlaying: boolean;
-  onPlaybackEnd?: () => void;
-  channel?: number;
-  velocity?: number;
+interface Track {
+  synth: Tone.PolySynth<any> | null;
 }
 
-function MidiPlayer({
-  midiData,
-  isPlaying,
-  onPlaybackEnd,
-  channel = 1,
-  velocity = 80,
-}: MidiPlayerProps) {
-  const synthRef = useRef<Tone.PolySynth | null>(null);
-  const partRef = useRef<Tone.Part | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
+// Route each MIDI track, or each MIDI channel, to one of the synth tracks
+type RouteBy = "track" | "channel";
 
-  // Initialize synthesizer
-  useEffect(() => {
-    if (!synthRef.current) {
-      // Create a PolySynth with triangle oscillators to match the original timbre
-      synthRef.current = new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: "triangle" },
-        envelope: {
-          attack: 0.003,
-          decay: 0.05,
-          sustain: 0.3,
-          release: 0.5,
-        },
-      }).toDestination();
-
-      setIsInitialized(true);
-    }
+interface MidiSource {
+  id: number; // MIDI track index or channel
+  label: string;
+  noteCount: number;
+}
 
-    return () => {
-      if (synthRef.current) {
-        synthRef.current.dispose();
-        synthRef.current = null;
-      }
-    };
-  }, []);
+interface MidiPlayerProps {
+  midi: Midi;
+  fileName: string;
+  tracks: Track[]; // Read when notes play, so track changes apply at once
+  numTracks: number;
+  onClose: () => void;
+}
 
-  // Handle MIDI playback
-  useEffect(() => {
-    if (!isInitialized || !synthRef.current || !midiData) return;
-
-    // Clean up existing part
-    if (partRef.current) {
-      partRef.current.dispose();
-      partRef.current = null;
-    }
-
-    // Create new part from MIDI data
-    partRef.current = new Tone.Part((time, note: any) => {
-      const normalizedVelocity = velocity / 127;
-      if (synthRef.current) {
-        synthRef.current.triggerAttackRelease(
-          note.note,
-          note.duration,
-          time,
-          normalizedVelocity,
-        );
-      }
-    }, midiData);
-
-    partRef.current.loop = false;
+function getSources(midi: Midi, routeBy: RouteBy): MidiSource[] {
+  if (routeBy === "track") {
+    return midi.tracks
+      .map((track, index) => ({
+        id: index,
+        label: `${index + 1}. ${track.name || track.instrument.name} (ch ${track.channel + 1})`,
+        noteCount: track.notes.length,
+      }))
+      .filter((source) => source.noteCount > 0);
+  }
+
+  const counts = new Map<number, number>();
+  midi.tracks.forEach((track) => {
+    counts.set(
+      track.channel,
+      (counts.get(track.channel) ?? 0) + track.notes.length,
+    );
+  });
+  return [...counts.entries()]
+    .filter(([, noteCount]) => noteCount > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([channel, noteCount]) => ({
+      id: channel,
+      label: `Channel ${channel + 1}${channel === 9 ? " (drums)" : ""}`,
+      noteCount,
+    }));
+}
 
-    return () => {
-      if (partRef.current) {
-        partRef.current.dispose();
-        partRef.current = null;
-      }
-    };
-  }, [midiData, isInitialized, velocity]);
+// Synth track a source plays on, by default spreading sources over the tracks
+function getRoute(
+  routes: Record<number, number>,
+  numTracks: number,
+  source: MidiSource,
+  position: number,
+): number {
+  return routes[source.id] ?? position % numTracks;
+}
 
-  // Handle play/stop
-  useEffect(() => {
-    if (!partRef.current) return;
+function MidiPlayer({
+  midi,
+  fileName,
+  tracks,
+  numTracks,
+  onClose,
+}: MidiPlayerProps) {
+  const [routeBy, setRouteBy] = useState<RouteBy>("track");
+  // Synth track index per source, -1 = off. Unset sources use the default
+  const [routes, setRoutes] = useState<Record<number, number>>({});
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
 
-    const handleTransportEnd = () => {
-      if (onPlaybackEnd) {
-        onPlaybackEnd();
-      }
-    };
+  const sources = getSources(midi, routeBy);
 
-    if (isPlaying) {
-      Tone.Transport.start();
-      partRef.current.start(0);
-      Tone.Transport.once("stop", handleTransportEnd);
-    } else {
-      Tone.Transport.stop();
-      partRef.current.stop();
-    }
+  // Schedule the file on the shared transport, so it starts and stops with
+  // the sequencer. Times are converted to transport ticks: the file follows
+  // the sequencer's tempo rather than its own tempo map
+  useEffect(() => {
+    const ticksPerMidiTick = Tone.Transport.PPQ / midi.header.ppq;
+    const targets = new Map(
+      getSources(midi, routeBy).map((source, position) => [
+        source.id,
+        getRoute(routes, numTracks, source, position),
+      ]),
+    );
+
+    const events: [
+      string,
+      { name: string; duration: number; velocity: number; target: number },
+    ][] = [];
+    midi.tracks.forEach((track, index) => {
+      const target = targets.get(routeBy === "track" ? index : track.channel);
+      if (target === undefined || target < 0) return;
+
+      track.notes.forEach((note) => {
+        events.push([
+          `${Math.round(note.ticks * ticksPerMidiTick)}i`,
+          {
+            name: note.name,
+            duration: note.durationTicks * ticksPerMidiTick,
+            velocity: note.velocity,
+            target,
+          },
+        ]);
+      });
+    });
+
+    const part = new Tone.Part((time, note) => {
+      // The target track may have been deleted since the routing was set
+      const synth = tracksRef.current[note.target]?.synth;
+      if (!synth) return;
+      synth.triggerAttackRelease(
+        note.name,
+        Tone.Ticks(note.duration).toSeconds(),
+        time,
+        note.velocity,
+      );
+    }, events);
+    part.loop = false;
+    part.start(0);
 
     return () => {
-      Tone.Transport.off("stop", handleTransportEnd);
+      part.dispose();
     };
-  }, [isPlaying, onPlaybackEnd]);
-
-  // Update synth volume based on channel (simple implementation)
-  useEffect(() => {
-    if (synthRef.current) {
-      // Simple volume adjustment based on channel (can be expanded)
-      const volumeDb = -12 + (channel / 16) * 6; // Range from -12dB to -6dB
-      synthRef.current.volume.value = volumeDb;
-    }
-  }, [channel]);
-
-  return null; // This is a headless component (no UI)
+  }, [midi, routeBy, routes, numTracks]);
+
+  const totalNotes = midi.tracks.reduce(
+    (sum, track) => sum + track.notes.length,
+    0,
+  );
+
+  return (
+    <div
+      style={{
+        marginBottom: "20px",
+        padding: "10px 15px",
+        border: "1px solid #ddd",
+        borderRadius: "4px",
+        backgroundColor: "#fafafa",
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          gap: "10px",
+          alignItems: "center",
+          marginBottom: "10px",
+        }}
+      >
+        <strong>🎼 {fileName}</strong>
+        <span style={{ fontSize: "12px", color: "#666" }}>
+          {totalNotes} notes · {midi.duration.toFixed(1)}s at the file's tempo ·
+          plays with the sequencer
+        </span>
+        <label style={{ fontSize: "12px", marginLeft: "auto" }}>
+          Route by{" "}
+          <select
+            value={routeBy}
+            onChange={(e) => {
+              setRouteBy(e.target.value as RouteBy);
+              setRoutes({});
+            }}
+            style={{ fontSize: "12px" }}
+          >
+            <option value="track">MIDI track</option>
+            <option value="channel">MIDI channel</option>
+          </select>
+        </label>
+        <button
+          onClick={onClose}
+          style={{
+            padding: "4px 10px",
+            fontSize: "12px",
+            cursor: "pointer",
+            backgroundColor: "#f44336",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Unload the MIDI file"
+        >
+          ✕ Remove
+        </button>
+      </div>
+
+      {sources.map((source, position) => (
+        <div
+          key={source.id}
+          style={{
+            display: "flex",
+            gap: "10px",
+            alignItems: "center",
+            fontSize: "12px",
+            padding: "3px 0",
+          }}
+        >
+          <span style={{ minWidth: "260px" }}>{source.label}</span>
+          <span style={{ minWidth: "70px", color: "#666" }}>
+            {source.noteCount} notes
+          </span>
+          →
+          <select
+            value={getRoute(routes, numTracks, source, position)}
+            onChange={(e) =>
+              setRoutes((prev) => ({
+                ...prev,
+                [source.id]: Number(e.target.value),
+              }))
+            }
+            style={{ fontSize: "12px" }}
+          >
+            <option value={-1}>Off</option>
+            {Array.from({ length: numTracks }, (_, i) => (
+              <option key={i} value={i}>
+                Track {i + 1}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
 }
 
 export default MidiPlayer;
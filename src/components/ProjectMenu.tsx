@@ -0,0 +1,106 @@
+import { ChangeEvent, useRef } from "react";
+import {
+  clearStoredProject,
+  parseProject,
+  readStoredProject,
+  serializeProject,
+  writeStoredProject,
+} from "../project/project";
+
+interface ProjectMenuProps {
+  onProjectChange: () => void; // Storage was replaced, reload the app
+  onError: (error: string) => void;
+}
+
+function ProjectMenu({ onProjectChange, onError }: ProjectMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleNew = () => {
+    if (
+      !window.confirm(
+        "Start a new project? The current one is lost unless you export it first.",
+      )
+    ) {
+      return;
+    }
+    clearStoredProject();
+    onProjectChange();
+  };
+
+  const handleExport = () => {
+    try {
+      const project = readStoredProject();
+      const blob = new Blob([serializeProject(project)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "synth-project.json";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      onError(`Failed to export project: ${(error as Error).message}`);
+      console.error("Project export error:", error);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // Reset input so the same file can be imported again
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+
+    try {
+      const project = parseProject(await file.text());
+      if (
+        !window.confirm(
+          `Replace the current project with ${file.name}? The current one is lost unless you export it first.`,
+        )
+      ) {
+        return;
+      }
+      writeStoredProject(project);
+      onProjectChange();
+    } catch (error) {
+      onError(`Failed to import ${file.name}: ${(error as Error).message}`);
+      console.error("Project import error:", error);
+    }
+  };
+
+  const buttonStyle = {
+    padding: "8px 16px",
+    fontSize: "14px",
+    cursor: "pointer",
+    backgroundColor: "#607D8B",
+    color: "white",
+    border: "none",
+    borderRadius: "4px",
+  };
+
+  return (
+    <div style={{ display: "flex", gap: "10px", marginBottom: "20px" }}>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        style={{ display: "none" }}
+      />
+      <button onClick={handleNew} style={buttonStyle}>
+        📄 New Project
+      </button>
+      <button onClick={handleExport} style={buttonStyle}>
+        💾 Export Project
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>
+        📂 Import Project
+      </button>
+    </div>
+  );
+}
+
+export default ProjectMenu;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import {
+  NOTE_NAMES,
+  SCALES,
+  parseIntervals,
+  type ScaleSettings,
+  type ScaleType,
+} from "../sequencer/scales";
+
+interface ScaleSelectorProps {
+  scale: ScaleSettings;
+  onChange: (scale: ScaleSettings) => void;
+  disabled?: boolean;
+}
+
+function ScaleSelector({ scale, onChange, disabled }: ScaleSelectorProps) {
+  // Custom intervals are edited as text and only applied once they parse
+  const [intervalsText, setIntervalsText] = useState(
+    scale.customIntervals.join(" "),
+  );
+
+  useEffect(() => {
+    setIntervalsText(scale.customIntervals.join(" "));
+  }, [scale.customIntervals]);
+
+  const selectStyle = { padding: "4px", fontSize: "12px" };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        gap: "6px",
+        alignItems: "center",
+        flexWrap: "wrap",
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      <select
+        value={scale.root}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...scale, root: Number(e.target.value) })}
+        style={selectStyle}
+        title="Root note"
+      >
+        {NOTE_NAMES.map((name, i) => (
+          <option key={name} value={i}>
+            {name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        value={scale.type}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...scale, type: e.target.value as ScaleType })
+        }
+        style={selectStyle}
+        title="Scale type"
+      >
+        {Object.entries(SCALES).map(([type, { label }]) => (
+          <option key={type} value={type}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      {scale.type === "custom" && (
+        <input
+          type="text"
+          value={intervalsText}
+          disabled={disabled}
+          onChange={(e) => setIntervalsText(e.target.value)}
+          onBlur={() => {
+            const intervals = parseIntervals(intervalsText);
+            if (intervals.length > 0) {
+              onChange({ ...scale, customIntervals: intervals });
+            } else {
+              setIntervalsText(scale.customIntervals.join(" "));
+            }
+          }}
+          placeholder="0 2 4 7 9"
+          style={{ ...selectStyle, width: "110px" }}
+          title="Semitones above the root (0-11)"
+        />
+      )}
+
+      <span style={{ fontSize: "12px" }}>from</span>
+      <select
+        value={scale.octave}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...scale, octave: Number(e.target.value) })}
+        style={selectStyle}
+        title="Lowest octave"
+      >
+        {[1, 2, 3, 4, 5, 6].map((octave) => (
+          <option key={octave} value={octave}>
+            {NOTE_NAMES[scale.root]}
+            {octave}
+          </option>
+        ))}
+      </select>
+      <select
+        value={scale.octaves}
+        disabled={disabled}
+        onChange={(e) =>
+          onChange({ ...scale, octaves: Number(e.target.value) })
+        }
+        style={selectStyle}
+        title="Octave range"
+      >
+        {[1, 2, 3, 4].map((octaves) => (
+          <option key={octaves} value={octaves}>
+            {octaves} oct
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default ScaleSelector;
@@ -1,101 +1,299 @@
 import { useEffect, useRef, useState } from "react";
 import * as Tone from "tone";
 import GridVisualizer from "./GridVisualizer";
+import CellEditor from "./CellEditor";
+import ScaleSelector from "./ScaleSelector";
+import ArrangementPanel from "./ArrangementPanel";
+import MidiImportDialog from "./MidiImportDialog";
+import AudioExportDialog from "./AudioExportDialog";
+import GroovePanel from "./GroovePanel";
+import AutomationPanel from "./AutomationPanel";
+import type { Midi } from "@tonejs/midi";
+import type { TrackModulator } from "../audio/TrackModulator";
+import type { TrackSettings } from "../audio/DualOscVoice";
+import { getClosestPreset } from "../presets/instrumentPresets";
+import { CATEGORY_PROGRAMS, exportMidi } from "../sequencer/midiExport";
+import {
+  findPlacedSection,
+  getPlaybackSections,
+  layoutSections,
+} from "../sequencer/arrangement";
+import type { ClockSync, ClockSyncEvent } from "../midi/ClockSync";
+import type { LiveInput, LiveNoteEvent } from "../midi/LiveInput";
+import type { HeldStep, LockRecorder } from "../sequencer/LockRecorder";
+import type {
+  AutomationMove,
+  AutomationRecorder,
+} from "../sequencer/AutomationRecorder";
+import {
+  MIN_POINT_SPACING,
+  getAutomationTimes,
+  getAutomationValues,
+  recordPoint,
+  remapAutomation,
+  type AutomationLane,
+} from "../sequencer/automation";
+import {
+  createTrigState,
+  describeTrig,
+  playTrigs,
+  type TrigState,
+} from "../sequencer/trigs";
+import { getMidiOutput } from "../midi/midiAccess";
+import {
+  CLOCK_PPQ,
+  clearMidiOutput,
+  sendMidiClock,
+  sendMidiNote,
+  sendMidiStart,
+  sendMidiStop,
+  silenceMidiChannel,
+  type TrackMidiOutput,
+} from "../midi/midiOutput";
+import {
+  COUNT_IN_BARS,
+  getCountInClicks,
+  recordNote,
+  type RecordMode,
+} from "../sequencer/recording";
+import {
+  MAX_GROOVE_LEAD,
+  applyGroove,
+  type GrooveSettings,
+} from "../sequencer/groove";
+import {
+  createEmptyCell,
+  extendSequence,
+  generateArpeggio,
+  getTrackNotes,
+  resizeCell,
+  setCellLocks,
+  setCellTrig,
+  transposeCell,
+  type NoteEvent,
+  type SequenceCell,
+  type SequenceStep,
+  type TupletRatio,
+} from "../sequencer/sequence";
+import {
+  MAX_PATTERN_LENGTH,
+  STEP_RESOLUTIONS,
+  getBarQuarters,
+  getMaxLength,
+  getMetronomeClicks,
+  getStepsPerBar,
+  getTrackLength,
+  type PatternSettings,
+  type StepResolution,
+} from "../sequencer/timing";
+import {
+  getScaleName,
+  getScalePitches,
+  type ScaleSettings,
+} from "../sequencer/scales";
+import {
+  PATTERN_LETTERS,
+  type Pattern,
+  type PlayMode,
+  type SongEntry,
+} from "../sequencer/patterns";
+import {
+  applyTrackOperation,
+  fitToTrackCount,
+  type TrackOperation,
+} from "../sequencer/trackOperations";
+import type { SequencerProject } from "../project/project";
 
 interface Track {
   synth: Tone.PolySynth<any> | null;
   reverb: Tone.JCReverb | null;
-  lfo: Tone.LFO | null;
   delay: Tone.FeedbackDelay | null;
   filter: Tone.Filter | null;
   distortion: Tone.Distortion | null;
+  modulator: TrackModulator | null;
 }
 
+// Pressing a step's lock button longer than this (ms) holds the step only
+// until it is let go; a click holds it until clicked again
+const MOMENTARY_HOLD = 300;
+
 interface StepSequencerProps {
   tracks: Track[];
   numTracks: number;
+  trackSettings: TrackSettings[];
   trackVolumes: number[];
   trackMutes: boolean[];
   onVolumeChange: (trackIndex: number, volume: number) => void;
   onMuteToggle: (trackIndex: number) => void;
   onTrackSelect?: (track: number) => void;
+  onTrackOperation: (operation: TrackOperation) => void;
+  midi: Midi | null; // Loaded MIDI file, can be imported into patterns
+  liveInput: LiveInput; // Notes played live, recorded into the armed track
+  armedTrack: number | null;
+  onArmTrack: (trackIndex: number | null) => void;
+  trackOutputs: TrackMidiOutput[]; // External gear the tracks play, if any
+  clockOutputs: string[]; // Outputs sent clock and start/stop
+  clockSync: ClockSync;
+  syncToClock: boolean; // The transport follows an external MIDI clock
+  lockRecorder: LockRecorder; // Records knob moves into a held step
+  automationRecorder: AutomationRecorder; // Records knob moves while playing
+  initialProject: SequencerProject; // Read once, when mounted
+  onProjectEdit: (project: SequencerProject) => void; // Its parts changed
 }
 
-type TupletRatio = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8";
-
-type SequenceStep = TupletRatio[];
-
-// MIDI note numbers for a major scale (C4 to C5)
-const majorScaleMidi = [60, 62, 64, 65, 67, 69, 71, 72, 74, 76];
-
 function StepSequencer({
   tracks,
   numTracks,
+  trackSettings,
   trackVolumes,
   trackMutes,
   onVolumeChange,
   onMuteToggle,
   onTrackSelect,
+  onTrackOperation,
+  midi,
+  liveInput,
+  armedTrack,
+  onArmTrack,
+  trackOutputs,
+  clockOutputs,
+  clockSync,
+  syncToClock,
+  lockRecorder,
+  automationRecorder,
+  initialProject,
+  onProjectEdit,
 }: StepSequencerProps) {
-  const [bpm, setBpm] = useState<number>(() => {
-    const saved = localStorage.getItem("synth-bpm");
-    return saved ? Number(saved) : 60;
-  });
-  const [velocity, setVelocity] = useState<number>(() => {
-    const saved = localStorage.getItem("synth-velocity");
-    return saved ? Number(saved) : 80;
-  });
-  const [metronomeEnabled, setMetronomeEnabled] = useState<boolean>(() => {
-    const saved = localStorage.getItem("synth-metronome");
-    return saved ? saved === "true" : true;
-  });
+  const [bpm, setBpm] = useState<number>(initialProject.bpm);
+  // Tempo measured from the external clock, shown in place of `bpm`
+  const [syncedBpm, setSyncedBpm] = useState<number | null>(clockSync.bpm);
+  const [velocity, setVelocity] = useState<number>(initialProject.velocity);
+  const [metronomeEnabled, setMetronomeEnabled] = useState<boolean>(
+    initialProject.metronome,
+  );
+  // Global key/scale, optionally overridden per track (null = follow global)
+  const [globalScale, setGlobalScale] = useState<ScaleSettings>(
+    initialProject.scale,
+  );
+  const [trackScales, setTrackScales] = useState<(ScaleSettings | null)[]>(
+    initialProject.trackScales,
+  );
+  // Swing, groove template and humanize applied to everything played
+  const [groove, setGroove] = useState<GrooveSettings>(initialProject.groove);
+  const [transposeOnChange, setTransposeOnChange] = useState<boolean>(true);
+  const [showScales, setShowScales] = useState<boolean>(false);
+  const [showGroove, setShowGroove] = useState<boolean>(false);
+  const [showAutomation, setShowAutomation] = useState<boolean>(false);
+  const [automationArmed, setAutomationArmed] = useState<boolean>(
+    automationRecorder.armed,
+  );
+  const [showMidiImport, setShowMidiImport] = useState<boolean>(false);
+  const [showAudioExport, setShowAudioExport] = useState<boolean>(false);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  // Recording into the armed track
+  const [recordMode, setRecordMode] = useState<RecordMode>("step");
+  const [recordCursor, setRecordCursor] = useState<number>(0); // Next step
+  const [countInBars, setCountInBars] = useState<number>(1);
+  const [metronomeOnlyPreRoll, setMetronomeOnlyPreRoll] =
+    useState<boolean>(true);
+  const [isCountingIn, setIsCountingIn] = useState<boolean>(false);
   const [currentStep, setCurrentStep] = useState<number>(0);
-  const [sequence, setSequence] = useState<SequenceStep[]>(() => {
-    // Try to load from localStorage first
-    const saved = localStorage.getItem("synth-sequence");
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        console.error("Failed to parse saved sequence:", e);
-      }
-    }
-
-    // Default initialization: 8 steps, dynamic number of tracks per step
-    const tupletOptions: TupletRatio[] = ["2", "3", "4", "5"];
-
-    // Initialize with sparse pattern - mainly track 0 with a few notes
-    return Array(8)
-      .fill(null)
-      .map((_, stepIndex) => {
-        const step: TupletRatio[] = Array(numTracks).fill("0"); // All tracks start silent
 
-        // Fill track 0 with some tuplets (about 4-5 out of 8 steps)
-        if (
-          stepIndex === 0 ||
-          stepIndex === 2 ||
-          stepIndex === 4 ||
-          stepIndex === 6
-        ) {
-          step[0] =
-            tupletOptions[Math.floor(Math.random() * tupletOptions.length)];
-        }
-
-        // Add occasional notes in other tracks (1-2 notes total)
-        if (stepIndex === 3 && numTracks > 1) {
-          step[1] =
-            tupletOptions[Math.floor(Math.random() * tupletOptions.length)];
-        }
+  // Pattern bank A-P. Each pattern has its own sequence, length, meter and
+  // step resolution (per-track lengths included). Sequences hold a step for
+  // every step of their longest track
+  const [patterns, setPatterns] = useState<Pattern[]>(() =>
+    initialProject.patterns.map((pattern) => ({
+      ...pattern,
+      sequence: extendSequence(
+        pattern.sequence,
+        getMaxLength(pattern.settings),
+        numTracks,
+      ),
+    })),
+  );
+  const [currentPattern, setCurrentPattern] = useState<number>(
+    initialProject.currentPattern,
+  );
+  // Pattern to switch to at the next bar while playing in pattern mode
+  const [queuedPattern, setQueuedPattern] = useState<number | null>(null);
+
+  // Song arrangement: patterns chained with repeat counts
+  const [song, setSong] = useState<SongEntry[]>(initialProject.song);
+  const [playMode, setPlayMode] = useState<PlayMode>(initialProject.playMode);
+  const [songEntry, setSongEntry] = useState<number | null>(null);
+
+  // The current pattern is the one shown in the grid and edited
+  const sequence = patterns[currentPattern].sequence;
+  const patternSettings = patterns[currentPattern].settings;
+
+  const updateCurrentPattern = (update: (pattern: Pattern) => Pattern) => {
+    setPatterns((prev) =>
+      prev.map((pattern, i) =>
+        i === currentPattern ? update(pattern) : pattern,
+      ),
+    );
+  };
 
-        return step;
-      });
-  });
+  const setSequence = (update: (prev: SequenceStep[]) => SequenceStep[]) => {
+    updateCurrentPattern((pattern) => ({
+      ...pattern,
+      sequence: update(pattern.sequence),
+    }));
+  };
 
-  const sequenceRef = useRef<SequenceStep[]>(sequence);
-  const partsRef = useRef<Tone.Part[]>([]);
+  const [editingCell, setEditingCell] = useState<{
+    step: number;
+    track: number;
+  } | null>(null);
+
+  // The step recording parameter locks, if any
+  const [heldStep, setHeldStep] = useState<HeldStep | null>(lockRecorder.held);
+
+  // Playback state read from inside transport callbacks
+  const patternsRef = useRef<Pattern[]>(patterns);
+  const playModeRef = useRef<PlayMode>(playMode);
+  const songRef = useRef<SongEntry[]>(song);
+  const queuedPatternRef = useRef<number | null>(null);
+  const songPositionRef = useRef<number>(0); // Entry index in the song
+  const playingPatternRef = useRef<number>(currentPattern);
+  const patternStartRef = useRef<number>(0); // Transport ticks
+  const stepEventRef = useRef<number | null>(null); // Transport event id
+  const patternNotesRef = useRef(new WeakMap<Pattern, NoteEvent[][]>());
+  const trigStatesRef = useRef<TrigState[]>([]);
+  // Fill is on: "fill only" steps play
+  const [fill, setFill] = useState(false);
+  const fillRef = useRef(fill);
+  fillRef.current = fill;
+  // Automation recorded in the current take: where each lane (by track and
+  // setting) was written last, and the values the knobs were moved to, which
+  // play instead of their lanes
+  const automationTakeRef = useRef(
+    new Map<
+      string,
+      { track: number; param: string; time: number; value: number }
+    >(),
+  );
   const metronomeSynthRef = useRef<Tone.Synth | null>(null);
   const voiceMonitorRef = useRef<number | null>(null);
+  const countInPartRef = useRef<Tone.Part | null>(null);
+  const countInEndRef = useRef<number | null>(null); // Transport event id
+  // MIDI routing read when notes play, and the clock sent since start
+  const trackOutputsRef = useRef<TrackMidiOutput[]>(trackOutputs);
+  trackOutputsRef.current = trackOutputs;
+  const trackMutesRef = useRef<boolean[]>(trackMutes);
+  trackMutesRef.current = trackMutes;
+  const clockEventRef = useRef<number | null>(null); // Transport event id
+  const clockingRef = useRef<string[]>([]); // Output ids
+  // Overdub: transport ticks recording starts at (after the count-in), and
+  // the notes held down so far with where they were written
+  const recordFromRef = useRef<number | null>(null);
+  const recordHeldRef = useRef<
+    Map<
+      string,
+      { step: number; ticks: number; pitch: number; velocity: number }
+    >
+  >(new Map());
 
   // Track arpeggio position and direction for each track (dynamic)
   const arpeggioStateRef = useRef<
@@ -109,44 +307,544 @@ function StepSequencer({
       .map(() => ({ index: 0, direction: 1 })),
   );
 
-  const stepsPerBar = 8; // 8 quarter notes (2 bars of 4/4)
+  // Add, duplicate, delete or reorder a track: rearrange the sequencer's own
+  // per-track data, then let the parent rearrange settings and audio
+  const handleTrackOperation = (operation: TrackOperation) => {
+    // Lanes move with their tracks; a duplicate starts without any
+    const order = applyTrackOperation(
+      Array.from({ length: numTracks }, (_, i) => i),
+      operation,
+      () => -1,
+    );
+    automationTakeRef.current.clear();
+    setPatterns((prev) =>
+      prev.map((pattern) => ({
+        ...pattern,
+        ...(pattern.automation && {
+          automation: remapAutomation(pattern.automation, order),
+        }),
+        sequence: pattern.sequence.map((step) =>
+          applyTrackOperation(
+            step,
+            operation,
+            (source) => source ?? createEmptyCell(),
+          ),
+        ),
+        settings: {
+          ...pattern.settings,
+          trackLengths: applyTrackOperation(
+            fitToTrackCount(
+              pattern.settings.trackLengths,
+              numTracks,
+              () => null,
+            ),
+            operation,
+            (source) => source ?? null,
+          ),
+        },
+      })),
+    );
+    setTrackScales((prev) =>
+      applyTrackOperation(
+        fitToTrackCount(prev, numTracks, () => null),
+        operation,
+        (source) => source ?? null,
+      ),
+    );
+    setGroove((prev) => ({
+      ...prev,
+      trackSwing: applyTrackOperation(
+        fitToTrackCount(prev.trackSwing, numTracks, () => null),
+        operation,
+        (source) => source ?? null,
+      ),
+    }));
+    arpeggioStateRef.current = applyTrackOperation(
+      fitToTrackCount(arpeggioStateRef.current, numTracks, () => ({
+        index: 0,
+        direction: 1,
+      })),
+      operation,
+      (source) => ({ ...(source ?? { index: 0, direction: 1 }) }),
+    );
+    setEditingCell(null);
+
+    onTrackOperation(operation);
+  };
+
+  const patternStep = currentStep % patternSettings.length;
+  const maxLength = getMaxLength(patternSettings);
+  const stepsPerBar = getStepsPerBar(patternSettings);
+
+  // Bar lines only fall on steps when a bar is a whole number of steps
+  const isBarStart = (step: number) =>
+    step > 0 && Number.isInteger(stepsPerBar) && step % stepsPerBar === 0;
+
+  // Report the project's parts kept here, for the app to save
+  useEffect(() => {
+    onProjectEdit({
+      bpm,
+      velocity,
+      metronome: metronomeEnabled,
+      scale: globalScale,
+      trackScales,
+      patterns,
+      currentPattern,
+      song,
+      playMode,
+      groove,
+    });
+  }, [
+    bpm,
+    velocity,
+    metronomeEnabled,
+    globalScale,
+    trackScales,
+    patterns,
+    currentPattern,
+    song,
+    playMode,
+    groove,
+  ]);
+
+  useEffect(() => {
+    songRef.current = song;
+  }, [song]);
+
+  useEffect(() => {
+    playModeRef.current = playMode;
+  }, [playMode]);
+
+  // Apply new pattern settings, adding steps to the sequence if it got longer
+  const changePatternSettings = (changes: Partial<PatternSettings>) => {
+    updateCurrentPattern((pattern) => {
+      const settings = { ...pattern.settings, ...changes };
+      return {
+        ...pattern,
+        settings,
+        sequence: extendSequence(
+          pattern.sequence,
+          getMaxLength(settings),
+          numTracks,
+        ),
+      };
+    });
+  };
+
+  const changeTrackLength = (trackIndex: number, length: number | null) => {
+    const trackLengths = Array.from(
+      { length: numTracks },
+      (_, i) => patternSettings.trackLengths[i] ?? null,
+    );
+    trackLengths[trackIndex] = length;
+    changePatternSettings({ trackLengths });
+  };
+
+  // Replace a track of the current pattern with quantized MIDI notes,
+  // lengthening the pattern if the import is longer
+  const importMidiCells = (trackIndex: number, cells: SequenceCell[]) => {
+    updateCurrentPattern((pattern) => {
+      const settings = {
+        ...pattern.settings,
+        length: Math.max(pattern.settings.length, cells.length),
+      };
+      return {
+        ...pattern,
+        settings,
+        sequence: extendSequence(
+          pattern.sequence,
+          getMaxLength(settings),
+          numTracks,
+        ).map((step, stepIndex) =>
+          step.map((cell, t) =>
+            t === trackIndex ? (cells[stepIndex] ?? createEmptyCell()) : cell,
+          ),
+        ),
+      };
+    });
+  };
+
+  // Exports cover the song in song mode, otherwise the current pattern
+  const exportSections = getPlaybackSections(
+    patterns,
+    currentPattern,
+    playMode,
+    song,
+  );
+  const exportFileName =
+    exportSections.length > 1 || playMode === "song"
+      ? "synth-song"
+      : `synth-pattern-${PATTERN_LETTERS[currentPattern]}`;
+
+  // Download the song or the current pattern as a .mid file
+  const exportMidiFile = () => {
+    // Name and General MIDI program hint from the preset each track is based on
+    const exportTracks = trackSettings.map((settings, i) => {
+      const preset = getClosestPreset(settings);
+      return {
+        name: `Track ${i + 1} (${preset.name})`,
+        program: CATEGORY_PROGRAMS[preset.category] ?? 0,
+      };
+    });
+
+    const blob = new Blob(
+      [exportMidi(exportSections, exportTracks, bpm, groove)],
+      {
+        type: "audio/midi",
+      },
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${exportFileName}.mid`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
-  // Save BPM to localStorage\n  useEffect(() => {\n    localStorage.setItem('synth-bpm', bpm.toString());\n  }, [bpm]);\n\n  // Save sequence to localStorage\n  useEffect(() => {\n    localStorage.setItem('synth-sequence', JSON.stringify(sequence));\n  }, [sequence]);\n\n  // Generate melodic pattern with arpeggiated MIDI notes
-  const getMelodyPattern = (
-    tupletCount: number,
+  const getTrackScale = (trackIndex: number): ScaleSettings =>
+    trackScales[trackIndex] ?? globalScale;
+
+  // Apply new scales, moving existing notes into the new keys if enabled
+  const changeScales = (
+    nextGlobal: ScaleSettings,
+    nextTrackScales: (ScaleSettings | null)[],
+  ) => {
+    if (transposeOnChange) {
+      setPatterns((prev) =>
+        prev.map((pattern) => ({
+          ...pattern,
+          sequence: pattern.sequence.map((stepData) =>
+            stepData.map((cell, trackIndex) => {
+              const from = getTrackScale(trackIndex);
+              const to = nextTrackScales[trackIndex] ?? nextGlobal;
+              return JSON.stringify(from) === JSON.stringify(to)
+                ? cell
+                : transposeCell(cell, from, to);
+            }),
+          ),
+        })),
+      );
+    }
+    setGlobalScale(nextGlobal);
+    setTrackScales(nextTrackScales);
+  };
+
+  const changeTrackScale = (
     trackIndex: number,
-  ): number[] => {
-    const pattern: number[] = [];
-
-    // Get current arpeggio state for this track
-    const state = arpeggioStateRef.current[trackIndex];
-    let currentIndex = state.index;
-    let direction = state.direction;
-
-    for (let i = 0; i < tupletCount; i++) {
-      // 70% chance to continue arpeggio, 30% chance to jump randomly
-      if (Math.random() < 0.7) {
-        // Arpeggio: move 1-3 steps in current direction
-        const step = 1 + Math.floor(Math.random() * 3);
-        currentIndex += step * direction;
-
-        // Wrap around if out of bounds
-        currentIndex =
-          ((currentIndex % majorScaleMidi.length) + majorScaleMidi.length) %
-          majorScaleMidi.length;
-      } else {
-        // Random jump to add variety
-        currentIndex = Math.floor(Math.random() * majorScaleMidi.length);
-      }
+    scale: ScaleSettings | null,
+  ) => {
+    changeScales(
+      globalScale,
+      trackScales.map((s, i) => (i === trackIndex ? scale : s)),
+    );
+  };
+
+  // Replace a single cell without mutating the previous sequence
+  const updateCell = (step: number, trackIndex: number, cell: SequenceCell) => {
+    setSequence((prev) =>
+      prev.map((stepData, i) =>
+        i === step
+          ? stepData.map((c, t) => (t === trackIndex ? cell : c))
+          : stepData,
+      ),
+    );
+  };
 
-      pattern.push(majorScaleMidi[currentIndex]);
+  // Generate arpeggiated pitches, continuing the track's previous arpeggio
+  const generatePitches = (count: number, trackIndex: number): number[] => {
+    const { pitches, state } = generateArpeggio(
+      count,
+      arpeggioStateRef.current[trackIndex] ?? { index: 0, direction: 1 },
+      getScalePitches(getTrackScale(trackIndex)),
+    );
+    arpeggioStateRef.current[trackIndex] = state;
+    return pitches;
+  };
+
+  // Change the subdivision count; new subdivisions get generated notes
+  const changeTuplet = (
+    step: number,
+    trackIndex: number,
+    tuplet: TupletRatio,
+  ) => {
+    const cell = sequence[step][trackIndex];
+    const added = Math.max(0, Number(tuplet) - cell.notes.length);
+    updateCell(
+      step,
+      trackIndex,
+      resizeCell(cell, tuplet, generatePitches(added, trackIndex), velocity),
+    );
+  };
+
+  // Optional "generate" action: overwrite the cell's pitches with an arpeggio
+  const generateCell = (step: number, trackIndex: number) => {
+    const cell = sequence[step][trackIndex];
+    const pitches = generatePitches(cell.notes.length, trackIndex);
+    updateCell(step, trackIndex, {
+      ...cell,
+      notes: cell.notes.map((note, i) => ({ ...note, pitch: pitches[i] })),
+    });
+  };
+
+  // Write notes played live into the armed track. Step recording works
+  // while stopped and fills the step under the cursor; overdub works while
+  // playing (after the count-in) and writes each note on the nearest step
+  const recordLiveNote = (event: LiveNoteEvent) => {
+    if (armedTrack === null) return;
+    const noteVelocity = Math.max(1, Math.round(event.velocity * 127));
+
+    if (recordMode === "step") {
+      if (isPlaying || event.type !== "noteOn") return;
+      const trackLength = getTrackLength(patternSettings, armedTrack);
+      const step = recordCursor % trackLength;
+      setSequence((prev) =>
+        recordNote(
+          prev,
+          armedTrack,
+          trackLength,
+          step,
+          event.pitch,
+          noteVelocity,
+        ),
+      );
+      setRecordCursor((step + 1) % trackLength);
+      return;
     }
 
-    // Update arpeggio state for this track
-    arpeggioStateRef.current[trackIndex] = { index: currentIndex, direction };
+    const recordFrom = recordFromRef.current;
+    if (!isPlaying || recordFrom === null) return;
+    const { settings } = patternsRef.current[playingPatternRef.current];
+    const ticksPerStep =
+      Tone.Transport.PPQ * STEP_RESOLUTIONS[settings.resolution].quarters;
+    const trackLength = getTrackLength(settings, armedTrack);
+    const ticks = Tone.Transport.getTicksAtTime(event.time);
+    const held = recordHeldRef.current;
+
+    if (event.type === "noteOn") {
+      const position = Math.round(
+        (ticks - patternStartRef.current) / ticksPerStep,
+      );
+      if (ticks < recordFrom || position < 0) return;
+      const step = position % trackLength;
+      held.set(event.key, {
+        step,
+        ticks,
+        pitch: event.pitch,
+        velocity: noteVelocity,
+      });
+      setSequence((prev) =>
+        recordNote(
+          prev,
+          armedTrack,
+          trackLength,
+          step,
+          event.pitch,
+          noteVelocity,
+        ),
+      );
+      return;
+    }
 
-    return pattern;
+    // Note off: hold the note as long as it was played, unless something
+    // has replaced it in the meantime
+    const note = held.get(event.key);
+    if (!note) return;
+    held.delete(event.key);
+    setSequence((prev) =>
+      prev[note.step]?.[armedTrack]?.notes[0]?.pitch === note.pitch
+        ? recordNote(
+            prev,
+            armedTrack,
+            trackLength,
+            note.step,
+            note.pitch,
+            note.velocity,
+            (ticks - note.ticks) / ticksPerStep,
+          )
+        : prev,
+    );
   };
+  const isStepCursor = (step: number, trackIndex: number) =>
+    recordMode === "step" &&
+    !isPlaying &&
+    trackIndex === armedTrack &&
+    step === recordCursor % getTrackLength(patternSettings, trackIndex);
+
+  const recordLiveNoteRef = useRef(recordLiveNote);
+  recordLiveNoteRef.current = recordLiveNote;
+
+  useEffect(
+    () => liveInput.subscribe((event) => recordLiveNoteRef.current(event)),
+    [liveInput],
+  );
+
+  // Automated values of a track at a time in its pattern, with the knobs
+  // moved in the current take instead of their lanes
+  const getPlayedAutomation = (
+    lanes: AutomationLane[],
+    trackIndex: number,
+    time: number,
+  ) => {
+    let values = getAutomationValues(lanes, trackIndex, time);
+    automationTakeRef.current.forEach(({ track, param, value }) => {
+      if (track === trackIndex) values = { ...values, [param]: value };
+    });
+    return values;
+  };
+
+  // Write a knob move into the playing pattern at the transport position,
+  // replacing what was recorded over since the knob's previous move
+  const recordAutomation = (move: AutomationMove) => {
+    const playing = playingPatternRef.current;
+    const { settings } = patternsRef.current[playing];
+    const ticksPerStep =
+      Tone.Transport.PPQ * STEP_RESOLUTIONS[settings.resolution].quarters;
+    const steps =
+      (Tone.Transport.getTicksAtTime(Tone.immediate()) -
+        patternStartRef.current) /
+      ticksPerStep;
+    if (steps < 0) return; // Counting in
+    const time = Number((steps % settings.length).toFixed(3));
+
+    const key = `${move.track}:${move.param}`;
+    const take = automationTakeRef.current;
+    const last = take.get(key);
+    if (last && time >= last.time && time - last.time < MIN_POINT_SPACING) {
+      return;
+    }
+    take.set(key, { ...move, time });
+
+    // Heard straight away, not only from the steps scheduled next
+    const lanes = patternsRef.current[playing].automation ?? [];
+    tracks[move.track]?.modulator?.setAutomation(
+      getPlayedAutomation(lanes, move.track, time),
+      Tone.immediate(),
+    );
+
+    setPatterns((prev) =>
+      prev.map((pattern, i) => {
+        if (i !== playing) return pattern;
+        const automation = pattern.automation ?? [];
+        const existing = automation.find(
+          (lane) => lane.track === move.track && lane.param === move.param,
+        );
+        const lane = recordPoint(
+          existing ?? {
+            track: move.track,
+            param: move.param,
+            min: move.min,
+            max: move.max,
+            points: [],
+          },
+          { time, value: move.value },
+          last?.time,
+        );
+        return {
+          ...pattern,
+          automation: existing
+            ? automation.map((l) => (l === existing ? lane : l))
+            : [...automation, lane],
+        };
+      }),
+    );
+  };
+  const recordAutomationRef = useRef(recordAutomation);
+  recordAutomationRef.current = recordAutomation;
+
+  useEffect(
+    () =>
+      automationRecorder.subscribe((event) => {
+        if (event.type === "move") {
+          recordAutomationRef.current(event.move);
+        } else {
+          automationTakeRef.current.clear();
+        }
+      }),
+    [automationRecorder],
+  );
+
+  useEffect(() => {
+    automationRecorder.arm(automationArmed);
+  }, [automationRecorder, automationArmed]);
+
+  useEffect(() => {
+    automationRecorder.setPlaying(isPlaying);
+  }, [automationRecorder, isPlaying]);
+
+  // Locks recorded into the held step are stored in its cell
+  useEffect(
+    () =>
+      lockRecorder.subscribe((event) => {
+        if (event.type === "hold") {
+          setHeldStep(event.held);
+          return;
+        }
+        const { pattern, step, track, locks } = event.held;
+        setHeldStep(event.held);
+        setPatterns((prev) =>
+          prev.map((p, i) =>
+            i === pattern
+              ? {
+                  ...p,
+                  sequence: p.sequence.map((stepData, s) =>
+                    s === step
+                      ? stepData.map((cell, t) =>
+                          t === track ? setCellLocks(cell, locks) : cell,
+                        )
+                      : stepData,
+                  ),
+                }
+              : p,
+          ),
+        );
+      }),
+    [lockRecorder],
+  );
+
+  const isHeld = (step: number, trackIndex: number) =>
+    heldStep !== null &&
+    heldStep.pattern === currentPattern &&
+    heldStep.step === step &&
+    heldStep.track === trackIndex;
+
+  // Hold a step to lock its track's settings on it, and open the track's
+  // settings to turn them. Clicking the held step again lets it go
+  const holdStep = (step: number, trackIndex: number) => {
+    if (isHeld(step, trackIndex)) {
+      lockRecorder.hold(null);
+      return;
+    }
+    const held = {
+      pattern: currentPattern,
+      step,
+      track: trackIndex,
+      locks: sequence[step][trackIndex].locks ?? {},
+    };
+    lockRecorder.hold(held);
+    onTrackSelect?.(trackIndex + 1);
+
+    const pressed = Date.now();
+    window.addEventListener(
+      "pointerup",
+      () => {
+        const current = lockRecorder.held;
+        if (
+          Date.now() - pressed > MOMENTARY_HOLD &&
+          current?.pattern === held.pattern &&
+          current.step === held.step &&
+          current.track === held.track
+        ) {
+          lockRecorder.hold(null);
+        }
+      },
+      { once: true },
+    );
+  };
+
+  // Step recording starts over at the first step of a newly armed track
+  useEffect(() => {
+    setRecordCursor(0);
+  }, [armedTrack, currentPattern]);
 
   // Initialize metronome synth
   useEffect(() => {
@@ -171,106 +869,256 @@ function StepSequencer({
     };
   }, []);
 
-  // Create Tone.js Parts from sequence
-  const createParts = () => {
-    // Clean up existing parts
-    partsRef.current.forEach((part) => part.dispose());
-    partsRef.current = [];
+  // Notes of each track of a pattern, worked out once per edit of it
+  const getPatternNotes = (pattern: Pattern): NoteEvent[][] => {
+    let notes = patternNotesRef.current.get(pattern);
+    if (!notes) {
+      notes = tracks.map((_, trackIndex) =>
+        getTrackNotes(
+          pattern.sequence,
+          trackIndex,
+          getTrackLength(pattern.settings, trackIndex),
+        ),
+      );
+      patternNotesRef.current.set(pattern, notes);
+    }
+    return notes;
+  };
+
+  // Play a note on a track's synth, its MIDI output, or both
+  const playNote = (
+    trackIndex: number,
+    note: NoteEvent,
+    time: number,
+    duration: number,
+  ) => {
+    // External gear, falling back on the synth while unplugged
+    const routing = trackOutputsRef.current[trackIndex];
+    const output = routing?.device ? getMidiOutput(routing.device) : null;
+    if (output && !trackMutesRef.current[trackIndex]) {
+      sendMidiNote(
+        output,
+        routing.channel,
+        note.pitch,
+        note.velocity,
+        time,
+        duration,
+      );
+    }
+    if (output && !routing.internal) return;
+
+    const noteName = Tone.Frequency(note.pitch, "midi").toNote();
+    tracks[trackIndex].synth?.triggerAttackRelease(
+      noteName,
+      duration,
+      time,
+      note.velocity,
+    );
+  };
 
-    // Check if all tracks have synths initialized
-    const allSynthsReady = tracks.every((track) => track.synth !== null);
-    if (!allSynthsReady) return;
-
-    const secondsPerBeat = 60.0 / bpm;
-
-    // Process each step
-    sequenceRef.current.forEach((stepData, stepIndex) => {
-      const stepTime = stepIndex * secondsPerBeat;
-
-      // Add metronome clicks (2 subdivisions per step) - only if enabled
-      if (metronomeEnabled) {
-        const subdivisions = 2;
-        const subdivisionInterval = secondsPerBeat / subdivisions;
-        for (let i = 0; i < subdivisions; i++) {
-          const clickTime = stepTime + i * subdivisionInterval;
-          const isDownbeat = stepIndex % 4 === 0 && i === 0;
-          const clickNote = isDownbeat ? "F6" : "C6"; // Higher pitch for downbeat
-
-          const clickPart = new Tone.Part(
-            (time) => {
-              if (metronomeSynthRef.current) {
-                metronomeSynthRef.current.triggerAttackRelease(
-                  clickNote,
-                  "32n",
-                  time,
-                  0.5,
-                );
-              }
-            },
-            [[clickTime, null]],
-          );
-          clickPart.loop = true;
-          clickPart.loopEnd = stepsPerBar * secondsPerBeat;
-          partsRef.current.push(clickPart);
-        }
-      }
+  // Play one step of the playing pattern and schedule the next. The pattern
+  // is read afresh at every step, so edits are heard from the next step on
+  // without rebuilding anything. The step is counted from the pattern start
+  // so tracks of different lengths can each wrap on it. Steps are handled
+  // ahead of time (at `eventTicks`) so the groove can move notes earlier
+  const playStep = (
+    time: number,
+    eventTicks: number,
+    ticks: number,
+    step: number,
+  ) => {
+    const pattern = patternsRef.current[playingPatternRef.current];
+    const { settings } = pattern;
+    const stepQuarters = STEP_RESOLUTIONS[settings.resolution].quarters;
+    const ticksPerStep = Tone.Transport.PPQ * stepQuarters;
+    const secondsPerTick = Tone.Ticks(ticksPerStep).toSeconds() / ticksPerStep;
+    const toSeconds = (steps: number) => steps * ticksPerStep * secondsPerTick;
+    // Audio time of a position in steps from the start of this step
+    const at = (steps: number) =>
+      Math.max(
+        time,
+        time + (ticks - eventTicks + steps * ticksPerStep) * secondsPerTick,
+      );
+    // Offset into this step of an event at a position in steps, or null if
+    // it falls in another step
+    const offsetInStep = (eventStep: number, position: number) => {
+      const offset = eventStep - position;
+      return offset > -1e-6 && offset < 1 - 1e-6 ? Math.max(0, offset) : null;
+    };
 
-      // Process each track in the step
-      stepData.forEach((tupletRatio, trackIndex) => {
-        const n = Number(tupletRatio);
-        if (n === 0) return; // Skip silent steps
-
-        const noteInterval = secondsPerBeat / n;
-        const melodyPattern = getMelodyPattern(n, trackIndex);
-
-        // Use the corresponding synth for this track
-        const synthForTrack = tracks[trackIndex]?.synth;
-        if (!synthForTrack) return; // Skip if synth not initialized
-        const normalizedVelocity = velocity / 127;
-
-        // Schedule each note in the tuplet
-        melodyPattern.forEach((midiNote, noteIndex) => {
-          const noteTime = stepTime + noteInterval * noteIndex;
-          const baseDuration = 0.12; // 120ms base duration
-          const randomFactor = 0.8 + Math.random() * 0.4;
-          const actualDuration = baseDuration * randomFactor;
-
-          // Create individual parts per track so we can use different synths
-          const notePart = new Tone.Part(
-            (time) => {
-              const noteName = Tone.Frequency(midiNote, "midi").toNote();
-              synthForTrack.triggerAttackRelease(
-                noteName,
-                actualDuration,
-                time,
-                normalizedVelocity,
-              );
-            },
-            [[noteTime, null]],
-          );
-          notePart.loop = true;
-          notePart.loopEnd = stepsPerBar * secondsPerBeat;
-          partsRef.current.push(notePart);
+    // Metronome clicks following the meter
+    const passStep = step % settings.length;
+    if (metronomeEnabled) {
+      getMetronomeClicks(settings).forEach((click) => {
+        const offset = offsetInStep(click.time / stepQuarters, passStep);
+        if (offset === null) return;
+        metronomeSynthRef.current?.triggerAttackRelease(
+          click.accent ? "F6" : "C6", // Higher pitch for downbeat
+          "32n",
+          at(offset),
+          0.5,
+        );
+      });
+    }
+
+    // The notes starting in this step of each track, each looping over its
+    // own length. The groove repeats with every pass through the pattern
+    const patternNotes = getPatternNotes(pattern);
+    const lanes = pattern.automation ?? [];
+    if (step === 0) trigStatesRef.current = tracks.map(createTrigState);
+    tracks.forEach((track, trackIndex) => {
+      const trackLength = getTrackLength(settings, trackIndex);
+      const position = step % trackLength;
+
+      // Feed the "Sequencer Step" modulation source, and play the step with
+      // the pattern's automation and its parameter locks
+      track.modulator?.setStep(position, trackLength, at(0));
+      getAutomationTimes(lanes, trackIndex, passStep, passStep + 1).forEach(
+        (time) =>
+          track.modulator?.setAutomation(
+            getPlayedAutomation(lanes, trackIndex, time),
+            at(time - passStep),
+          ),
+      );
+      track.modulator?.setLocks(
+        pattern.sequence[position]?.[trackIndex]?.locks ?? null,
+        at(0),
+      );
+
+      // Trigs count loops of each track from the start of the pattern
+      const stepNotes = (patternNotes[trackIndex] ?? []).filter(
+        (note) => offsetInStep(note.time, position) !== null,
+      );
+      trigStatesRef.current[trackIndex] ??= createTrigState();
+      playTrigs(
+        stepNotes,
+        pattern.sequence,
+        trackIndex,
+        Math.floor(step / trackLength),
+        trigStatesRef.current[trackIndex],
+        fillRef.current,
+      ).forEach((note) => {
+        const offset = Math.max(0, note.time - position);
+        const passTime = passStep + offset;
+        const grooved = applyGroove(groove, trackIndex, {
+          ...note,
+          time: passTime,
         });
+        playNote(
+          trackIndex,
+          grooved,
+          at(offset + grooved.time - passTime),
+          toSeconds(grooved.duration),
+        );
       });
     });
 
-    // Update visual feedback
-    const visualPart = new Tone.Part(
-      (time, step) => {
-        Tone.Draw.schedule(() => {
-          setCurrentStep(step);
-        }, time);
-      },
-      Array.from({ length: stepsPerBar }, (_, i) => [i * secondsPerBeat, i]),
+    Tone.Draw.schedule(() => {
+      setCurrentStep(step);
+    }, at(0));
+
+    // Switch patterns at the next boundary, decided one step ahead
+    const nextTicks = ticks + ticksPerStep;
+    const next = getNextPattern(step + 1, settings);
+    if (next !== null) {
+      switchPattern(next, nextTicks, at(1));
+      scheduleStep(nextTicks, 0, eventTicks + 1);
+    } else {
+      scheduleStep(nextTicks, step + 1, eventTicks + 1);
+    }
+  };
+  const playStepRef = useRef(playStep);
+  playStepRef.current = playStep;
+
+  // Queue a step on the transport, as far ahead of it as the groove can move
+  // notes but not before `earliest`. Times are in ticks so they stay on the
+  // grid when the tempo changes
+  const scheduleStep = (ticks: number, step: number, earliest: number) => {
+    const { settings } = patternsRef.current[playingPatternRef.current];
+    const lead =
+      MAX_GROOVE_LEAD *
+      Tone.Transport.PPQ *
+      STEP_RESOLUTIONS[settings.resolution].quarters;
+    const eventTicks = Math.max(earliest, Math.round(ticks - lead));
+    stepEventRef.current = Tone.Transport.scheduleOnce(
+      (time) => playStepRef.current(time, eventTicks, ticks, step),
+      `${eventTicks}i`,
     );
+  };
 
-    visualPart.loop = true;
-    visualPart.loopEnd = stepsPerBar * secondsPerBeat;
-    partsRef.current.push(visualPart);
+  // Which pattern should start at a step of the playing pattern, if any
+  const getNextPattern = (
+    step: number,
+    settings: PatternSettings,
+  ): number | null => {
+    const atPatternEnd = step % settings.length === 0;
+
+    if (playModeRef.current === "song") {
+      const songEntries = songRef.current;
+      if (!atPatternEnd || songEntries.length === 0) return null;
+      const entry = songEntries[songPositionRef.current];
+      if (entry && step / settings.length < entry.repeats) return null;
+
+      // Move on to the next entry, looping the song at the end
+      songPositionRef.current =
+        (songPositionRef.current + 1) % songEntries.length;
+      return songEntries[songPositionRef.current].pattern;
+    }
+
+    // Pattern mode: a queued pattern starts at the next bar line
+    const queued = queuedPatternRef.current;
+    if (queued === null) return null;
+    const stepsPerBar = getStepsPerBar(settings);
+    const atBar = Number.isInteger(stepsPerBar) && step % stepsPerBar === 0;
+    return atPatternEnd || atBar ? queued : null;
+  };
+
+  // Make another pattern the playing one from a transport position
+  const switchPattern = (index: number, ticks: number, time: number) => {
+    playingPatternRef.current = index;
+    patternStartRef.current = ticks;
+    queuedPatternRef.current = null;
+
+    const entry = songPositionRef.current;
+    Tone.Draw.schedule(() => {
+      setCurrentPattern(index);
+      setQueuedPattern(null);
+      setSongEntry(entry);
+    }, time);
   };
 
-  const start = async () => {
+  // Select a pattern to edit, or queue it when playing a pattern loop
+  const selectPattern = (index: number) => {
+    if (!isPlaying) {
+      setCurrentPattern(index);
+      setEditingCell(null);
+      return;
+    }
+    if (playMode === "song") return;
+
+    // Selecting the playing pattern again cancels the queue
+    const queued = index === playingPatternRef.current ? null : index;
+    queuedPatternRef.current = queued;
+    setQueuedPattern(queued);
+  };
+
+  const changePlayMode = (mode: PlayMode) => {
+    setPlayMode(mode);
+    playModeRef.current = mode;
+    queuedPatternRef.current = null;
+    setQueuedPattern(null);
+    // Switching to song mode while playing starts the song at the next
+    // pattern end
+    songPositionRef.current = -1;
+  };
+
+  // Recording starts after a count-in of clicks. With a metronome-only
+  // pre-roll the pattern waits for it, otherwise it plays along
+  const startRecording = () => start(countInBars);
+
+  // Following an external clock, playback starts at its song position (in
+  // transport ticks) at the audio time of its first pulse
+  const start = async (countIn = 0, from?: { ticks: number; time: number }) => {
     const allSynthsReady = tracks.every((track) => track.synth !== null);
     if (!allSynthsReady) {
       console.error("[Sequencer] Synths not initialized");
@@ -281,14 +1129,112 @@ function StepSequencer({
     await Tone.start();
 
     // Set BPM
-    Tone.Transport.bpm.value = bpm;
+    Tone.Transport.bpm.value = from ? (clockSync.bpm ?? bpm) : bpm;
+
+    // Song mode starts from the entry playing at the start position, pattern
+    // mode loops the current pattern from its first step
+    const startTicks = from?.ticks ?? 0;
+    let startPattern = currentPattern;
+    let startEntry = 0;
+    let sectionTicks = startTicks; // Into the pattern's first pass
+    if (playMode === "song" && song.length > 0) {
+      const placed = layoutSections(
+        getPlaybackSections(patterns, currentPattern, playMode, song),
+      );
+      const { index, offset } = findPlacedSection(
+        placed,
+        startTicks / Tone.Transport.PPQ,
+      );
+      startPattern = song[index].pattern;
+      startEntry = index;
+      sectionTicks = Math.round(offset * Tone.Transport.PPQ);
+    }
+    songPositionRef.current = startEntry;
+    queuedPatternRef.current = null;
+    playingPatternRef.current = startPattern;
+    patternsRef.current = patterns;
+    setCurrentPattern(startPattern);
+    setQueuedPattern(null);
+    setSongEntry(startEntry);
+
+    const timeSignature = patterns[startPattern].settings.timeSignature;
+    const countInTicks = Math.round(
+      countIn * getBarQuarters(timeSignature) * Tone.Transport.PPQ,
+    );
+    const patternStart = from
+      ? from.ticks - sectionTicks
+      : metronomeOnlyPreRoll
+        ? countInTicks
+        : 0;
+    patternStartRef.current = patternStart;
+    recordFromRef.current = countInTicks;
+    recordHeldRef.current.clear();
+    trigStatesRef.current = tracks.map(createTrigState);
+
+    // Count-in clicks, unless the pattern's own metronome plays them
+    if (countInTicks > 0 && (patternStart > 0 || !metronomeEnabled)) {
+      countInPartRef.current = new Tone.Part(
+        (time, accent) => {
+          metronomeSynthRef.current?.triggerAttackRelease(
+            accent ? "F6" : "C6",
+            "32n",
+            time,
+            0.5,
+          );
+        },
+        getCountInClicks(timeSignature, countIn).map(
+          ({ time, accent }): [string, boolean] => [
+            `${Math.round(time * Tone.Transport.PPQ)}i`,
+            accent,
+          ],
+        ),
+      ).start(0);
+    }
+    if (countInTicks > 0) {
+      setIsCountingIn(true);
+      countInEndRef.current = Tone.Transport.scheduleOnce((time) => {
+        countInEndRef.current = null;
+        Tone.Draw.schedule(() => setIsCountingIn(false), time);
+      }, `${countInTicks}i`);
+    }
 
-    // Create and start parts
-    createParts();
-    partsRef.current.forEach((part) => part.start(0));
+    // Steps follow from the first one at or after the start position
+    const ticksPerStep =
+      Tone.Transport.PPQ *
+      STEP_RESOLUTIONS[patterns[startPattern].settings.resolution].quarters;
+    const firstStep = Math.max(
+      0,
+      Math.ceil((startTicks - patternStart) / ticksPerStep - 1e-6),
+    );
+    scheduleStep(
+      patternStart + firstStep * ticksPerStep,
+      firstStep,
+      startTicks,
+    );
+
+    // External gear follows the transport from its first tick. Clock pulses
+    // are in ticks, so they follow tempo changes too
+    const startTime = from?.time ?? Tone.now();
+    clockingRef.current = clockOutputs;
+    clockOutputs.forEach((id) => {
+      const output = getMidiOutput(id);
+      if (output) sendMidiStart(output, startTime, startTicks);
+    });
+    if (clockOutputs.length > 0) {
+      clockEventRef.current = Tone.Transport.scheduleRepeat(
+        (time) => {
+          clockingRef.current.forEach((id) => {
+            const output = getMidiOutput(id);
+            if (output) sendMidiClock(output, time);
+          });
+        },
+        `${Tone.Transport.PPQ / CLOCK_PPQ}i`,
+        0,
+      );
+    }
 
     // Start transport
-    Tone.Transport.start();
+    Tone.Transport.start(startTime, `${startTicks}i`);
     setIsPlaying(true);
 
     // Monitor voice usage every 5 seconds
@@ -314,22 +1260,27 @@ function StepSequencer({
       voiceMonitorRef.current = null;
     }
 
-    // Stop and dispose parts first (before stopping transport)
-    partsRef.current.forEach((part) => {
-      try {
-        part.stop(0); // Stop immediately at time 0
-      } catch (e) {
-        console.warn("Part stop error (ignored):", e);
-      }
-      part.dispose();
-    });
-    partsRef.current = [];
+    // Clear the next step first (before stopping transport)
+    if (stepEventRef.current !== null) {
+      Tone.Transport.clear(stepEventRef.current);
+      stepEventRef.current = null;
+    }
+    countInPartRef.current?.dispose();
+    countInPartRef.current = null;
+    if (countInEndRef.current !== null) {
+      Tone.Transport.clear(countInEndRef.current);
+      countInEndRef.current = null;
+    }
+    recordFromRef.current = null;
+    recordHeldRef.current.clear();
+    stopMidiOutputs();
 
     // Release all notes on all synths to free up voices
     tracks.forEach((track) => {
       if (track.synth) {
         track.synth.releaseAll();
       }
+      track.modulator?.clearSequenced();
     });
 
     // Then stop transport
@@ -337,40 +1288,70 @@ function StepSequencer({
     Tone.Transport.position = 0;
 
     setIsPlaying(false);
+    setIsCountingIn(false);
     setCurrentStep(0);
+    setQueuedPattern(null);
+    setSongEntry(null);
   };
 
-  // Update BPM when changed
-  useEffect(() => {
-    if (isPlaying) {
-      Tone.Transport.bpm.value = bpm;
+  // Stop the clock and silence the tracks playing external gear
+  const stopMidiOutputs = () => {
+    if (clockEventRef.current !== null) {
+      Tone.Transport.clear(clockEventRef.current);
+      clockEventRef.current = null;
     }
-  }, [bpm, isPlaying]);
 
-  // Recreate parts when sequence changes
-  useEffect(() => {
-    sequenceRef.current = sequence;
-    if (isPlaying) {
-      // Update parts without restarting - just recreate them
-      // Clean up old parts
-      partsRef.current.forEach((part) => {
-        if (part.state === "started") {
-          part.stop(0);
-        }
-        part.dispose();
-      });
-      partsRef.current = [];
+    // Notes and pulses scheduled ahead would still play after the stop
+    const ids = [
+      ...clockingRef.current,
+      ...trackOutputsRef.current.map((routing) => routing.device),
+    ];
+    new Set(ids).forEach((id) => {
+      const output = id && getMidiOutput(id);
+      if (output) clearMidiOutput(output);
+    });
 
-      // Create new parts with updated sequence
-      createParts();
+    trackOutputsRef.current.forEach((routing) => {
+      const output = routing.device && getMidiOutput(routing.device);
+      if (output) silenceMidiChannel(output, routing.channel);
+    });
+    clockingRef.current.forEach((id) => {
+      const output = getMidiOutput(id);
+      if (output) sendMidiStop(output);
+    });
+    clockingRef.current = [];
+  };
+  const stopMidiOutputsRef = useRef(stopMidiOutputs);
+  stopMidiOutputsRef.current = stopMidiOutputs;
 
-      // Start all new parts
-      partsRef.current.forEach((part) => {
-        part.start(0);
-      });
+  // Update BPM when changed (an external clock sets the tempo itself)
+  useEffect(() => {
+    if (isPlaying && !syncToClock) {
+      Tone.Transport.bpm.value = bpm;
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sequence]);
+  }, [bpm, isPlaying, syncToClock]);
+
+  // Start, stop and tempo from the external clock
+  const handleClockSync = (event: ClockSyncEvent) => {
+    if (event.type === "tempo") {
+      setSyncedBpm(event.bpm);
+    } else {
+      if (Tone.Transport.state !== "stopped") stop();
+      if (event.type === "start") start(0, event);
+    }
+  };
+  const handleClockSyncRef = useRef(handleClockSync);
+  handleClockSyncRef.current = handleClockSync;
+
+  useEffect(
+    () => clockSync.subscribe((event) => handleClockSyncRef.current(event)),
+    [clockSync],
+  );
+
+  // Steps read the patterns as they are edited
+  useEffect(() => {
+    patternsRef.current = patterns;
+  }, [patterns]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -380,18 +1361,12 @@ function StepSequencer({
         clearInterval(voiceMonitorRef.current);
       }
 
-      // Clean up parts on unmount
-      partsRef.current.forEach((part) => {
-        try {
-          if (part.state === "started") {
-            part.stop(0);
-          }
-        } catch (e) {
-          // Ignore errors during cleanup
-        }
-        part.dispose();
-      });
-      partsRef.current = [];
+      // Clear the next step on unmount
+      if (stepEventRef.current !== null) {
+        Tone.Transport.clear(stepEventRef.current);
+      }
+      countInPartRef.current?.dispose();
+      stopMidiOutputsRef.current();
 
       // Stop transport if it's running
       if (Tone.Transport.state === "started") {
@@ -400,6 +1375,10 @@ function StepSequencer({
     };
   }, []);
 
+  // A followed clock starts and stops the transport
+  const transportEnabled =
+    tracks.every((t) => t.synth !== null) && !syncToClock;
+
   return (
     <div
       style={{
@@ -417,47 +1396,61 @@ function StepSequencer({
           display: "flex",
           gap: "10px",
           alignItems: "center",
+          flexWrap: "wrap",
         }}
       >
         <button
-          onClick={isPlaying ? stop : start}
-          disabled={!tracks.every((t) => t.synth !== null)}
+          onClick={isPlaying ? stop : () => start()}
+          disabled={!transportEnabled}
           style={{
             padding: "10px 20px",
             fontSize: "16px",
-            cursor: tracks.every((t) => t.synth !== null)
-              ? "pointer"
-              : "not-allowed",
+            cursor: transportEnabled ? "pointer" : "not-allowed",
             backgroundColor: isPlaying ? "#f44336" : "#4CAF50",
             color: "white",
             border: "none",
             borderRadius: "4px",
-            opacity: tracks.every((t) => t.synth !== null) ? 1 : 0.5,
+            opacity: transportEnabled ? 1 : 0.5,
           }}
+          title={
+            syncToClock ? "Started and stopped by the MIDI clock" : undefined
+          }
         >
           {isPlaying ? "⏹ Stop" : "▶ Start"}
         </button>
 
-        <label
-          style={{
-            display: "flex",
-            alignItems: "center",
-            gap: "8px",
-          }}
-        >
-          BPM:
-          <input
-            type="number"
-            value={bpm}
-            onChange={(e) => {
-              const newBpm = Number(e.target.value);
-              setBpm(newBpm);
+        {syncToClock ? (
+          <span
+            style={{ fontSize: "14px" }}
+            title="Tempo of the MIDI clock the transport follows"
+          >
+            BPM: <strong>{syncedBpm?.toFixed(1) ?? "—"}</strong>{" "}
+            <span style={{ color: "#666", fontSize: "12px" }}>
+              {syncedBpm === null ? "waiting for MIDI clock" : "MIDI clock"}
+            </span>
+          </span>
+        ) : (
+          <label
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
             }}
-            min="20"
-            max="240"
-            style={{ padding: "5px", width: "60px" }}
-          />
-        </label>
+          >
+            BPM:
+            <input
+              type="number"
+              value={bpm}
+              onChange={(e) => {
+                const newBpm = Number(e.target.value);
+                setBpm(newBpm);
+              }}
+              min="20"
+              max="240"
+              style={{ padding: "5px", width: "60px" }}
+            />
+          </label>
+        )}
 
         <label
           style={{
@@ -492,10 +1485,443 @@ function StepSequencer({
         >
           {metronomeEnabled ? "🔔" : "🔕"} Metronome
         </button>
+
+        <button
+          onClick={() => setFill(!fill)}
+          style={{
+            padding: "10px 20px",
+            fontSize: "16px",
+            cursor: "pointer",
+            backgroundColor: fill ? "#E91E63" : "#9E9E9E",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title='Steps with the "Fill only" condition play while this is on'
+        >
+          🔥 Fill
+        </button>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          Steps:
+          <input
+            type="number"
+            value={patternSettings.length}
+            onChange={(e) =>
+              changePatternSettings({
+                length: Math.max(
+                  1,
+                  Math.min(MAX_PATTERN_LENGTH, Number(e.target.value) || 1),
+                ),
+              })
+            }
+            min="1"
+            max={MAX_PATTERN_LENGTH}
+            style={{ padding: "5px", width: "50px" }}
+          />
+        </label>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "4px",
+          }}
+        >
+          Meter:
+          <input
+            type="number"
+            value={patternSettings.timeSignature.beats}
+            onChange={(e) =>
+              changePatternSettings({
+                timeSignature: {
+                  ...patternSettings.timeSignature,
+                  beats: Math.max(1, Math.min(32, Number(e.target.value) || 1)),
+                },
+              })
+            }
+            min="1"
+            max="32"
+            style={{ padding: "5px", width: "40px" }}
+          />
+          /
+          <select
+            value={patternSettings.timeSignature.beatUnit}
+            onChange={(e) =>
+              changePatternSettings({
+                timeSignature: {
+                  ...patternSettings.timeSignature,
+                  beatUnit: Number(e.target.value),
+                },
+              })
+            }
+            style={{ padding: "5px" }}
+          >
+            {[2, 4, 8, 16].map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          Step:
+          <select
+            value={patternSettings.resolution}
+            onChange={(e) =>
+              changePatternSettings({
+                resolution: e.target.value as StepResolution,
+              })
+            }
+            style={{ padding: "5px" }}
+          >
+            {Object.entries(STEP_RESOLUTIONS).map(([value, { label }]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => setShowScales(!showScales)}
+          style={{
+            padding: "10px 20px",
+            fontSize: "16px",
+            cursor: "pointer",
+            backgroundColor: showScales ? "#673AB7" : "#9E9E9E",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Key and scale the note generator and editor snap to"
+        >
+          🎵 {getScaleName(globalScale)}
+        </button>
+
+        <button
+          onClick={() => setShowGroove(!showGroove)}
+          style={{
+            padding: "10px 20px",
+            fontSize: "16px",
+            cursor: "pointer",
+            backgroundColor: showGroove ? "#FF5722" : "#9E9E9E",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Swing, groove template and humanize"
+        >
+          🥁 Groove
+        </button>
+
+        <button
+          onClick={() => setShowAutomation(!showAutomation)}
+          style={{
+            padding: "10px 20px",
+            fontSize: "16px",
+            cursor: "pointer",
+            backgroundColor: showAutomation ? "#009688" : "#9E9E9E",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Record, draw and smooth automation lanes"
+        >
+          📈 Automation{automationArmed && " ⏺"}
+        </button>
+
+        <button
+          onClick={exportMidiFile}
+          style={{
+            padding: "10px 20px",
+            fontSize: "16px",
+            cursor: "pointer",
+            backgroundColor: "#607D8B",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title={
+            playMode === "song" && song.length > 0
+              ? "Export the song as a MIDI file"
+              : "Export the current pattern as a MIDI file"
+          }
+        >
+          💾 Export MIDI
+        </button>
+
+        <button
+          onClick={() => setShowAudioExport(true)}
+          style={{
+            padding: "10px 20px",
+            fontSize: "16px",
+            cursor: "pointer",
+            backgroundColor: "#607D8B",
+            color: "white",
+            border: "none",
+            borderRadius: "4px",
+          }}
+          title="Render the song or the current pattern to WAV files"
+        >
+          🎧 Export Audio
+        </button>
+
+        {midi && (
+          <button
+            onClick={() => setShowMidiImport(true)}
+            style={{
+              padding: "10px 20px",
+              fontSize: "16px",
+              cursor: "pointer",
+              backgroundColor: "#FF9800",
+              color: "white",
+              border: "none",
+              borderRadius: "4px",
+            }}
+            title="Quantize the loaded MIDI file into this pattern"
+          >
+            ⤵ Import MIDI
+          </button>
+        )}
+      </div>
+
+      {/* Recording */}
+      <div
+        style={{
+          marginBottom: "20px",
+          display: "flex",
+          gap: "10px",
+          alignItems: "center",
+          flexWrap: "wrap",
+          fontSize: "14px",
+        }}
+      >
+        <strong>● Record</strong>
+        <select
+          value={recordMode}
+          onChange={(e) => setRecordMode(e.target.value as RecordMode)}
+          style={{ padding: "5px" }}
+        >
+          <option value="step">Step</option>
+          <option value="overdub">Overdub</option>
+        </select>
+
+        {armedTrack === null ? (
+          <span style={{ color: "#666", fontSize: "12px" }}>
+            Arm a track (●) to record notes played on a MIDI or computer
+            keyboard
+          </span>
+        ) : recordMode === "step" ? (
+          <>
+            <span style={{ fontSize: "12px" }}>
+              Track {armedTrack + 1}, next step{" "}
+              {(recordCursor % getTrackLength(patternSettings, armedTrack)) + 1}
+              {isPlaying && " (stop playback to step record)"}
+            </span>
+            <button
+              onClick={() =>
+                setRecordCursor(
+                  (recordCursor + 1) %
+                    getTrackLength(patternSettings, armedTrack),
+                )
+              }
+              style={{ padding: "5px 10px", cursor: "pointer" }}
+              title="Leave the step as it is and move on"
+            >
+              → Skip
+            </button>
+            <button
+              onClick={() => setRecordCursor(0)}
+              style={{ padding: "5px 10px", cursor: "pointer" }}
+              title="Back to the first step"
+            >
+              ⏮
+            </button>
+          </>
+        ) : (
+          <>
+            <label style={{ fontSize: "12px" }}>
+              Count-in{" "}
+              <select
+                value={countInBars}
+                onChange={(e) => setCountInBars(Number(e.target.value))}
+              >
+                {COUNT_IN_BARS.map((bars) => (
+                  <option key={bars} value={bars}>
+                    {bars === 0 ? "Off" : `${bars} bar${bars === 1 ? "" : "s"}`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={{ fontSize: "12px" }}>
+              <input
+                type="checkbox"
+                checked={metronomeOnlyPreRoll}
+                onChange={(e) => setMetronomeOnlyPreRoll(e.target.checked)}
+              />{" "}
+              Metronome only during the count-in
+            </label>
+            <button
+              onClick={startRecording}
+              disabled={isPlaying || syncToClock}
+              style={{
+                padding: "5px 10px",
+                cursor: isPlaying || syncToClock ? "not-allowed" : "pointer",
+                backgroundColor: "#f44336",
+                color: "white",
+                border: "none",
+                borderRadius: "4px",
+                opacity: isPlaying || syncToClock ? 0.5 : 1,
+              }}
+              title={
+                syncToClock
+                  ? `Overdubs into Track ${armedTrack + 1} while the MIDI clock plays`
+                  : `Start playback and overdub into Track ${armedTrack + 1}`
+              }
+            >
+              ● Record
+            </button>
+            <span style={{ fontSize: "12px" }}>
+              {isCountingIn
+                ? "Counting in…"
+                : isPlaying
+                  ? `Overdubbing Track ${armedTrack + 1}`
+                  : ""}
+            </span>
+          </>
+        )}
       </div>
 
-      {/* 3x3 Grid Visualizer */}
-      <GridVisualizer currentStep={currentStep} isPlaying={isPlaying} />
+      {/* Pattern Bank and Song */}
+      <ArrangementPanel
+        patterns={patterns}
+        currentPattern={currentPattern}
+        queuedPattern={queuedPattern}
+        isPlaying={isPlaying}
+        playMode={playMode}
+        song={song}
+        songEntry={songEntry}
+        onSelectPattern={selectPattern}
+        onRenamePattern={(name) =>
+          updateCurrentPattern((pattern) => ({ ...pattern, name }))
+        }
+        onPlayModeChange={changePlayMode}
+        onSongChange={(next) => {
+          setSong(next);
+          songRef.current = next;
+          if (next.length === 0) changePlayMode("pattern");
+        }}
+      />
+
+      {/* Key / Scale Settings */}
+      {showScales && (
+        <div
+          style={{
+            marginBottom: "20px",
+            padding: "10px 15px",
+            border: "1px solid #ddd",
+            borderRadius: "4px",
+            backgroundColor: "#fafafa",
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+          }}
+        >
+          <div style={{ display: "flex", gap: "10px", alignItems: "center" }}>
+            <strong style={{ fontSize: "12px", minWidth: "70px" }}>
+              Global
+            </strong>
+            <ScaleSelector
+              scale={globalScale}
+              onChange={(scale) => changeScales(scale, trackScales)}
+            />
+          </div>
+          {Array.from({ length: numTracks }, (_, trackIndex) => (
+            <div
+              key={trackIndex}
+              style={{ display: "flex", gap: "10px", alignItems: "center" }}
+            >
+              <strong style={{ fontSize: "12px", minWidth: "70px" }}>
+                Track {trackIndex + 1}
+              </strong>
+              <label style={{ fontSize: "12px", whiteSpace: "nowrap" }}>
+                <input
+                  type="checkbox"
+                  checked={trackScales[trackIndex] == null}
+                  onChange={(e) =>
+                    changeTrackScale(
+                      trackIndex,
+                      e.target.checked ? null : globalScale,
+                    )
+                  }
+                />{" "}
+                Global
+              </label>
+              <ScaleSelector
+                scale={getTrackScale(trackIndex)}
+                disabled={trackScales[trackIndex] == null}
+                onChange={(scale) => changeTrackScale(trackIndex, scale)}
+              />
+            </div>
+          ))}
+          <label style={{ fontSize: "12px" }}>
+            <input
+              type="checkbox"
+              checked={transposeOnChange}
+              onChange={(e) => setTransposeOnChange(e.target.checked)}
+            />{" "}
+            Transpose existing notes when the key or scale changes
+          </label>
+        </div>
+      )}
+
+      {/* Swing, Groove and Humanize */}
+      {showGroove && (
+        <GroovePanel
+          groove={groove}
+          numTracks={numTracks}
+          midi={midi}
+          settings={patternSettings}
+          onChange={setGroove}
+        />
+      )}
+
+      {/* Automation Lanes */}
+      {showAutomation && (
+        <AutomationPanel
+          lanes={patterns[currentPattern].automation ?? []}
+          length={patternSettings.length}
+          playhead={isPlaying ? patternStep : null}
+          armed={automationArmed}
+          recording={automationArmed && isPlaying}
+          onArm={setAutomationArmed}
+          onChange={(automation) =>
+            updateCurrentPattern((pattern) => ({ ...pattern, automation }))
+          }
+        />
+      )}
+
+      {/* Step Grid Visualizer */}
+      <GridVisualizer
+        currentStep={patternStep}
+        isPlaying={isPlaying}
+        stepCount={patternSettings.length}
+        barSteps={Number.isInteger(stepsPerBar) ? stepsPerBar : undefined}
+      />
 
       <div style={{ overflowX: "auto" }}>
         <table style={{ borderCollapse: "collapse", width: "100%" }}>
@@ -504,7 +1930,7 @@ function StepSequencer({
               <th style={{ padding: "8px", border: "1px solid #ddd" }}>
                 Track
               </th>
-              {Array(stepsPerBar)
+              {Array(maxLength)
                 .fill(null)
                 .map((_, i) => (
                   <th
@@ -512,8 +1938,15 @@ function StepSequencer({
                     style={{
                       padding: "8px",
                       border: "1px solid #ddd",
+                      borderLeft: isBarStart(i)
+                        ? "3px solid #999"
+                        : "1px solid #ddd",
                       backgroundColor:
-                        currentStep === i && isPlaying ? "#ffeb3b" : "#f5f5f5",
+                        patternStep === i && isPlaying
+                          ? "#ffeb3b"
+                          : i < patternSettings.length
+                            ? "#f5f5f5"
+                            : "#e0e0e0",
                       minWidth: "40px",
                     }}
                   >
@@ -546,6 +1979,44 @@ function StepSequencer({
                       Track {trackIndex + 1}
                     </div>
 
+                    {/* Track Length (polymetric patterns) */}
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "4px",
+                      }}
+                    >
+                      <span style={{ fontSize: "10px", minWidth: "25px" }}>
+                        Len:
+                      </span>
+                      <select
+                        value={patternSettings.trackLengths[trackIndex] ?? ""}
+                        onChange={(e) =>
+                          changeTrackLength(
+                            trackIndex,
+                            e.target.value === ""
+                              ? null
+                              : Number(e.target.value),
+                          )
+                        }
+                        style={{ fontSize: "10px", width: "70px" }}
+                        title="Steps before this track loops"
+                      >
+                        <option value="">
+                          Pattern ({patternSettings.length})
+                        </option>
+                        {Array.from(
+                          { length: MAX_PATTERN_LENGTH },
+                          (_, i) => i + 1,
+                        ).map((length) => (
+                          <option key={length} value={length}>
+                            {length}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
                     {/* Volume Slider */}
                     <div
                       style={{
@@ -599,6 +2070,31 @@ function StepSequencer({
                       >
                         {trackMutes[trackIndex] ? "🔇" : "🔊"}
                       </button>
+                      <button
+                        onClick={() =>
+                          onArmTrack(
+                            armedTrack === trackIndex ? null : trackIndex,
+                          )
+                        }
+                        style={{
+                          padding: "4px 8px",
+                          fontSize: "10px",
+                          cursor: "pointer",
+                          backgroundColor:
+                            armedTrack === trackIndex ? "#f44336" : "#9e9e9e",
+                          color: "white",
+                          border: "none",
+                          borderRadius: "3px",
+                          flex: 1,
+                        }}
+                        title={
+                          armedTrack === trackIndex
+                            ? "Disarm recording"
+                            : "Arm for recording"
+                        }
+                      >
+                        ●
+                      </button>
                       {onTrackSelect && (
                         <button
                           onClick={() => onTrackSelect(trackIndex + 1)}
@@ -618,12 +2114,83 @@ function StepSequencer({
                         </button>
                       )}
                     </div>
+
+                    {/* Reorder, Duplicate and Delete */}
+                    <div
+                      style={{
+                        display: "flex",
+                        gap: "4px",
+                      }}
+                    >
+                      {[
+                        {
+                          label: "▲",
+                          title: "Move up",
+                          disabled: trackIndex === 0,
+                          operation: {
+                            type: "move",
+                            from: trackIndex,
+                            to: trackIndex - 1,
+                          },
+                        },
+                        {
+                          label: "▼",
+                          title: "Move down",
+                          disabled: trackIndex === numTracks - 1,
+                          operation: {
+                            type: "move",
+                            from: trackIndex,
+                            to: trackIndex + 1,
+                          },
+                        },
+                        {
+                          label: "⧉",
+                          title: "Duplicate track",
+                          disabled: false,
+                          operation: { type: "duplicate", index: trackIndex },
+                        },
+                        {
+                          label: "✕",
+                          title: "Delete track",
+                          disabled: numTracks === 1,
+                          operation: { type: "delete", index: trackIndex },
+                        },
+                      ].map(({ label, title, disabled, operation }) => (
+                        <button
+                          key={title}
+                          onClick={() =>
+                            handleTrackOperation(operation as TrackOperation)
+                          }
+                          disabled={disabled}
+                          style={{
+                            padding: "2px 0",
+                            fontSize: "10px",
+                            cursor: disabled ? "not-allowed" : "pointer",
+                            backgroundColor: "#eeeeee",
+                            border: "1px solid #ccc",
+                            borderRadius: "3px",
+                            opacity: disabled ? 0.4 : 1,
+                            flex: 1,
+                          }}
+                          title={title}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
                   </div>
                 </td>
-                {Array(stepsPerBar)
+                {Array(maxLength)
                   .fill(null)
                   .map((_, step) => {
-                    const tupletValue = sequence[step][trackIndex];
+                    const cell = sequence[step][trackIndex];
+                    const trackLength = getTrackLength(
+                      patternSettings,
+                      trackIndex,
+                    );
+                    const inTrack = step < trackLength;
+                    const lockCount = Object.keys(cell.locks ?? {}).length;
+                    const trigLabel = cell.trig ? describeTrig(cell.trig) : "";
 
                     return (
                       <td
@@ -631,26 +2198,38 @@ function StepSequencer({
                         style={{
                           padding: "4px",
                           border: "1px solid #ddd",
+                          borderLeft: isBarStart(step)
+                            ? "3px solid #999"
+                            : "1px solid #ddd",
                           textAlign: "center",
+                          opacity: inTrack ? 1 : 0.35,
                           backgroundColor:
-                            currentStep === step && isPlaying
+                            currentStep % trackLength === step && isPlaying
                               ? "#fff9c4"
-                              : trackIndex % 2 === 0
-                                ? "#fafafa"
-                                : "white",
+                              : isHeld(step, trackIndex)
+                                ? "#e1f5fe"
+                                : isStepCursor(step, trackIndex)
+                                  ? "#ffcdd2"
+                                  : trackIndex % 2 === 0
+                                    ? "#fafafa"
+                                    : "white",
                         }}
+                        title={
+                          inTrack
+                            ? undefined
+                            : "Past the end of this track (not played)"
+                        }
                       >
                         {/* Tuplet count dropdown */}
                         <select
-                          value={tupletValue}
-                          onChange={(e) => {
-                            setSequence((prev) => {
-                              const newSequence = [...prev];
-                              newSequence[step][trackIndex] = e.target
-                                .value as TupletRatio;
-                              return newSequence;
-                            });
-                          }}
+                          value={cell.tuplet}
+                          onChange={(e) =>
+                            changeTuplet(
+                              step,
+                              trackIndex,
+                              e.target.value as TupletRatio,
+                            )
+                          }
                           style={{
                             fontSize: "11px",
                             padding: "4px",
@@ -667,6 +2246,90 @@ function StepSequencer({
                           <option value="7">×7</option>
                           <option value="8">×8</option>
                         </select>
+
+                        {/* Note preview, opens the piano roll editor */}
+                        <button
+                          onClick={() =>
+                            setEditingCell({ step, track: trackIndex })
+                          }
+                          style={{
+                            display: "block",
+                            width: "60px",
+                            margin: "4px auto 0",
+                            padding: "2px",
+                            fontSize: "9px",
+                            cursor: "pointer",
+                            backgroundColor:
+                              cell.notes.length > 0 ? "#ede7f6" : "#f5f5f5",
+                            border: "1px solid #d1c4e9",
+                            borderRadius: "3px",
+                            overflow: "hidden",
+                            whiteSpace: "nowrap",
+                            textOverflow: "ellipsis",
+                          }}
+                          title="Edit notes"
+                        >
+                          {cell.notes.length > 0
+                            ? cell.notes
+                                .map((note) =>
+                                  note.pitch === null
+                                    ? "·"
+                                    : Tone.Frequency(
+                                        note.pitch,
+                                        "midi",
+                                      ).toNote(),
+                                )
+                                .join(" ")
+                            : "✏️"}
+                        </button>
+                        {trigLabel && (
+                          <div
+                            style={{
+                              marginTop: "2px",
+                              fontSize: "9px",
+                              color: "#ad1457",
+                              whiteSpace: "nowrap",
+                            }}
+                            title="Probability, condition and ratchets (edit in the note editor)"
+                          >
+                            {trigLabel}
+                          </div>
+                        )}
+
+                        {/* Parameter locks: hold the step, turn knobs */}
+                        <button
+                          onPointerDown={() => holdStep(step, trackIndex)}
+                          style={{
+                            display: "block",
+                            width: "60px",
+                            margin: "4px auto 0",
+                            padding: "1px",
+                            fontSize: "9px",
+                            cursor: "pointer",
+                            backgroundColor: isHeld(step, trackIndex)
+                              ? "#03A9F4"
+                              : lockCount > 0
+                                ? "#b3e5fc"
+                                : "#f5f5f5",
+                            color: isHeld(step, trackIndex) ? "white" : "black",
+                            border: "1px solid #81d4fa",
+                            borderRadius: "3px",
+                            opacity:
+                              lockCount > 0 || isHeld(step, trackIndex)
+                                ? 1
+                                : 0.5,
+                          }}
+                          title={
+                            (lockCount > 0
+                              ? `Locked: ${Object.entries(cell.locks!)
+                                  .map(([param, value]) => `${param} ${value}`)
+                                  .join(", ")}\n`
+                              : "") +
+                            "Click to hold this step (or press and hold), then turn the track's knobs to lock them on it"
+                          }
+                        >
+                          🔒{lockCount > 0 && ` ${lockCount}`}
+                        </button>
                       </td>
                     );
                   })}
@@ -675,6 +2338,74 @@ function StepSequencer({
           </tbody>
         </table>
       </div>
+
+      <button
+        onClick={() => handleTrackOperation({ type: "add" })}
+        style={{
+          marginTop: "10px",
+          padding: "8px 16px",
+          fontSize: "14px",
+          cursor: "pointer",
+          backgroundColor: "#2196F3",
+          color: "white",
+          border: "none",
+          borderRadius: "4px",
+        }}
+      >
+        + Add Track
+      </button>
+
+      {/* Piano Roll Cell Editor */}
+      {editingCell && (
+        <CellEditor
+          cell={sequence[editingCell.step][editingCell.track]}
+          scale={getTrackScale(editingCell.track)}
+          trackNumber={editingCell.track + 1}
+          stepNumber={editingCell.step + 1}
+          onChange={(cell) =>
+            updateCell(editingCell.step, editingCell.track, cell)
+          }
+          onTupletChange={(tuplet) =>
+            changeTuplet(editingCell.step, editingCell.track, tuplet)
+          }
+          onGenerate={() => generateCell(editingCell.step, editingCell.track)}
+          onTrigChange={(trig) =>
+            updateCell(
+              editingCell.step,
+              editingCell.track,
+              setCellTrig(sequence[editingCell.step][editingCell.track], trig),
+            )
+          }
+          onClose={() => setEditingCell(null)}
+        />
+      )}
+
+      {/* MIDI Import */}
+      {midi && showMidiImport && (
+        <MidiImportDialog
+          midi={midi}
+          numTracks={numTracks}
+          patternLabel={PATTERN_LETTERS[currentPattern]}
+          settings={patternSettings}
+          velocity={velocity}
+          onImport={importMidiCells}
+          onClose={() => setShowMidiImport(false)}
+        />
+      )}
+
+      {/* Audio Export */}
+      {showAudioExport && (
+        <AudioExportDialog
+          sections={exportSections}
+          fileName={exportFileName}
+          bpm={bpm}
+          groove={groove}
+          trackSettings={trackSettings}
+          trackVolumes={trackVolumes}
+          trackMutes={trackMutes}
+          onClose={() => setShowAudioExport(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1,20 +1,64 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import * as Tone from "tone";
 import PresetBrowser from "./PresetBrowser";
+import Keyboard from "./Keyboard";
+import type { LiveInput } from "../midi/LiveInput";
+import type { MidiLearn } from "../midi/MidiLearn";
+import type { AutomationRecorder } from "../sequencer/AutomationRecorder";
+import type { HeldStep, LockRecorder } from "../sequencer/LockRecorder";
+import { PATTERN_LETTERS } from "../sequencer/patterns";
+import {
+  CC_CURVES,
+  CC_MODES,
+  CC_TAKEOVERS,
+  type CcMapping,
+} from "../midi/ccMapping";
+import {
+  getParamValue,
+  setParamValue,
+  type ParamLocks,
+} from "../audio/settingPaths";
+import { applyTrackSettings } from "../audio/trackChain";
+import type { TrackSettings } from "../audio/DualOscVoice";
 import type { InstrumentPreset } from "../presets/instrumentPresets";
+import type { TrackModulator } from "../audio/TrackModulator";
+import {
+  MAX_MOD_SLOTS,
+  MOD_DESTINATIONS,
+  MOD_SOURCES,
+  type ModMatrix,
+  type ModSlot,
+} from "../audio/modMatrix";
 
 interface SynthControlsProps {
-  synth: Tone.PolySynth | null;
+  synth: Tone.PolySynth<any> | null;
   reverb: Tone.JCReverb | null;
-  lfo: Tone.LFO | null;
   delay: Tone.FeedbackDelay | null;
   filter: Tone.Filter | null;
   distortion: Tone.Distortion | null;
+  modulator: TrackModulator | null;
   trackNumber: number;
   isOpen: boolean;
   onClose: () => void;
   initialSettings: SynthParams;
   onSettingsChange: (settings: SynthParams) => void;
+  liveInput: LiveInput; // Plays the track from the on-screen keyboard
+  midiLearn: MidiLearn;
+  ccMappings: CcMapping[]; // Of every track
+  onCcMappingsChange: (mappings: CcMapping[]) => void;
+  lockRecorder: LockRecorder; // While it holds a step, sliders set locks
+  automationRecorder: AutomationRecorder; // While it records, sliders too
+}
+
+// Slider a MIDI learn menu was opened on, and where
+interface LearnMenu {
+  param: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  x: number;
+  y: number;
 }
 
 interface SynthParams {
@@ -67,7 +111,6 @@ interface SynthParams {
 
   // LFO
   lfoRate: number;
-  lfoDepth: number;
   lfoType: "sine" | "square" | "sawtooth" | "triangle";
   lfoOsc1Amount: number; // 0 to 1
   lfoOsc2Amount: number; // 0 to 1
@@ -86,90 +129,285 @@ interface SynthParams {
   reverbStereo: number; // 0 to 1
   reverbDamping: number; // 0 to 1
 
+  // Modulation Matrix
+  modMatrix: ModMatrix;
+
   // Legacy (for backwards compatibility)
   oscType?: "sine" | "square" | "sawtooth" | "triangle";
   lfoTarget?: "filter" | "volume" | "pitch";
 }
 
+const MENU_WIDTH = 240;
+
+// Right-click menu of a slider: learn a control, or edit how the mapped one
+// moves the setting
+function LearnMenuBox({
+  menu,
+  mapping,
+  learning,
+  onLearn,
+  onCancelLearn,
+  onUpdate,
+  onRemove,
+}: {
+  menu: LearnMenu;
+  mapping: CcMapping | undefined;
+  learning: boolean;
+  onLearn: () => void;
+  onCancelLearn: () => void;
+  onUpdate: (mapping: CcMapping, changes: Partial<CcMapping>) => void;
+  onRemove: (mapping: CcMapping) => void;
+}) {
+  const buttonStyle = {
+    padding: "4px 10px",
+    fontSize: "12px",
+    cursor: "pointer",
+    border: "none",
+    borderRadius: "4px",
+  };
+  const rowStyle = {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: "8px",
+  };
+
+  return (
+    <div
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+      }}
+      style={{
+        position: "fixed",
+        left: `${Math.max(0, Math.min(menu.x, window.innerWidth - MENU_WIDTH - 10))}px`,
+        top: `${Math.max(0, Math.min(menu.y, window.innerHeight - 220))}px`,
+        width: `${MENU_WIDTH}px`,
+        padding: "10px",
+        backgroundColor: "white",
+        border: "1px solid #ccc",
+        borderRadius: "6px",
+        boxShadow: "0 4px 12px rgba(0, 0, 0, 0.25)",
+        fontSize: "12px",
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+      }}
+    >
+      <strong>🎛 {menu.label}</strong>
+
+      {learning ? (
+        <div style={rowStyle}>
+          <span style={{ color: "#e65100" }}>Move a control…</span>
+          <button
+            onClick={onCancelLearn}
+            style={{ ...buttonStyle, backgroundColor: "#e0e0e0" }}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onLearn}
+          style={{ ...buttonStyle, backgroundColor: "#2196F3", color: "white" }}
+        >
+          {mapping ? "Learn another control" : "MIDI Learn"}
+        </button>
+      )}
+
+      {mapping && (
+        <>
+          <span style={{ color: "#666" }}>
+            CC {mapping.controller} on channel {mapping.channel + 1}, from{" "}
+            {mapping.min} to {mapping.max}
+          </span>
+          <label style={rowStyle}>
+            Curve
+            <select
+              value={mapping.curve}
+              onChange={(e) =>
+                onUpdate(mapping, {
+                  curve: e.target.value as CcMapping["curve"],
+                })
+              }
+              style={{ fontSize: "12px" }}
+            >
+              {Object.entries(CC_CURVES).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label style={rowStyle}>
+            Control
+            <select
+              value={mapping.mode}
+              onChange={(e) =>
+                onUpdate(mapping, { mode: e.target.value as CcMapping["mode"] })
+              }
+              style={{ fontSize: "12px" }}
+            >
+              {Object.entries(CC_MODES).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label
+            style={rowStyle}
+            title="Pickup waits until the knob reaches the current value"
+          >
+            Takeover
+            <select
+              value={mapping.takeover}
+              onChange={(e) =>
+                onUpdate(mapping, {
+                  takeover: e.target.value as CcMapping["takeover"],
+                })
+              }
+              disabled={mapping.mode !== "absolute"}
+              style={{ fontSize: "12px" }}
+            >
+              {Object.entries(CC_TAKEOVERS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => onRemove(mapping)}
+            style={{
+              ...buttonStyle,
+              backgroundColor: "#f44336",
+              color: "white",
+            }}
+          >
+            Remove mapping
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
 function SynthControls({
   synth,
   reverb,
-  lfo,
   delay,
   filter,
   distortion,
+  modulator,
   trackNumber,
   isOpen,
   onClose,
   initialSettings,
   onSettingsChange,
+  liveInput,
+  midiLearn,
+  ccMappings,
+  onCcMappingsChange,
+  lockRecorder,
+  automationRecorder,
 }: SynthControlsProps) {
   const [params, setParams] = useState<SynthParams>(initialSettings);
   const [showPresetBrowser, setShowPresetBrowser] = useState(false);
+  const [learnMenu, setLearnMenu] = useState<LearnMenu | null>(null);
+  const [learningParam, setLearningParam] = useState<string | null>(null);
+  const [heldStep, setHeldStep] = useState<HeldStep | null>(lockRecorder.held);
+  const [recordingAutomation, setRecordingAutomation] = useState(
+    automationRecorder.recording,
+  );
+  // Values the sliders recorded in the current take
+  const [recordedValues, setRecordedValues] = useState<ParamLocks>({});
+  // Settings last changed by a mapped control, which the dialog already has
+  const ccSettingsRef = useRef<TrackSettings | null>(null);
 
   const previewTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hasPlayedInitialPreview = useRef(false);
 
-  // Refs for LFO scaling nodes to prevent memory leaks
-  const lfoScaleNodesRef = useRef<Tone.Scale[]>([]);
-
   // Update params when initialSettings change (e.g., switching tracks)
   useEffect(() => {
+    if (initialSettings === ccSettingsRef.current) return;
     setParams(initialSettings);
   }, [initialSettings, trackNumber]);
 
-  // Play preview note
-  const playPreview = useCallback(async () => {
-    if (!synth || !filter || !lfo || !delay || !reverb || !distortion) return;
-
-    try {
-      // Temporarily apply current params for preview
-      const osc1DetuneTotal =
-        params.osc1Octave * 1200 +
-        params.osc1Semitone * 100 +
-        params.osc1Detune;
-
-      synth.set({
-        oscillator: {
-          type: params.osc1Type,
-        },
-        envelope: {
-          attack: params.attack,
-          decay: params.decay,
-          sustain: params.sustain,
-          release: params.release,
-        },
-        portamento: params.portamentoMode === "off" ? 0 : params.portamento,
-        volume: params.volume,
-        detune: osc1DetuneTotal,
-      });
-
-      // Apply filter envelope to individual voices
-      const voices = (synth as any)._voices as Tone.MonoSynth[];
-      voices.forEach((voice) => {
-        if (voice && voice.filterEnvelope) {
-          voice.filterEnvelope.attack = params.filterAttack;
-          voice.filterEnvelope.decay = params.filterDecay;
-          voice.filterEnvelope.sustain = params.filterSustain;
-          voice.filterEnvelope.release = params.filterRelease;
-          voice.filterEnvelope.baseFrequency = params.filterBaseFreq;
-          voice.filterEnvelope.octaves = params.filterOctaves;
+  // Mapped controls change the track's settings directly; the sliders here
+  // follow them without losing other unsaved changes
+  useEffect(
+    () =>
+      midiLearn.subscribe((event) => {
+        if (event.type === "learning") {
+          setLearningParam(
+            event.target?.track === trackNumber - 1 ? event.target.param : null,
+          );
+        } else if (event.type === "change" && event.track === trackNumber - 1) {
+          // Moves of a held step's controls are locks, not settings
+          if (lockRecorder.held?.track === event.track) return;
+          ccSettingsRef.current = event.settings;
+          const value = getParamValue(event.settings, event.param);
+          if (value === null) return;
+          setParams(
+            (prev) =>
+              setParamValue(
+                prev as TrackSettings,
+                event.param,
+                value,
+              ) as SynthParams,
+          );
         }
-      });
+      }),
+    [midiLearn, lockRecorder, trackNumber],
+  );
 
-      filter.type = params.filterType;
-      filter.frequency.value = params.filterFreq;
-      filter.Q.value = params.filterQ;
+  useEffect(
+    () => lockRecorder.subscribe((event) => setHeldStep(event.held)),
+    [lockRecorder],
+  );
 
-      reverb.roomSize.value = params.reverbSize;
-      reverb.wet.value = params.reverbWet;
+  useEffect(
+    () =>
+      automationRecorder.subscribe((event) => {
+        if (event.type === "recording") {
+          setRecordingAutomation(event.recording);
+          setRecordedValues({});
+        } else if (event.move.track === trackNumber - 1) {
+          const { param, value } = event.move;
+          setRecordedValues((prev) => ({ ...prev, [param]: value }));
+        }
+      }),
+    [automationRecorder, trackNumber],
+  );
 
-      delay.delayTime.value = params.delayTime;
-      delay.feedback.value = params.delayFeedback;
-      delay.wet.value = params.delayWet;
+  // Let go of a held step when the dialog closes or changes track
+  useEffect(() => {
+    if (!isOpen) return;
+    return () => {
+      if (lockRecorder.held?.track === trackNumber - 1) lockRecorder.hold(null);
+    };
+  }, [lockRecorder, trackNumber, isOpen]);
+
+  // Stop waiting for a control when the dialog closes or changes track
+  useEffect(
+    () => () => {
+      if (midiLearn.learning?.track === trackNumber - 1) midiLearn.learn(null);
+    },
+    [midiLearn, trackNumber, isOpen],
+  );
 
-      distortion.distortion = params.drive;
-      distortion.wet.value = params.drive > 0 ? 1 : 0;
+  // Play preview note
+  const playPreview = useCallback(async () => {
+    if (!synth || !filter || !delay || !reverb || !distortion) return;
+
+    try {
+      // Temporarily apply current params for preview
+      applyTrackSettings(
+        { synth, reverb, delay, filter, distortion, modulator },
+        params,
+      );
 
       // Ensure Tone.js is started
       await Tone.start();
@@ -187,7 +425,7 @@ function SynthControls({
     } catch (error) {
       console.error("Error playing preview:", error);
     }
-  }, [synth, filter, lfo, delay, reverb, distortion, params]);
+  }, [synth, filter, delay, reverb, distortion, modulator, params]);
 
   // Reset preview flag when modal closes
   useEffect(() => {
@@ -196,15 +434,6 @@ function SynthControls({
     }
   }, [isOpen]);
 
-  // Apply parameters to synth
-  // Cleanup LFO scale nodes on unmount
-  useEffect(() => {
-    return () => {
-      lfoScaleNodesRef.current.forEach((node) => node.dispose());
-      lfoScaleNodesRef.current = [];
-    };
-  }, []);
-
   // Play preview when parameters change (debounced)
   useEffect(() => {
     // Clear existing timeout
@@ -234,133 +463,64 @@ function SynthControls({
     }));
   };
 
+  const handleModChange = (key: keyof ModMatrix, value: any) => {
+    setParams((prev) => ({
+      ...prev,
+      modMatrix: { ...prev.modMatrix, [key]: value },
+    }));
+  };
+
+  const handleSlotChange = (index: number, key: keyof ModSlot, value: any) => {
+    setParams((prev) => ({
+      ...prev,
+      modMatrix: {
+        ...prev.modMatrix,
+        slots: prev.modMatrix.slots.map((slot, i) =>
+          i === index ? { ...slot, [key]: value } : slot,
+        ),
+      },
+    }));
+  };
+
+  const addModSlot = () => {
+    setParams((prev) => {
+      if (prev.modMatrix.slots.length >= MAX_MOD_SLOTS) return prev;
+      return {
+        ...prev,
+        modMatrix: {
+          ...prev.modMatrix,
+          slots: [
+            ...prev.modMatrix.slots,
+            { source: "lfo1", destination: "filterFreq", amount: 0 },
+          ],
+        },
+      };
+    });
+  };
+
+  const removeModSlot = (index: number) => {
+    setParams((prev) => ({
+      ...prev,
+      modMatrix: {
+        ...prev.modMatrix,
+        slots: prev.modMatrix.slots.filter((_, i) => i !== index),
+      },
+    }));
+  };
+
   // Handle Save button - apply all settings at once
   const handleSave = useCallback(() => {
-    if (!synth || !filter || !reverb || !delay || !distortion || !lfo) {
+    if (!synth || !filter || !reverb || !delay || !distortion) {
       onClose();
       return;
     }
 
     try {
-      // Calculate total detune from octave, semitone, and detune
-      const osc1DetuneTotal =
-        params.osc1Octave * 1200 +
-        params.osc1Semitone * 100 +
-        params.osc1Detune;
-
-      // Apply synth parameters
-      synth.set({
-        oscillator: {
-          type: params.osc1Type,
-        },
-        envelope: {
-          attack: params.attack,
-          decay: params.decay,
-          sustain: params.sustain,
-          release: params.release,
-        },
-        portamento: params.portamentoMode === "off" ? 0 : params.portamento,
-        volume: params.volume,
-        detune: osc1DetuneTotal,
-      });
-
-      // Apply filter envelope to individual voices
-      const voices = (synth as any)._voices as Tone.MonoSynth[];
-      voices.forEach((voice) => {
-        if (voice && voice.filterEnvelope) {
-          voice.filterEnvelope.attack = params.filterAttack;
-          voice.filterEnvelope.decay = params.filterDecay;
-          voice.filterEnvelope.sustain = params.filterSustain;
-          voice.filterEnvelope.release = params.filterRelease;
-          voice.filterEnvelope.baseFrequency = params.filterBaseFreq;
-          voice.filterEnvelope.octaves = params.filterOctaves;
-        }
-      });
-
-      // Apply filter parameters
-      filter.type = params.filterType;
-      filter.frequency.value = params.filterFreq;
-      filter.Q.value = params.filterQ;
-
-      // Apply reverb parameters
-      reverb.roomSize.value = params.reverbSize;
-      reverb.wet.value = params.reverbWet;
-
-      // Apply delay parameters
-      delay.delayTime.value = params.delayTime;
-      delay.feedback.value = params.delayFeedback;
-      delay.wet.value = params.delayWet;
-
-      // Apply drive (distortion) parameters
-      distortion.distortion = params.drive;
-      distortion.wet.value = params.drive > 0 ? 1 : 0;
-
-      // Apply LFO parameters
-      // Clean up existing scale nodes
-      lfoScaleNodesRef.current.forEach((node) => node.dispose());
-      lfoScaleNodesRef.current = [];
-
-      lfo.frequency.value = params.lfoRate;
-      lfo.type = params.lfoType;
-      lfo.disconnect();
-
-      const hasAnyTarget =
-        params.lfoFilterAmount > 0 ||
-        params.lfoAmpAmount > 0 ||
-        params.lfoOsc1Amount > 0 ||
-        params.lfoOsc2Amount > 0;
-
-      if (hasAnyTarget && params.lfoRate > 0) {
-        lfo.min = -1;
-        lfo.max = 1;
-
-        if (params.lfoFilterAmount > 0 && filter) {
-          const modulationRange = params.filterFreq * params.lfoFilterAmount;
-          const filterLFO = new Tone.Scale({
-            min: Math.max(20, params.filterFreq - modulationRange),
-            max: Math.min(20000, params.filterFreq + modulationRange),
-          });
-          lfoScaleNodesRef.current.push(filterLFO);
-          lfo.connect(filterLFO);
-          filterLFO.connect(filter.frequency);
-        }
-
-        if (params.lfoAmpAmount > 0) {
-          const volumeRange = 10 * params.lfoAmpAmount;
-          const ampLFO = new Tone.Scale({
-            min: params.volume - volumeRange,
-            max: params.volume,
-          });
-          lfoScaleNodesRef.current.push(ampLFO);
-          lfo.connect(ampLFO);
-          ampLFO.connect(synth.volume);
-        }
-
-        if (params.lfoOsc1Amount > 0) {
-          const centsRange = 50 * params.lfoOsc1Amount;
-          const pitchLFO = new Tone.Scale({
-            min: -centsRange,
-            max: centsRange,
-          });
-          lfoScaleNodesRef.current.push(pitchLFO);
-          lfo.connect(pitchLFO);
-
-          const voices = (synth as any)._voices as Tone.MonoSynth[];
-          voices.forEach((voice) => {
-            if (voice && voice.detune) {
-              pitchLFO.connect(voice.detune);
-            }
-          });
-        }
-
-        if (lfo.state !== "started") {
-          lfo.start();
-        }
-      } else {
-        if (lfo.state === "started") {
-          lfo.stop();
-        }
-      }
+      // Apply to the voices and effects of the track
+      applyTrackSettings(
+        { synth, reverb, delay, filter, distortion, modulator },
+        params,
+      );
 
       // Save to parent state
       onSettingsChange(params);
@@ -377,7 +537,7 @@ function SynthControls({
     reverb,
     delay,
     distortion,
-    lfo,
+    modulator,
     onSettingsChange,
     onClose,
   ]);
@@ -389,6 +549,26 @@ function SynthControls({
     // Don't call onSettingsChange - wait for user to Save
   };
 
+  // MIDI learn: each slider of this track can have one mapped control
+  const trackMappings = ccMappings.filter(
+    (mapping) => mapping.track === trackNumber - 1,
+  );
+  const getMapping = (param: string) =>
+    trackMappings.find((mapping) => mapping.param === param);
+
+  const updateMapping = (mapping: CcMapping, changes: Partial<CcMapping>) => {
+    onCcMappingsChange(
+      ccMappings.map((m) => (m === mapping ? { ...m, ...changes } : m)),
+    );
+  };
+
+  const removeMapping = (mapping: CcMapping) => {
+    onCcMappingsChange(ccMappings.filter((m) => m !== mapping));
+  };
+
+  // Locking: sliders show and set the held step's values instead
+  const locks = heldStep?.track === trackNumber - 1 ? heldStep.locks : null;
+
   if (!isOpen) return null;
 
   // Helper component for control sections
@@ -446,6 +626,7 @@ function SynthControls({
     type = "range",
     options,
     displayValue,
+    param,
   }: {
     label: string;
     value: any;
@@ -456,44 +637,140 @@ function SynthControls({
     type?: "range" | "select";
     options?: { value: string; label: string }[];
     displayValue?: string;
-  }) => (
-    <div>
-      <label
-        style={{
-          display: "block",
-          marginBottom: "5px",
-          fontSize: "12px",
-          fontWeight: "bold",
-        }}
+    param?: string; // Setting path; sliders with one can be MIDI mapped
+  }) => {
+    const lockable = locks !== null && param !== undefined && type === "range";
+    const lockValue = lockable ? locks[param] : undefined;
+    // Recording automation takes over sliders that aren't locking
+    const recordable =
+      !lockable &&
+      recordingAutomation &&
+      param !== undefined &&
+      type === "range";
+    const recordedValue = recordable ? recordedValues[param] : undefined;
+    return (
+      <div
+        onContextMenu={
+          param && type === "range"
+            ? (e) => {
+                e.preventDefault();
+                setLearnMenu({
+                  param,
+                  label,
+                  min: Number(min),
+                  max: Number(max),
+                  step: Number(step),
+                  x: e.clientX,
+                  y: e.clientY,
+                });
+              }
+            : undefined
+        }
+        style={
+          param && learningParam === param
+            ? { outline: "2px solid #ff9800", outlineOffset: "3px" }
+            : undefined
+        }
       >
-        {label}
-        {displayValue && `: ${displayValue}`}
-      </label>
-      {type === "range" ? (
-        <input
-          type="range"
-          min={min}
-          max={max}
-          step={step}
-          value={value}
-          onChange={(e) => onChange(parseFloat(e.target.value))}
-          style={{ width: "100%" }}
-        />
-      ) : (
-        <select
-          value={value}
-          onChange={(e) => onChange(e.target.value)}
-          style={{ width: "100%", padding: "6px", fontSize: "12px" }}
+        <label
+          style={{
+            display: "block",
+            marginBottom: "5px",
+            fontSize: "12px",
+            fontWeight: "bold",
+          }}
         >
-          {options?.map((opt) => (
-            <option key={opt.value} value={opt.value}>
-              {opt.label}
-            </option>
-          ))}
-        </select>
-      )}
-    </div>
-  );
+          {label}
+          {displayValue && `: ${displayValue}`}
+          {param && getMapping(param) && (
+            <span
+              style={{
+                marginLeft: "6px",
+                color: "#1565c0",
+                fontWeight: "normal",
+              }}
+              title="Mapped to a MIDI control (right-click to edit)"
+            >
+              🎛 CC {getMapping(param)!.controller}
+            </span>
+          )}
+          {param && learningParam === param && (
+            <span style={{ marginLeft: "6px", color: "#e65100" }}>
+              Move a control…
+            </span>
+          )}
+          {recordedValue !== undefined && (
+            <span
+              style={{ marginLeft: "6px", color: "#c62828" }}
+              title="Recorded into the playing pattern's automation"
+            >
+              ⏺ {recordedValue}
+            </span>
+          )}
+          {lockValue !== undefined && (
+            <span
+              style={{
+                marginLeft: "6px",
+                padding: "0 4px",
+                backgroundColor: "#b3e5fc",
+                borderRadius: "3px",
+                fontWeight: "normal",
+              }}
+              title="Locked on the held step"
+            >
+              🔒 {lockValue}{" "}
+              <span
+                onClick={() => lockRecorder.setLock(param!, null)}
+                style={{ cursor: "pointer", color: "#c62828" }}
+                title="Remove the lock"
+              >
+                ✕
+              </span>
+            </span>
+          )}
+        </label>
+        {type === "range" ? (
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={lockValue ?? recordedValue ?? value}
+            onChange={(e) => {
+              const newValue = parseFloat(e.target.value);
+              if (lockable) {
+                lockRecorder.setLock(param!, newValue);
+              } else if (
+                !recordable ||
+                !automationRecorder.record({
+                  track: trackNumber - 1,
+                  param: param!,
+                  value: newValue,
+                  min: Number(min),
+                  max: Number(max),
+                })
+              ) {
+                onChange(newValue);
+              }
+            }}
+            style={{ width: "100%" }}
+          />
+        ) : (
+          <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            style={{ width: "100%", padding: "6px", fontSize: "12px" }}
+          >
+            {options?.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    );
+  };
 
   return (
     <div
@@ -591,8 +868,60 @@ function SynthControls({
           }}
         >
           💡 <strong>Live Preview:</strong> Adjust any parameter to hear a
-          preview note. Click "🔊 Test Sound" to test manually.{" "}
-          <strong>Press Save to apply changes to the track.</strong>
+          preview note. Click "🔊 Test Sound" or play the keyboard below to test
+          manually. <strong>Press Save to apply changes to the track.</strong>{" "}
+          Right-click a slider to map a MIDI control to it.
+        </div>
+
+        {locks && heldStep && (
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "10px",
+              padding: "10px 15px",
+              marginBottom: "15px",
+              backgroundColor: "#e1f5fe",
+              border: "1px solid #03A9F4",
+              borderRadius: "4px",
+              fontSize: "13px",
+            }}
+          >
+            <span style={{ flex: 1 }}>
+              🔒{" "}
+              <strong>
+                Locking step {heldStep.step + 1} of pattern{" "}
+                {PATTERN_LETTERS[heldStep.pattern]}:
+              </strong>{" "}
+              sliders set values for this step only ({Object.keys(locks).length}{" "}
+              locked).
+            </span>
+            <button
+              onClick={() => lockRecorder.clearLocks()}
+              disabled={Object.keys(locks).length === 0}
+              style={{ padding: "4px 10px", fontSize: "12px" }}
+            >
+              Clear all
+            </button>
+            <button
+              onClick={() => lockRecorder.hold(null)}
+              style={{ padding: "4px 10px", fontSize: "12px" }}
+            >
+              Release
+            </button>
+          </div>
+        )}
+
+        {/* Audition */}
+        <div style={{ marginBottom: "15px", overflowX: "auto" }}>
+          <Keyboard
+            liveInput={liveInput}
+            track={
+              synth
+                ? { synth, reverb, delay, filter, distortion, modulator }
+                : null
+            }
+          />
         </div>
 
         {/* Oscillator 1 */}
@@ -610,6 +939,7 @@ function SynthControls({
             ]}
           />
           <ControlInput
+            param="osc1Octave"
             label="Octave"
             value={params.osc1Octave}
             onChange={(v) => handleChange("osc1Octave", v)}
@@ -619,6 +949,7 @@ function SynthControls({
             displayValue={params.osc1Octave.toString()}
           />
           <ControlInput
+            param="osc1Semitone"
             label="Semitone"
             value={params.osc1Semitone}
             onChange={(v) => handleChange("osc1Semitone", v)}
@@ -628,6 +959,7 @@ function SynthControls({
             displayValue={params.osc1Semitone.toString()}
           />
           <ControlInput
+            param="osc1Detune"
             label="Detune"
             value={params.osc1Detune}
             onChange={(v) => handleChange("osc1Detune", v)}
@@ -637,6 +969,7 @@ function SynthControls({
             displayValue={`${params.osc1Detune.toFixed(0)} cents`}
           />
           <ControlInput
+            param="osc1Shape"
             label="Shape"
             value={params.osc1Shape}
             onChange={(v) => handleChange("osc1Shape", v)}
@@ -662,6 +995,7 @@ function SynthControls({
             ]}
           />
           <ControlInput
+            param="osc2Octave"
             label="Octave"
             value={params.osc2Octave}
             onChange={(v) => handleChange("osc2Octave", v)}
@@ -671,6 +1005,7 @@ function SynthControls({
             displayValue={params.osc2Octave.toString()}
           />
           <ControlInput
+            param="osc2Semitone"
             label="Semitone"
             value={params.osc2Semitone}
             onChange={(v) => handleChange("osc2Semitone", v)}
@@ -680,6 +1015,7 @@ function SynthControls({
             displayValue={params.osc2Semitone.toString()}
           />
           <ControlInput
+            param="osc2Detune"
             label="Detune"
             value={params.osc2Detune}
             onChange={(v) => handleChange("osc2Detune", v)}
@@ -689,6 +1025,7 @@ function SynthControls({
             displayValue={`${params.osc2Detune.toFixed(0)} cents`}
           />
           <ControlInput
+            param="osc2Shape"
             label="Shape"
             value={params.osc2Shape}
             onChange={(v) => handleChange("osc2Shape", v)}
@@ -702,6 +1039,7 @@ function SynthControls({
         {/* Oscillator Mix */}
         <ControlSection title="🎚️ Oscillator Mix">
           <ControlInput
+            param="oscMix"
             label="OSC 1 / OSC 2"
             value={params.oscMix}
             onChange={(v) => handleChange("oscMix", v)}
@@ -711,6 +1049,7 @@ function SynthControls({
             displayValue={`${(params.oscMix * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="ringMod"
             label="Ring Mod"
             value={params.ringMod}
             onChange={(v) => handleChange("ringMod", v)}
@@ -724,6 +1063,7 @@ function SynthControls({
         {/* Amp Envelope */}
         <ControlSection title="📊 Amp Envelope">
           <ControlInput
+            param="attack"
             label="Attack"
             value={params.attack}
             onChange={(v) => handleChange("attack", v)}
@@ -733,6 +1073,7 @@ function SynthControls({
             displayValue={`${(params.attack * 1000).toFixed(0)}ms`}
           />
           <ControlInput
+            param="decay"
             label="Decay"
             value={params.decay}
             onChange={(v) => handleChange("decay", v)}
@@ -742,6 +1083,7 @@ function SynthControls({
             displayValue={`${(params.decay * 1000).toFixed(0)}ms`}
           />
           <ControlInput
+            param="sustain"
             label="Sustain"
             value={params.sustain}
             onChange={(v) => handleChange("sustain", v)}
@@ -751,6 +1093,7 @@ function SynthControls({
             displayValue={params.sustain.toFixed(2)}
           />
           <ControlInput
+            param="release"
             label="Release"
             value={params.release}
             onChange={(v) => handleChange("release", v)}
@@ -764,6 +1107,7 @@ function SynthControls({
         {/* Amp */}
         <ControlSection title="🔊 Amp">
           <ControlInput
+            param="volume"
             label="Volume"
             value={params.volume}
             onChange={(v) => handleChange("volume", v)}
@@ -773,6 +1117,7 @@ function SynthControls({
             displayValue={`${params.volume.toFixed(1)}dB`}
           />
           <ControlInput
+            param="drive"
             label="Drive"
             value={params.drive}
             onChange={(v) => handleChange("drive", v)}
@@ -798,6 +1143,7 @@ function SynthControls({
             ]}
           />
           <ControlInput
+            param="filterQ"
             label="Resonance"
             value={params.filterQ}
             onChange={(v) => handleChange("filterQ", v)}
@@ -807,6 +1153,7 @@ function SynthControls({
             displayValue={params.filterQ.toFixed(1)}
           />
           <ControlInput
+            param="filterFreq"
             label="Cutoff"
             value={params.filterFreq}
             onChange={(v) => handleChange("filterFreq", v)}
@@ -816,6 +1163,7 @@ function SynthControls({
             displayValue={`${params.filterFreq.toFixed(0)}Hz`}
           />
           <ControlInput
+            param="filterKeyTrack"
             label="Key Track"
             value={params.filterKeyTrack}
             onChange={(v) => handleChange("filterKeyTrack", v)}
@@ -825,6 +1173,7 @@ function SynthControls({
             displayValue={`${(params.filterKeyTrack * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="filterEnvAmount"
             label="Env Amt"
             value={params.filterEnvAmount}
             onChange={(v) => handleChange("filterEnvAmount", v)}
@@ -834,6 +1183,7 @@ function SynthControls({
             displayValue={`${(params.filterEnvAmount * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="filterAttack"
             label="Attack"
             value={params.filterAttack}
             onChange={(v) => handleChange("filterAttack", v)}
@@ -843,6 +1193,7 @@ function SynthControls({
             displayValue={`${(params.filterAttack * 1000).toFixed(0)}ms`}
           />
           <ControlInput
+            param="filterDecay"
             label="Decay"
             value={params.filterDecay}
             onChange={(v) => handleChange("filterDecay", v)}
@@ -852,6 +1203,7 @@ function SynthControls({
             displayValue={`${(params.filterDecay * 1000).toFixed(0)}ms`}
           />
           <ControlInput
+            param="filterSustain"
             label="Sustain"
             value={params.filterSustain}
             onChange={(v) => handleChange("filterSustain", v)}
@@ -861,6 +1213,7 @@ function SynthControls({
             displayValue={params.filterSustain.toFixed(2)}
           />
           <ControlInput
+            param="filterRelease"
             label="Release"
             value={params.filterRelease}
             onChange={(v) => handleChange("filterRelease", v)}
@@ -870,6 +1223,7 @@ function SynthControls({
             displayValue={`${(params.filterRelease * 1000).toFixed(0)}ms`}
           />
           <ControlInput
+            param="filterBaseFreq"
             label="Base Freq"
             value={params.filterBaseFreq}
             onChange={(v) => handleChange("filterBaseFreq", v)}
@@ -879,6 +1233,7 @@ function SynthControls({
             displayValue={`${params.filterBaseFreq.toFixed(0)}Hz`}
           />
           <ControlInput
+            param="filterOctaves"
             label="Octaves"
             value={params.filterOctaves}
             onChange={(v) => handleChange("filterOctaves", v)}
@@ -892,6 +1247,7 @@ function SynthControls({
         {/* Portamento */}
         <ControlSection title="🎹 Portamento">
           <ControlInput
+            param="portamento"
             label="Time"
             value={params.portamento}
             onChange={(v) => handleChange("portamento", v)}
@@ -928,6 +1284,7 @@ function SynthControls({
             ]}
           />
           <ControlInput
+            param="lfoRate"
             label="Speed"
             value={params.lfoRate}
             onChange={(v) => handleChange("lfoRate", v)}
@@ -937,6 +1294,7 @@ function SynthControls({
             displayValue={`${params.lfoRate.toFixed(1)}Hz`}
           />
           <ControlInput
+            param="lfoOsc1Amount"
             label="OSC 1"
             value={params.lfoOsc1Amount}
             onChange={(v) => handleChange("lfoOsc1Amount", v)}
@@ -946,6 +1304,7 @@ function SynthControls({
             displayValue={`${(params.lfoOsc1Amount * 100).toFixed(1)}%`}
           />
           <ControlInput
+            param="lfoOsc2Amount"
             label="OSC 2"
             value={params.lfoOsc2Amount}
             onChange={(v) => handleChange("lfoOsc2Amount", v)}
@@ -955,6 +1314,7 @@ function SynthControls({
             displayValue={`${(params.lfoOsc2Amount * 100).toFixed(1)}%`}
           />
           <ControlInput
+            param="lfoFilterAmount"
             label="Filter"
             value={params.lfoFilterAmount}
             onChange={(v) => handleChange("lfoFilterAmount", v)}
@@ -964,6 +1324,7 @@ function SynthControls({
             displayValue={`${(params.lfoFilterAmount * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="lfoAmpAmount"
             label="Amp"
             value={params.lfoAmpAmount}
             onChange={(v) => handleChange("lfoAmpAmount", v)}
@@ -972,20 +1333,154 @@ function SynthControls({
             step={0.01}
             displayValue={`${(params.lfoAmpAmount * 100).toFixed(0)}%`}
           />
+        </ControlSection>
+
+        {/* Modulation Matrix */}
+        <ControlSection title="🔀 Mod Matrix">
           <ControlInput
-            label="Depth"
-            value={params.lfoDepth}
-            onChange={(v) => handleChange("lfoDepth", v)}
+            label="LFO 2 Waveform"
+            value={params.modMatrix.lfo2Type}
+            onChange={(v) => handleModChange("lfo2Type", v)}
+            type="select"
+            options={[
+              { value: "sine", label: "∿ Sine" },
+              { value: "triangle", label: "△ Triangle" },
+              { value: "sawtooth", label: "⟋ Sawtooth" },
+              { value: "square", label: "⊓ Square" },
+            ]}
+          />
+          <ControlInput
+            param="modMatrix.lfo2Rate"
+            label="LFO 2 Speed"
+            value={params.modMatrix.lfo2Rate}
+            onChange={(v) => handleModChange("lfo2Rate", v)}
+            min={0}
+            max={20}
+            step={0.1}
+            displayValue={`${params.modMatrix.lfo2Rate.toFixed(1)}Hz`}
+          />
+          <ControlInput
+            param="modMatrix.envAttack"
+            label="Mod Env Attack"
+            value={params.modMatrix.envAttack}
+            onChange={(v) => handleModChange("envAttack", v)}
+            min={0.001}
+            max={2}
+            step={0.001}
+            displayValue={`${(params.modMatrix.envAttack * 1000).toFixed(0)}ms`}
+          />
+          <ControlInput
+            param="modMatrix.envDecay"
+            label="Mod Env Decay"
+            value={params.modMatrix.envDecay}
+            onChange={(v) => handleModChange("envDecay", v)}
+            min={0.001}
+            max={2}
+            step={0.001}
+            displayValue={`${(params.modMatrix.envDecay * 1000).toFixed(0)}ms`}
+          />
+          <ControlInput
+            param="modMatrix.envSustain"
+            label="Mod Env Sustain"
+            value={params.modMatrix.envSustain}
+            onChange={(v) => handleModChange("envSustain", v)}
             min={0}
             max={1}
             step={0.01}
-            displayValue={`${(params.lfoDepth * 100).toFixed(0)}%`}
+            displayValue={`${(params.modMatrix.envSustain * 100).toFixed(0)}%`}
           />
+          <ControlInput
+            param="modMatrix.envRelease"
+            label="Mod Env Release"
+            value={params.modMatrix.envRelease}
+            onChange={(v) => handleModChange("envRelease", v)}
+            min={0.001}
+            max={5}
+            step={0.001}
+            displayValue={`${(params.modMatrix.envRelease * 1000).toFixed(0)}ms`}
+          />
+
+          {/* Slots: source -> destination with a bipolar amount */}
+          {params.modMatrix.slots.map((slot, index) => (
+            <div
+              key={index}
+              style={{
+                gridColumn: "1 / -1",
+                display: "grid",
+                gridTemplateColumns: "1fr 1fr 1fr auto",
+                gap: "15px",
+                alignItems: "end",
+              }}
+            >
+              <ControlInput
+                label={`Slot ${index + 1} Source`}
+                value={slot.source}
+                onChange={(v) => handleSlotChange(index, "source", v)}
+                type="select"
+                options={Object.entries(MOD_SOURCES).map(([value, label]) => ({
+                  value,
+                  label,
+                }))}
+              />
+              <ControlInput
+                label="Destination"
+                value={slot.destination}
+                onChange={(v) => handleSlotChange(index, "destination", v)}
+                type="select"
+                options={Object.entries(MOD_DESTINATIONS).map(
+                  ([value, info]) => ({ value, label: info.label }),
+                )}
+              />
+              <ControlInput
+                param={`modMatrix.slots.${index}.amount`}
+                label="Amount"
+                value={slot.amount}
+                onChange={(v) => handleSlotChange(index, "amount", v)}
+                min={-1}
+                max={1}
+                step={0.01}
+                displayValue={`${slot.amount > 0 ? "+" : ""}${(slot.amount * 100).toFixed(0)}%`}
+              />
+              <button
+                onClick={() => removeModSlot(index)}
+                style={{
+                  padding: "6px 10px",
+                  fontSize: "12px",
+                  cursor: "pointer",
+                  backgroundColor: "#f44336",
+                  color: "white",
+                  border: "none",
+                  borderRadius: "4px",
+                }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {params.modMatrix.slots.length < MAX_MOD_SLOTS && (
+            <div style={{ gridColumn: "1 / -1" }}>
+              <button
+                onClick={addModSlot}
+                style={{
+                  padding: "6px 12px",
+                  fontSize: "12px",
+                  cursor: "pointer",
+                  backgroundColor: "#2196F3",
+                  color: "white",
+                  border: "none",
+                  borderRadius: "4px",
+                }}
+              >
+                + Add Slot
+              </button>
+            </div>
+          )}
         </ControlSection>
 
         {/* Delay */}
         <ControlSection title="⏱️ Delay">
           <ControlInput
+            param="delayTime"
             label="Time"
             value={params.delayTime}
             onChange={(v) => handleChange("delayTime", v)}
@@ -995,6 +1490,7 @@ function SynthControls({
             displayValue={`${(params.delayTime * 1000).toFixed(0)}ms`}
           />
           <ControlInput
+            param="delayFeedback"
             label="Feedback"
             value={params.delayFeedback}
             onChange={(v) => handleChange("delayFeedback", v)}
@@ -1004,6 +1500,7 @@ function SynthControls({
             displayValue={`${(params.delayFeedback * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="delayWet"
             label="Wet"
             value={params.delayWet}
             onChange={(v) => handleChange("delayWet", v)}
@@ -1017,6 +1514,7 @@ function SynthControls({
         {/* Reverb */}
         <ControlSection title="🌌 Reverb">
           <ControlInput
+            param="reverbWet"
             label="Amount"
             value={params.reverbWet}
             onChange={(v) => handleChange("reverbWet", v)}
@@ -1026,6 +1524,7 @@ function SynthControls({
             displayValue={`${(params.reverbWet * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="reverbSize"
             label="Size"
             value={params.reverbSize}
             onChange={(v) => handleChange("reverbSize", v)}
@@ -1035,6 +1534,7 @@ function SynthControls({
             displayValue={`${(params.reverbSize * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="reverbStereo"
             label="Stereo"
             value={params.reverbStereo}
             onChange={(v) => handleChange("reverbStereo", v)}
@@ -1044,6 +1544,7 @@ function SynthControls({
             displayValue={`${(params.reverbStereo * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="reverbDamping"
             label="Damping"
             value={params.reverbDamping}
             onChange={(v) => handleChange("reverbDamping", v)}
@@ -1053,6 +1554,7 @@ function SynthControls({
             displayValue={`${(params.reverbDamping * 100).toFixed(0)}%`}
           />
           <ControlInput
+            param="reverbDecay"
             label="Decay"
             value={params.reverbDecay}
             onChange={(v) => handleChange("reverbDecay", v)}
@@ -1064,6 +1566,43 @@ function SynthControls({
         </ControlSection>
       </div>
 
+      {/* MIDI Learn Menu */}
+      {learnMenu && (
+        <div
+          style={{ position: "fixed", inset: 0, zIndex: 1100 }}
+          onClick={(e) => {
+            e.stopPropagation();
+            setLearnMenu(null);
+          }}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setLearnMenu(null);
+          }}
+        >
+          <LearnMenuBox
+            menu={learnMenu}
+            mapping={getMapping(learnMenu.param)}
+            learning={learningParam === learnMenu.param}
+            onLearn={() => {
+              midiLearn.learn({
+                track: trackNumber - 1,
+                param: learnMenu.param,
+                min: learnMenu.min,
+                max: learnMenu.max,
+                step: learnMenu.step,
+              });
+              setLearnMenu(null);
+            }}
+            onCancelLearn={() => midiLearn.learn(null)}
+            onUpdate={updateMapping}
+            onRemove={(mapping) => {
+              removeMapping(mapping);
+              setLearnMenu(null);
+            }}
+          />
+        </div>
+      )}
+
       {/* Preset Browser Modal */}
       {showPresetBrowser && (
         <PresetBrowser
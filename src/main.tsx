@@ -1,408 +1,281 @@
 import { useEffect, useRef, useState } from "react";
 import { createRoot } from "react-dom/client";
 import * as Tone from "tone";
+import type { TrackSettings } from "./audio/DualOscVoice";
 import {
-  Monophonic,
-  MonophonicOptions,
-} from "tone/build/esm/instrument/Monophonic";
+  applyParamLocks,
+  getParamValue,
+  type ParamLocks,
+} from "./audio/settingPaths";
+import {
+  applyTrackSettings,
+  createTrack,
+  disposeTrack,
+  type Track,
+} from "./audio/trackChain";
+import type { Midi } from "@tonejs/midi";
+import MidiFileUploader from "./components/MidiFileUploader";
+import MidiInputPanel from "./components/MidiInputPanel";
+import MidiOutputPanel from "./components/MidiOutputPanel";
+import Keyboard from "./components/Keyboard";
+import MidiPlayer from "./components/MidiPlayer";
+import ProjectMenu from "./components/ProjectMenu";
 import StepSequencer from "./components/StepSequencer";
 import SynthControls from "./components/SynthControls";
+import { ClockSync } from "./midi/ClockSync";
+import { LiveInput } from "./midi/LiveInput";
+import { MidiLearn } from "./midi/MidiLearn";
+import { remapCcMappings, type CcMapping } from "./midi/ccMapping";
+import { DEFAULT_BEND_RANGE } from "./midi/midiMessages";
+import { DEFAULT_TRACK_OUTPUT, type TrackMidiOutput } from "./midi/midiOutput";
 import { getPresetByName } from "./presets/instrumentPresets";
-
-// Configure number of tracks (change this to add/remove tracks)
-const NUM_TRACKS = 4;
-
-interface Track {
-  synth: Tone.PolySynth<any> | null;
-  reverb: Tone.JCReverb | null;
-  lfo: Tone.LFO | null;
-  delay: Tone.FeedbackDelay | null;
-  filter: Tone.Filter | null;
-  distortion: Tone.Distortion | null;
-}
-
-// Custom voice class for dual oscillator synthesis
-class DualOscVoice extends Monophonic<MonophonicOptions> {
-  readonly name = "DualOscVoice";
-
-  // Required by Monophonic base class
-  readonly frequency: Tone.Signal<"frequency">;
-  readonly detune: Tone.Signal<"cents">;
-
-  private osc1: Tone.Oscillator;
-  private osc2: Tone.Oscillator;
-  private mixer: Tone.Gain;
-  private envelope: Tone.AmplitudeEnvelope;
-  private internalFilter: Tone.Filter;
-  private filterEnvelope: Tone.FrequencyEnvelope;
-
-  static getDefaults() {
-    return Object.assign(Monophonic.getDefaults(), {
-      osc1Type: "sine",
-      osc1Octave: 0,
-      osc1Semitone: 0,
-      osc1Detune: 0,
-      osc2Type: "sine",
-      osc2Octave: 0,
-      osc2Semitone: 0,
-      osc2Detune: 0,
-      oscMix: 0.5,
-      ringMod: 0,
-      attack: 0.01,
-      decay: 0.1,
-      sustain: 0.5,
-      release: 1,
-      filterType: "lowpass",
-      filterFreq: 1000,
-      filterQ: 1,
-      filterAttack: 0.01,
-      filterDecay: 0.1,
-      filterSustain: 0.5,
-      filterRelease: 1,
-      filterBaseFreq: 200,
-      filterOctaves: 4,
-    });
+import {
+  PROJECT_VERSION,
+  createNewProject,
+  hasStoredProject,
+  readStoredProject,
+  writeStoredProject,
+  type Project,
+  type SequencerProject,
+} from "./project/project";
+import { AutomationRecorder } from "./sequencer/AutomationRecorder";
+import { LockRecorder } from "./sequencer/LockRecorder";
+import {
+  applyTrackOperation,
+  fitToTrackCount,
+  type TrackOperation,
+} from "./sequencer/trackOperations";
+
+// Preset used for added tracks
+const NEW_TRACK_PRESET = "Piano";
+
+// Deleted tracks are disposed once their last notes have released (ms)
+const TRACK_DISPOSE_DELAY = 6000;
+
+// The saved project, or a new one if nothing was saved or the saved one
+// can't be read, with the reason
+function loadSession(): { project: Project; error: string | null } {
+  if (!hasStoredProject()) return { project: createNewProject(), error: null };
+  try {
+    return { project: readStoredProject(), error: null };
+  } catch (e) {
+    console.error("Saved project is invalid:", e);
+    return {
+      project: createNewProject(),
+      error: `The saved project could not be loaded (${(e as Error).message}), so a new project was started. Import a backup to restore your work.`,
+    };
   }
+}
 
-  constructor(options?: Partial<TrackSettings>) {
-    super(options);
-
-    const settings = options as TrackSettings;
+interface SynthKeyboardProps {
+  onProjectChange: () => void;
+}
 
-    // Create frequency and detune signals required by Monophonic
-    this.frequency = new Tone.Signal({
-      value: 440,
-      units: "frequency",
-    });
+function SynthKeyboard({ onProjectChange }: SynthKeyboardProps) {
+  // Dynamic array of synths and effects, one entry per track
+  const tracksRef = useRef<Track[]>([]);
 
-    this.detune = new Tone.Signal({
-      value: 0,
-      units: "cents",
-    });
+  // The project the session starts from
+  const [session] = useState(loadSession);
+  const { project } = session;
 
-    // Calculate detune values for each oscillator
-    const osc1DetuneTotal =
-      (settings?.osc1Octave || 0) * 1200 +
-      (settings?.osc1Semitone || 0) * 100 +
-      (settings?.osc1Detune || 0);
-
-    const osc2DetuneTotal =
-      (settings?.osc2Octave || 0) * 1200 +
-      (settings?.osc2Semitone || 0) * 100 +
-      (settings?.osc2Detune || 0);
-
-    // Create oscillators
-    this.osc1 = new Tone.Oscillator({
-      type: settings?.osc1Type || "sine",
-      detune: osc1DetuneTotal,
-    }).start();
-
-    this.osc2 = new Tone.Oscillator({
-      type: settings?.osc2Type || "sine",
-      detune: osc2DetuneTotal,
-    }).start();
-
-    // Connect frequency and detune signals to oscillators
-    this.frequency.connect(this.osc1.frequency);
-    this.frequency.connect(this.osc2.frequency);
-    this.detune.connect(this.osc1.detune);
-    this.detune.connect(this.osc2.detune);
-
-    // Use a gain node to mix oscillators
-    // oscMix: 0 = only osc1, 1 = only osc2
-    const osc1Gain = new Tone.Gain(1 - (settings?.oscMix || 0.5));
-    const osc2Gain = new Tone.Gain(settings?.oscMix || 0.5);
-
-    this.osc1.connect(osc1Gain);
-    this.osc2.connect(osc2Gain);
-
-    // Mixer sums both oscillators
-    this.mixer = new Tone.Gain(0.5); // Reduce overall level to prevent clipping
-    osc1Gain.connect(this.mixer);
-    osc2Gain.connect(this.mixer);
-
-    // Internal filter (separate from track-level filter)
-    this.internalFilter = new Tone.Filter({
-      type: settings?.filterType || "lowpass",
-      frequency: settings?.filterFreq || 1000,
-      Q: settings?.filterQ || 1,
-    });
+  // Store settings per track to prevent sharing
+  const [trackSettings, setTrackSettings] = useState<TrackSettings[]>(() =>
+    project.tracks.map((track) => track.settings),
+  );
+  // Latest settings for mapped MIDI controls, which change them between renders
+  const trackSettingsRef = useRef<TrackSettings[]>(trackSettings);
+  trackSettingsRef.current = trackSettings;
 
-    // Filter envelope
-    this.filterEnvelope = new Tone.FrequencyEnvelope({
-      attack: settings?.filterAttack || 0.01,
-      decay: settings?.filterDecay || 0.1,
-      sustain: settings?.filterSustain || 0.5,
-      release: settings?.filterRelease || 1,
-      baseFrequency: settings?.filterBaseFreq || 200,
-      octaves: settings?.filterOctaves || 4,
-    });
-    this.filterEnvelope.connect(this.internalFilter.frequency);
-
-    // Amp envelope
-    this.envelope = new Tone.AmplitudeEnvelope({
-      attack: settings?.attack || 0.01,
-      decay: settings?.decay || 0.1,
-      sustain: settings?.sustain || 0.5,
-      release: settings?.release || 1,
-    });
+  // Hardware controls mapped to track settings (part of the project)
+  const [ccMappings, setCcMappings] = useState<CcMapping[]>(project.ccMappings);
 
-    // Connect signal chain to output (output is provided by Monophonic base class)
-    this.mixer.chain(this.internalFilter, this.envelope, this.output);
-  }
+  // The sequencer's parts of the project, as it last reported them
+  const [sequencerProject, setSequencerProject] =
+    useState<SequencerProject>(project);
 
-  protected _triggerEnvelopeAttack(
-    time?: Tone.Unit.Time,
-    velocity: number = 1,
-  ): void {
-    this.envelope.triggerAttack(time, velocity);
-    this.filterEnvelope.triggerAttack(time);
-  }
+  // Track volume and mute controls (separate from synth settings)
+  const [trackVolumes, setTrackVolumes] = useState<number[]>(() =>
+    project.tracks.map((track) => track.volume),
+  );
 
-  protected _triggerEnvelopeRelease(time?: Tone.Unit.Time): void {
-    this.envelope.triggerRelease(time);
-    this.filterEnvelope.triggerRelease(time);
+  const [trackMutes, setTrackMutes] = useState<boolean[]>(() =>
+    project.tracks.map((track) => track.mute),
+  );
 
-    // Schedule onsilence callback after release completes
-    // Add a small buffer to ensure envelope is fully released
-    const releaseDuration = Tone.Time(this.envelope.release).toSeconds() + 0.1;
+  // Live input: pitch bend range (part of the project) and the MIDI channel
+  // each track listens on (a setup of this machine's devices)
+  const [trackBendRanges, setTrackBendRanges] = useState<number[]>(() =>
+    project.tracks.map((track) => track.bendRange),
+  );
 
-    this.context.setTimeout(() => {
-      // Check if voice is actually silent before calling onsilence
-      const level = this.getLevelAtTime(this.now());
-      if (level < 0.001 && this.onsilence) {
-        this.onsilence(this);
+  const [trackMidiChannels, setTrackMidiChannels] = useState<(number | null)[]>(
+    () => {
+      const saved = localStorage.getItem("synth-midi-channels");
+      if (saved) {
+        try {
+          return fitToTrackCount(
+            JSON.parse(saved),
+            trackSettings.length,
+            () => null,
+          );
+        } catch (e) {
+          console.error("Failed to parse saved MIDI channels:", e);
+        }
       }
-    }, releaseDuration);
-  }
-
-  getLevelAtTime(time: Tone.Unit.Time): number {
-    return this.envelope.getValueAtTime(time);
-  }
-
-  dispose(): this {
-    super.dispose();
-    this.frequency.dispose();
-    this.detune.dispose();
-    this.osc1.dispose();
-    this.osc2.dispose();
-    this.mixer.dispose();
-    this.envelope.dispose();
-    this.internalFilter.dispose();
-    this.filterEnvelope.dispose();
-    return this;
-  }
-}
-
-interface TrackSettings {
-  // Oscillator 1
-  osc1Type: "sine" | "square" | "sawtooth" | "triangle";
-  osc1Octave: number;
-  osc1Semitone: number;
-  osc1Detune: number;
-  osc1Shape: number;
-
-  // Oscillator 2
-  osc2Type: "sine" | "square" | "sawtooth" | "triangle";
-  osc2Octave: number;
-  osc2Semitone: number;
-  osc2Detune: number;
-  osc2Shape: number;
-
-  // Oscillator Mix
-  oscMix: number;
-  ringMod: number;
-
-  // Amp Envelope
-  attack: number;
-  decay: number;
-  sustain: number;
-  release: number;
-
-  // Amp
-  volume: number;
-  drive: number;
-
-  // Filter
-  filterType: "lowpass" | "highpass" | "bandpass" | "notch";
-  filterFreq: number;
-  filterQ: number;
-  filterEnvAmount: number;
-  filterKeyTrack: number;
-
-  // Filter Envelope
-  filterAttack: number;
-  filterDecay: number;
-  filterSustain: number;
-  filterRelease: number;
-  filterBaseFreq: number;
-  filterOctaves: number;
-
-  // Portamento
-  portamento: number;
-  portamentoMode: "always" | "legato" | "off";
-
-  // LFO
-  lfoRate: number;
-  lfoDepth: number;
-  lfoType: "sine" | "square" | "sawtooth" | "triangle";
-  lfoOsc1Amount: number;
-  lfoOsc2Amount: number;
-  lfoFilterAmount: number;
-  lfoAmpAmount: number;
-
-  // Delay
-  delayTime: number;
-  delayFeedback: number;
-  delayWet: number;
-
-  // Reverb
-  reverbDecay: number;
-  reverbWet: number;
-  reverbSize: number;
-  reverbStereo: number;
-  reverbDamping: number;
-}
-
-function SynthKeyboard() {
-  // Dynamic arrays for synths and reverbs
-  const tracksRef = useRef<Track[]>(
-    Array(NUM_TRACKS)
-      .fill(null)
-      .map(() => ({
-        synth: null,
-        reverb: null,
-        lfo: null,
-        delay: null,
-        filter: null,
-        distortion: null,
-      })),
+      return Array(trackSettings.length).fill(null);
+    },
   );
 
-  // Store settings per track to prevent sharing
-  // Initialize with preset instruments or load from localStorage
-  const [trackSettings, setTrackSettings] = useState<TrackSettings[]>(() => {
-    const saved = localStorage.getItem("synth-track-settings");
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        console.error("Failed to parse saved track settings:", e);
+  // MIDI output per track and the outputs following the transport (also a
+  // setup of this machine's devices)
+  const [trackMidiOutputs, setTrackMidiOutputs] = useState<TrackMidiOutput[]>(
+    () => {
+      const saved = localStorage.getItem("synth-midi-outputs");
+      if (saved) {
+        try {
+          return fitToTrackCount(
+            JSON.parse(saved),
+            trackSettings.length,
+            () => DEFAULT_TRACK_OUTPUT,
+          );
+        } catch (e) {
+          console.error("Failed to parse saved MIDI outputs:", e);
+        }
       }
-    }
-    return [
-      // Track 1 - Bass
-      getPresetByName("Bass")!.settings,
-      // Track 2 - Piano
-      getPresetByName("Piano")!.settings,
-      // Track 3 - Pad
-      getPresetByName("Pad")!.settings,
-      // Track 4 - Lead
-      getPresetByName("Lead")!.settings,
-    ];
-  });
+      return Array(trackSettings.length).fill(DEFAULT_TRACK_OUTPUT);
+    },
+  );
 
-  // Track volume and mute controls (separate from synth settings)
-  const [trackVolumes, setTrackVolumes] = useState<number[]>(() => {
-    const saved = localStorage.getItem("synth-track-volumes");
-    if (saved) {
-      try {
-        return JSON.parse(saved);
-      } catch (e) {
-        console.error("Failed to parse saved track volumes:", e);
-      }
-    }
-    return Array(NUM_TRACKS).fill(0); // 0 dB default
-  });
+  const [midiClockSource, setMidiClockSource] = useState<string | null>(() =>
+    localStorage.getItem("synth-midi-clock-source"),
+  );
 
-  const [trackMutes, setTrackMutes] = useState<boolean[]>(() => {
-    const saved = localStorage.getItem("synth-track-mutes");
+  const [midiClockOutputs, setMidiClockOutputs] = useState<string[]>(() => {
+    const saved = localStorage.getItem("synth-midi-clock-outputs");
     if (saved) {
       try {
         return JSON.parse(saved);
       } catch (e) {
-        console.error("Failed to parse saved track mutes:", e);
+        console.error("Failed to parse saved MIDI clock outputs:", e);
       }
     }
-    return Array(NUM_TRACKS).fill(false);
+    return [];
   });
 
-  const [error, setError] = useState<string | null>(null);
+  // Report a saved project that couldn't be loaded
+  const [error, setError] = useState<string | null>(session.error);
+  // MIDI file played through the synth tracks along with the sequencer
+  const [midiFile, setMidiFile] = useState<{
+    midi: Midi;
+    fileName: string;
+    id: number;
+  } | null>(null);
   const [isSynthControlsOpen, setIsSynthControlsOpen] =
     useState<boolean>(false);
   const [activeTrack, setActiveTrack] = useState<number>(1); // Which track's synth to configure
+  // Notes played live, shared by the inputs and the recorder
+  const liveInputRef = useRef<LiveInput>(new LiveInput());
+  const [armedTrack, setArmedTrack] = useState<number | null>(null); // Record-armed track index
+  // External MIDI clock the transport follows, from the input panel
+  const clockSyncRef = useRef<ClockSync>(new ClockSync());
+  // A step held in the sequencer takes knob moves of its track as locks,
+  // and while automation records they go into the playing pattern
+  const lockRecorderRef = useRef<LockRecorder>(new LockRecorder());
+  const automationRecorderRef = useRef<AutomationRecorder>(
+    new AutomationRecorder(),
+  );
+  // Values mapped controls recorded per track in the current take
+  const recordedValuesRef = useRef<ParamLocks[]>([]);
+  // Mapped controls start from the values they locked or recorded last
+  const midiLearnRef = useRef<MidiLearn>(
+    new MidiLearn((track) => {
+      const settings = trackSettingsRef.current[track];
+      const held = lockRecorderRef.current.held;
+      if (!settings) return settings;
+      if (held?.track === track) return applyParamLocks(settings, held.locks);
+      const recorded = recordedValuesRef.current[track];
+      return recorded ? applyParamLocks(settings, recorded) : settings;
+    }),
+  );
+
+  // Mapped controls change settings live: on the track's voices and effects
+  // at once, and in the project
+  useEffect(() => {
+    midiLearnRef.current.setMappings(ccMappings);
+  }, [ccMappings]);
+
+  useEffect(
+    () =>
+      midiLearnRef.current.subscribe((event) => {
+        if (event.type === "learned") {
+          const { mapping } = event;
+          // A setting follows one control, the one learned last
+          setCcMappings((prev) => [
+            ...prev.filter(
+              (m) => m.track !== mapping.track || m.param !== mapping.param,
+            ),
+            mapping,
+          ]);
+        } else if (event.type === "change") {
+          const recorder = lockRecorderRef.current;
+          const value = getParamValue(event.settings, event.param);
+          if (recorder.held?.track === event.track) {
+            recorder.setLock(event.param, value);
+            return;
+          }
+          if (
+            value !== null &&
+            automationRecorderRef.current.record({
+              track: event.track,
+              param: event.param,
+              value,
+              min: Math.min(event.min, event.max),
+              max: Math.max(event.min, event.max),
+            })
+          ) {
+            const recorded = recordedValuesRef.current;
+            recorded[event.track] = {
+              ...recorded[event.track],
+              [event.param]: value,
+            };
+            return;
+          }
+          const updated = [...trackSettingsRef.current];
+          updated[event.track] = event.settings;
+          trackSettingsRef.current = updated;
+          setTrackSettings(updated);
+          const track = tracksRef.current[event.track];
+          if (track) applyTrackSettings(track, event.settings);
+        }
+      }),
+    [],
+  );
+
+  // Each take starts from the tracks' own settings
+  useEffect(
+    () =>
+      automationRecorderRef.current.subscribe((event) => {
+        if (event.type === "recording") recordedValuesRef.current = [];
+      }),
+    [],
+  );
 
   // Initialize all tracks dynamically
   useEffect(() => {
     // Check if already initialized
-    if (tracksRef.current[0].synth) return;
+    if (tracksRef.current.length > 0) return;
 
     // Create synth and effects for each track
-    for (let i = 0; i < NUM_TRACKS; i++) {
-      const settings = trackSettings[i]; // Get track-specific settings
-
-      // Create filter for this track (independent instance for external effects)
-      const filter = new Tone.Filter({
-        type: settings.filterType,
-        frequency: settings.filterFreq,
-        Q: settings.filterQ,
-      });
-
-      // Create distortion for this track
-      const distortion = new Tone.Distortion({
-        distortion: settings.drive,
-        wet: settings.drive > 0 ? 1 : 0, // Full wet when drive enabled
-      });
-
-      // Create delay for this track
-      const delay = new Tone.FeedbackDelay({
-        delayTime: settings.delayTime,
-        feedback: settings.delayFeedback,
-        wet: settings.delayWet,
-      });
-
-      // Create reverb for this track
-      const reverb = new Tone.JCReverb({
-        roomSize: settings.reverbSize,
-        wet: settings.reverbWet,
-      });
-
-      // Chain: synth -> distortion -> filter -> delay -> reverb -> destination
-      distortion.connect(filter);
-      filter.connect(delay);
-      delay.connect(reverb);
-      reverb.toDestination();
-
-      // Create synth with dual oscillator voice
-      const synth = new Tone.PolySynth(DualOscVoice, {
-        // Pass all settings to the voice constructor
-        ...settings,
-      }).connect(distortion);
-
-      // Set max polyphony - very high to avoid voice stealing
-      synth.maxPolyphony = 128;
-
-      // Apply synth-level settings separately
-      synth.volume.value = settings.volume;
-      if (settings.portamento > 0) {
-        synth.set({ portamento: settings.portamento });
-      }
+    trackSettings.forEach((settings, i) => {
+      const track = createTrack(settings);
+      tracksRef.current.push(track);
 
       // Log synth setup
       console.log(
-        `[Track ${i + 1}] Synth created with maxPolyphony: ${synth.maxPolyphony}`,
+        `[Track ${i + 1}] Synth created with maxPolyphony: ${track.synth?.maxPolyphony}`,
       );
-
-      // Create LFO for this track (starts stopped, will be controlled by SynthControls)
-      const lfo = new Tone.LFO({
-        frequency: settings.lfoRate,
-        min: 0,
-        max: 0, // Depth controlled separately
-        type: settings.lfoType,
-      });
-
-      tracksRef.current[i] = { synth, reverb, lfo, delay, filter, distortion };
-    }
+    });
 
     // Log successful initialization
     console.log("✅ All tracks initialized successfully");
@@ -417,40 +290,81 @@ function SynthKeyboard() {
 
     return () => {
       // Clean up all tracks
-      tracksRef.current.forEach((track) => {
-        if (track.synth) {
-          track.synth.dispose();
-        }
-        if (track.reverb) {
-          track.reverb.dispose();
-        }
-        if (track.lfo) {
-          track.lfo.dispose();
-        }
-        if (track.delay) {
-          track.delay.dispose();
-        }
-        if (track.filter) {
-          track.filter.dispose();
-        }
-        if (track.distortion) {
-          track.distortion.dispose();
-        }
-      });
+      tracksRef.current.forEach(disposeTrack);
       // Reset refs
-      tracksRef.current = Array(NUM_TRACKS)
-        .fill(null)
-        .map(() => ({
-          synth: null,
-          reverb: null,
-          lfo: null,
-          delay: null,
-          filter: null,
-          distortion: null,
-        }));
+      tracksRef.current = [];
     };
   }, []);
 
+  // Add, duplicate, delete or reorder a track (playback keeps running)
+  const handleTrackOperation = (operation: TrackOperation) => {
+    const newSettings = getPresetByName(NEW_TRACK_PRESET)!.settings;
+    const settings = applyTrackOperation(
+      trackSettings,
+      operation,
+      (source) => source ?? newSettings,
+    );
+
+    // Added and duplicated tracks get their own audio nodes
+    const tracks = applyTrackOperation<Track | null>(
+      tracksRef.current,
+      operation,
+      () => null,
+    ).map((track, i) => track ?? createTrack(settings[i]));
+    if (operation.type === "delete") {
+      const removed = tracksRef.current[operation.index];
+      removed.synth?.releaseAll();
+      setTimeout(() => disposeTrack(removed), TRACK_DISPOSE_DELAY);
+    }
+    // Update in place so the sequencer's reference stays current
+    tracksRef.current.splice(0, tracksRef.current.length, ...tracks);
+
+    setTrackSettings(settings);
+    setTrackVolumes((prev) =>
+      applyTrackOperation(prev, operation, (source) => source ?? 0),
+    );
+    setTrackMutes((prev) =>
+      applyTrackOperation(prev, operation, (source) => source ?? false),
+    );
+    setTrackBendRanges((prev) =>
+      applyTrackOperation(
+        prev,
+        operation,
+        (source) => source ?? DEFAULT_BEND_RANGE,
+      ),
+    );
+    // A duplicate doesn't take over its source's channel
+    setTrackMidiChannels((prev) =>
+      applyTrackOperation(prev, operation, () => null),
+    );
+    setTrackMidiOutputs((prev) =>
+      applyTrackOperation(prev, operation, () => DEFAULT_TRACK_OUTPUT),
+    );
+
+    // Keep the settings dialog on the same track, close it if it was deleted
+    const order = applyTrackOperation(
+      trackSettings.map((_, i) => i),
+      operation,
+      () => -1,
+    );
+    // Mappings move with their tracks; a duplicate starts without any
+    setCcMappings((prev) => remapCcMappings(prev, order));
+    midiLearnRef.current.learn(null);
+    lockRecorderRef.current.hold(null);
+    recordedValuesRef.current = [];
+    const newIndex = order.indexOf(activeTrack - 1);
+    if (armedTrack !== null) {
+      const armedIndex = order.indexOf(armedTrack);
+      setArmedTrack(armedIndex === -1 ? null : armedIndex);
+    }
+    if (newIndex === -1) {
+      setIsSynthControlsOpen(false);
+      setActiveTrack(1);
+    } else {
+      setActiveTrack(newIndex + 1);
+    }
+  };
+
   // Apply track volume and mute settings
   useEffect(() => {
     tracksRef.current.forEach((track, i) => {
@@ -461,20 +375,57 @@ function SynthKeyboard() {
     });
   }, [trackVolumes, trackMutes]);
 
-  // Save track settings to localStorage
+  // Save the whole project whenever a part of it changes
+  useEffect(() => {
+    writeStoredProject({
+      ...sequencerProject,
+      version: PROJECT_VERSION,
+      tracks: trackSettings.map((settings, i) => ({
+        settings,
+        volume: trackVolumes[i],
+        mute: trackMutes[i],
+        bendRange: trackBendRanges[i],
+      })),
+      ccMappings,
+    });
+  }, [
+    sequencerProject,
+    trackSettings,
+    trackVolumes,
+    trackMutes,
+    trackBendRanges,
+    ccMappings,
+  ]);
+
+  // Save this machine's MIDI setup to localStorage
   useEffect(() => {
-    localStorage.setItem("synth-track-settings", JSON.stringify(trackSettings));
-  }, [trackSettings]);
+    localStorage.setItem(
+      "synth-midi-channels",
+      JSON.stringify(trackMidiChannels),
+    );
+  }, [trackMidiChannels]);
 
-  // Save track volumes to localStorage
   useEffect(() => {
-    localStorage.setItem("synth-track-volumes", JSON.stringify(trackVolumes));
-  }, [trackVolumes]);
+    localStorage.setItem(
+      "synth-midi-outputs",
+      JSON.stringify(trackMidiOutputs),
+    );
+  }, [trackMidiOutputs]);
+
+  useEffect(() => {
+    if (midiClockSource === null) {
+      localStorage.removeItem("synth-midi-clock-source");
+    } else {
+      localStorage.setItem("synth-midi-clock-source", midiClockSource);
+    }
+  }, [midiClockSource]);
 
-  // Save track mutes to localStorage
   useEffect(() => {
-    localStorage.setItem("synth-track-mutes", JSON.stringify(trackMutes));
-  }, [trackMutes]);
+    localStorage.setItem(
+      "synth-midi-clock-outputs",
+      JSON.stringify(midiClockOutputs),
+    );
+  }, [midiClockOutputs]);
 
   return (
     <div
@@ -490,6 +441,8 @@ function SynthKeyboard() {
         Create musical sequences with the step sequencer.
       </p>
 
+      <ProjectMenu onProjectChange={onProjectChange} onError={setError} />
+
       {error && (
         <div
           style={{
@@ -505,10 +458,59 @@ function SynthKeyboard() {
         </div>
       )}
 
+      {/* Live Playing */}
+      <MidiInputPanel
+        liveInput={liveInputRef.current}
+        tracks={tracksRef.current}
+        defaultTrack={armedTrack ?? activeTrack - 1}
+        trackChannels={trackMidiChannels}
+        bendRanges={trackBendRanges}
+        onChannelChange={(trackIndex, channel) => {
+          setTrackMidiChannels((prev) => {
+            const updated = [...prev];
+            updated[trackIndex] = channel;
+            return updated;
+          });
+        }}
+        onBendRangeChange={(trackIndex, range) => {
+          setTrackBendRanges((prev) => {
+            const updated = [...prev];
+            updated[trackIndex] = range;
+            return updated;
+          });
+        }}
+        midiLearn={midiLearnRef.current}
+        clockSync={clockSyncRef.current}
+        clockSource={midiClockSource}
+        onClockSourceChange={setMidiClockSource}
+      />
+
+      <MidiOutputPanel
+        trackOutputs={trackMidiOutputs}
+        clockOutputs={midiClockOutputs}
+        onTrackOutputChange={(trackIndex, output) => {
+          setTrackMidiOutputs((prev) => {
+            const updated = [...prev];
+            updated[trackIndex] = output;
+            return updated;
+          });
+        }}
+        onClockOutputsChange={setMidiClockOutputs}
+      />
+
+      <div style={{ marginBottom: "20px", overflowX: "auto" }}>
+        <Keyboard
+          liveInput={liveInputRef.current}
+          track={tracksRef.current[armedTrack ?? activeTrack - 1] ?? null}
+          captureKeys={!isSynthControlsOpen}
+        />
+      </div>
+
       {/* Step Sequencer */}
       <StepSequencer
         tracks={tracksRef.current}
-        numTracks={NUM_TRACKS}
+        numTracks={trackSettings.length}
+        trackSettings={trackSettings}
         trackVolumes={trackVolumes}
         trackMutes={trackMutes}
         onVolumeChange={(trackIndex, volume) => {
@@ -529,16 +531,51 @@ function SynthKeyboard() {
           setActiveTrack(track);
           setIsSynthControlsOpen(true);
         }}
+        onTrackOperation={handleTrackOperation}
+        midi={midiFile?.midi ?? null}
+        liveInput={liveInputRef.current}
+        armedTrack={armedTrack}
+        onArmTrack={setArmedTrack}
+        trackOutputs={trackMidiOutputs}
+        clockOutputs={midiClockOutputs}
+        clockSync={clockSyncRef.current}
+        syncToClock={midiClockSource !== null}
+        lockRecorder={lockRecorderRef.current}
+        automationRecorder={automationRecorderRef.current}
+        initialProject={project}
+        onProjectEdit={setSequencerProject}
+      />
+
+      {/* MIDI File Playback */}
+      <MidiFileUploader
+        onMidiLoaded={(data) =>
+          setMidiFile((prev) => ({
+            midi: data.originalMidi,
+            fileName: data.fileName,
+            id: (prev?.id ?? 0) + 1, // Fresh routing for every loaded file
+          }))
+        }
+        onError={setError}
       />
+      {midiFile && (
+        <MidiPlayer
+          key={midiFile.id}
+          midi={midiFile.midi}
+          fileName={midiFile.fileName}
+          tracks={tracksRef.current}
+          numTracks={trackSettings.length}
+          onClose={() => setMidiFile(null)}
+        />
+      )}
 
       {/* Synth Controls Modal */}
       <SynthControls
         synth={tracksRef.current[activeTrack - 1]?.synth || null}
         reverb={tracksRef.current[activeTrack - 1]?.reverb || null}
-        lfo={tracksRef.current[activeTrack - 1]?.lfo || null}
         delay={tracksRef.current[activeTrack - 1]?.delay || null}
         filter={tracksRef.current[activeTrack - 1]?.filter || null}
         distortion={tracksRef.current[activeTrack - 1]?.distortion || null}
+        modulator={tracksRef.current[activeTrack - 1]?.modulator || null}
         trackNumber={activeTrack}
         isOpen={isSynthControlsOpen}
         onClose={() => setIsSynthControlsOpen(false)}
@@ -550,10 +587,28 @@ function SynthKeyboard() {
             return updated;
           });
         }}
+        liveInput={liveInputRef.current}
+        midiLearn={midiLearnRef.current}
+        ccMappings={ccMappings}
+        onCcMappingsChange={setCcMappings}
+        lockRecorder={lockRecorderRef.current}
+        automationRecorder={automationRecorderRef.current}
       />
     </div>
   );
 }
 
+// Loading or resetting a project remounts the app so it starts from the new
+// project in storage
+function App() {
+  const [session, setSession] = useState<number>(0);
+  return (
+    <SynthKeyboard
+      key={session}
+      onProjectChange={() => setSession((prev) => prev + 1)}
+    />
+  );
+}
+
 const root = createRoot(document.getElementById("root")!);
-root.render(<SynthKeyboard />);
+root.render(<App />);
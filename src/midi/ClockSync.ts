@@ -0,0 +1,165 @@
+// Clock Sync
+// Follows another device's transport from its MIDI clock: start, stop,
+// continue and song position move the sequencer, and the tempo measured from
+// the clock pulses drives the transport, nudged to stay locked to them.
+// Received messages are already past, so they are played a lookahead late
+
+import * as Tone from "tone";
+import { CLOCKS_PER_MIDI_BEAT, type SyncMessage } from "./midiMessages";
+import { CLOCK_PPQ, fromMidiTimestamp } from "./midiOutput";
+
+export type ClockSyncEvent =
+  | { type: "start"; ticks: number; time: number } // Transport ticks, audio time
+  | { type: "stop" }
+  | { type: "tempo"; bpm: number | null }; // Null until pulses arrive
+
+type ClockSyncListener = (event: ClockSyncEvent) => void;
+
+// The tempo is averaged over a quarter note of pulses, and measured again
+// from scratch after a gap in the clock. Each measurement moves the tempo a
+// share of the way, so jitter in the pulses doesn't wobble it
+const TEMPO_WINDOW = CLOCK_PPQ;
+const MIN_TEMPO_PULSES = 6;
+const MAX_PULSE_GAP = 0.5;
+const TEMPO_SMOOTHING = 0.2;
+
+// Share of the drift from the clock made up over one quarter note, and the
+// most the tempo is bent to do so
+const PHASE_CORRECTION = 0.5;
+const MAX_TEMPO_CORRECTION = 0.05;
+
+// Drift beyond this (in quarter notes) isn't corrected by bending the tempo
+const MAX_DRIFT = 1;
+
+export class ClockSync {
+  private listeners = new Set<ClockSyncListener>();
+  private pulseTimes: number[] = []; // Audio times of the latest pulses
+  private tempo: number | null = null;
+  private reportedTempo: number | null = null;
+
+  // Pulses from the top of the song, where a continue resumes
+  private position = 0;
+  // A start or continue arrived; the transport starts on the next pulse
+  private pendingStart = false;
+  private running = false;
+
+  // Returns the function that removes the listener
+  subscribe(listener: ClockSyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get bpm(): number | null {
+    return this.tempo;
+  }
+
+  // `timestamp` is the message's receive time (performance.now() clock)
+  handleMessage(message: SyncMessage, timestamp: number): void {
+    const time = fromMidiTimestamp(timestamp) + Tone.getContext().lookAhead;
+
+    switch (message.type) {
+      case "clock":
+        this.measureTempo(time);
+        if (this.pendingStart) {
+          // The first pulse after a start is the downbeat
+          this.pendingStart = false;
+          this.running = true;
+          this.emit({ type: "start", ticks: this.toTicks(), time });
+        } else if (this.running) {
+          this.position++;
+          this.lock(time);
+        }
+        break;
+      case "start":
+        this.stop();
+        this.position = 0;
+        this.pendingStart = true;
+        break;
+      case "continue":
+        this.stop();
+        this.pendingStart = true;
+        break;
+      case "stop":
+        this.stop();
+        break;
+      case "songPosition":
+        // Only valid while stopped
+        if (!this.running) {
+          this.position = message.beats * CLOCKS_PER_MIDI_BEAT;
+        }
+        break;
+    }
+  }
+
+  // Stop following (the source was changed or unplugged)
+  reset(): void {
+    this.stop();
+    this.position = 0;
+    this.pulseTimes = [];
+    this.tempo = null;
+    this.reportTempo();
+  }
+
+  private stop(): void {
+    const wasPlaying = this.running || this.pendingStart;
+    this.running = false;
+    this.pendingStart = false;
+    if (wasPlaying) this.emit({ type: "stop" });
+  }
+
+  private toTicks(): number {
+    return (this.position * Tone.getTransport().PPQ) / CLOCK_PPQ;
+  }
+
+  private measureTempo(time: number): void {
+    const last = this.pulseTimes[this.pulseTimes.length - 1];
+    if (last !== undefined && time - last > MAX_PULSE_GAP) {
+      this.pulseTimes = [];
+    }
+    this.pulseTimes.push(time);
+    if (this.pulseTimes.length > TEMPO_WINDOW + 1) this.pulseTimes.shift();
+
+    const pulses = this.pulseTimes.length - 1;
+    if (pulses < MIN_TEMPO_PULSES) return;
+    const interval = (time - this.pulseTimes[0]) / pulses;
+    if (interval <= 0) return;
+    const measured = 60 / (interval * CLOCK_PPQ);
+    this.tempo =
+      this.tempo === null || pulses === MIN_TEMPO_PULSES
+        ? measured
+        : this.tempo + (measured - this.tempo) * TEMPO_SMOOTHING;
+    this.reportTempo();
+  }
+
+  // Bend the transport tempo so it catches up with (or waits for) the clock
+  private lock(time: number): void {
+    const transport = Tone.getTransport();
+    if (this.tempo === null || transport.state !== "started") return;
+
+    const drift =
+      (this.toTicks() - transport.getTicksAtTime(time)) / transport.PPQ;
+    const correction =
+      Math.abs(drift) > MAX_DRIFT
+        ? 0
+        : Math.max(
+            -MAX_TEMPO_CORRECTION,
+            Math.min(MAX_TEMPO_CORRECTION, drift * PHASE_CORRECTION),
+          );
+    transport.bpm.setValueAtTime(this.tempo * (1 + correction), time);
+  }
+
+  // Listeners hear the tempo rounded for display, when that changes
+  private reportTempo(): void {
+    const rounded =
+      this.tempo === null ? null : Math.round(this.tempo * 10) / 10;
+    if (rounded === this.reportedTempo) return;
+    this.reportedTempo = rounded;
+    this.emit({ type: "tempo", bpm: rounded });
+  }
+
+  private emit(event: ClockSyncEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,153 @@
+// Live Input
+// Plays the track synths from a controller: notes with velocity, sustain
+// pedal, pitch bend and mod wheel. Held notes remember the tracks they
+// started on, so they are released there even if the routing or the track
+// order changed in the meantime. Listeners hear every key played, for
+// recording
+
+import * as Tone from "tone";
+import type { Track } from "../audio/trackChain";
+
+interface HeldNote {
+  track: Track;
+  note: string;
+  released: boolean; // Key let go while the sustain pedal was down
+}
+
+export interface LiveNoteEvent {
+  type: "noteOn" | "noteOff";
+  key: string;
+  pitch: number;
+  velocity: number; // 0 to 1, 0 for note offs
+  time: number; // Audio context time
+}
+
+type LiveNoteListener = (event: LiveNoteEvent) => void;
+
+export class LiveInput {
+  // Sounding notes by source key ("<source>:<channel>:<note>"), one entry
+  // per track the note went to
+  private notes = new Map<string, HeldNote[]>();
+  // Tracks whose sustain pedal is down
+  private sustained = new Set<Track>();
+  // Keys currently down, with their pitch
+  private pressed = new Map<string, number>();
+  private listeners = new Set<LiveNoteListener>();
+
+  // Returns the function that removes the listener
+  subscribe(listener: LiveNoteListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  noteOn(key: string, tracks: Track[], pitch: number, velocity: number): void {
+    // A repeated note on without a note off retriggers
+    this.noteOff(key);
+
+    const note = Tone.Frequency(pitch, "midi").toNote();
+    const held: HeldNote[] = [];
+    tracks.forEach((track) => {
+      if (!track.synth) return;
+      track.synth.triggerAttack(note, Tone.immediate(), velocity);
+      held.push({ track, note, released: false });
+    });
+    this.notes.set(key, held);
+
+    this.pressed.set(key, pitch);
+    this.emit({ type: "noteOn", key, pitch, velocity, time: Tone.immediate() });
+  }
+
+  noteOff(key: string): void {
+    const pitch = this.pressed.get(key);
+    if (pitch !== undefined) {
+      this.pressed.delete(key);
+      this.emit({
+        type: "noteOff",
+        key,
+        pitch,
+        velocity: 0,
+        time: Tone.immediate(),
+      });
+    }
+
+    const held = this.notes.get(key);
+    if (!held) return;
+
+    // Notes on tracks with the pedal down keep sounding until it is lifted
+    const sustained = held.filter((entry) => this.sustained.has(entry.track));
+    held
+      .filter((entry) => !this.sustained.has(entry.track))
+      .forEach(releaseNote);
+    sustained.forEach((entry) => (entry.released = true));
+
+    if (sustained.length > 0) {
+      const sustainedKey = `${key}:sustained`;
+      this.notes.set(sustainedKey, [
+        ...(this.notes.get(sustainedKey) ?? []),
+        ...sustained,
+      ]);
+    }
+    this.notes.delete(key);
+  }
+
+  setSustain(track: Track, down: boolean): void {
+    if (down) {
+      this.sustained.add(track);
+      return;
+    }
+    this.sustained.delete(track);
+
+    this.notes.forEach((held, key) => {
+      const remaining = held.filter((entry) => {
+        if (entry.track !== track || !entry.released) return true;
+        releaseNote(entry);
+        return false;
+      });
+      if (remaining.length > 0) {
+        this.notes.set(key, remaining);
+      } else {
+        this.notes.delete(key);
+      }
+    });
+  }
+
+  // value -1 to 1, range in semitones
+  setPitchBend(track: Track, value: number, range: number): void {
+    track.modulator?.setPitchBend(value * range * 100);
+  }
+
+  // value 0 to 1
+  setModWheel(track: Track, value: number): void {
+    track.modulator?.setModWheel(value);
+  }
+
+  // Release everything a source is holding (an unplugged device, a
+  // keyboard losing focus), pedal or not
+  releaseSource(source: string): void {
+    [...this.pressed.keys()]
+      .filter((key) => key.startsWith(`${source}:`))
+      .forEach((key) => this.noteOff(key));
+    this.notes.forEach((held, key) => {
+      if (!key.startsWith(`${source}:`)) return;
+      held.forEach(releaseNote);
+      this.notes.delete(key);
+    });
+  }
+
+  releaseAll(): void {
+    [...this.pressed.keys()].forEach((key) => this.noteOff(key));
+    this.notes.forEach((held) => held.forEach(releaseNote));
+    this.notes.clear();
+    this.sustained.clear();
+  }
+
+  private emit(event: LiveNoteEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+function releaseNote({ track, note }: HeldNote) {
+  track.synth?.triggerRelease(note, Tone.immediate());
+}
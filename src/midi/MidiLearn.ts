@@ -0,0 +1,172 @@
+// MIDI Learn
+// Binds hardware controls to track settings and turns their messages into
+// setting changes. While learning, the next controller moved is bound to the
+// setting waiting for it; listeners store the mapping and apply the changes
+
+import type { TrackSettings } from "../audio/DualOscVoice";
+import { getParamValue, setParamValue } from "../audio/settingPaths";
+import {
+  MAX_LEARN_CONTROLLER,
+  RELATIVE_STEPS,
+  getKnobPosition,
+  getMappedValue,
+  getRelativeSteps,
+  type CcMapping,
+} from "./ccMapping";
+
+// A setting waiting for a control, with the range of its slider
+export interface LearnTarget {
+  track: number;
+  param: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export type MidiLearnEvent =
+  | { type: "learning"; target: LearnTarget | null }
+  | { type: "learned"; mapping: CcMapping }
+  | {
+      type: "change";
+      track: number;
+      param: string;
+      settings: TrackSettings;
+      min: number; // Range the control sweeps
+      max: number;
+    };
+
+type MidiLearnListener = (event: MidiLearnEvent) => void;
+
+// What each mapped knob last did
+interface KnobState {
+  position: number; // 0 to 1, where the knob was last seen
+  value: number; // Setting value it left behind
+  pickedUp: boolean;
+}
+
+// A knob in pickup mode takes over within this distance of the setting
+const PICKUP_RANGE = 1.5 / 127;
+
+function getKnobKey(mapping: CcMapping): string {
+  return `${mapping.channel}:${mapping.controller}:${mapping.track}:${mapping.param}`;
+}
+
+export class MidiLearn {
+  private mappings: CcMapping[] = [];
+  private target: LearnTarget | null = null;
+  private knobs = new Map<string, KnobState>();
+  private listeners = new Set<MidiLearnListener>();
+  private getSettings: (track: number) => TrackSettings | undefined;
+
+  // Settings are read when messages arrive, so they are always the latest
+  constructor(getSettings: (track: number) => TrackSettings | undefined) {
+    this.getSettings = getSettings;
+  }
+
+  // Returns the function that removes the listener
+  subscribe(listener: MidiLearnListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get learning(): LearnTarget | null {
+    return this.target;
+  }
+
+  setMappings(mappings: CcMapping[]): void {
+    this.mappings = mappings;
+  }
+
+  // Wait for a control to bind to a setting (null cancels)
+  learn(target: LearnTarget | null): void {
+    this.target = target;
+    this.emit({ type: "learning", target });
+  }
+
+  // Returns whether the message was used (learned or mapped)
+  handleControlChange(
+    channel: number,
+    controller: number,
+    value: number,
+  ): boolean {
+    if (controller > MAX_LEARN_CONTROLLER) return false;
+
+    if (this.target) {
+      const mapping: CcMapping = {
+        channel,
+        controller,
+        ...this.target,
+        curve: "linear",
+        mode: "absolute",
+        takeover: "jump",
+      };
+      this.learn(null);
+      this.emit({ type: "learned", mapping });
+      return true;
+    }
+
+    const mapped = this.mappings.filter(
+      (mapping) =>
+        mapping.channel === channel && mapping.controller === controller,
+    );
+    mapped.forEach((mapping) => this.move(mapping, value));
+    return mapped.length > 0;
+  }
+
+  private move(mapping: CcMapping, value: number): void {
+    const settings = this.getSettings(mapping.track);
+    const current = settings && getParamValue(settings, mapping.param);
+    if (!settings || current === null || current === undefined) return;
+
+    const key = getKnobKey(mapping);
+    const knob = this.knobs.get(key);
+    // Once something else changed the setting, the knob has to find it again
+    const inSync = knob !== undefined && knob.value === current;
+
+    let position: number;
+    if (mapping.mode === "absolute") {
+      position = value / 127;
+      if (mapping.takeover === "pickup" && !(inSync && knob.pickedUp)) {
+        // Take over once the knob reaches the setting, or moves across it
+        const settingPosition = getKnobPosition(mapping, current);
+        const reached =
+          Math.abs(position - settingPosition) <= PICKUP_RANGE ||
+          (knob !== undefined &&
+            (knob.position - settingPosition) * (position - settingPosition) <
+              0);
+        if (!reached) {
+          this.knobs.set(key, { position, value: current, pickedUp: false });
+          return;
+        }
+      }
+    } else {
+      // Encoders keep their own position, finer than the setting's steps
+      const start = inSync ? knob.position : getKnobPosition(mapping, current);
+      position = Math.max(
+        0,
+        Math.min(
+          1,
+          start + getRelativeSteps(mapping.mode, value) / RELATIVE_STEPS,
+        ),
+      );
+    }
+
+    const mappedValue = getMappedValue(mapping, position);
+    this.knobs.set(key, { position, value: mappedValue, pickedUp: true });
+    if (mappedValue === current) return;
+    this.emit({
+      type: "change",
+      track: mapping.track,
+      param: mapping.param,
+      settings: setParamValue(settings, mapping.param, mappedValue),
+      min: mapping.min,
+      max: mapping.max,
+    });
+  }
+
+  private emit(event: MidiLearnEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,124 @@
+// CC Mapping
+// Hardware controls bound to track settings by MIDI learn. A mapping sweeps
+// its setting across a range along a curve, from an absolute knob or a
+// relative encoder, optionally picking the setting up only once the knob
+// reaches it. Settings are addressed by path (see settingPaths)
+
+export type CcCurve = "linear" | "exponential" | "logarithmic";
+
+// Absolute knobs send their position. Relative encoders send steps, in one
+// of three common encodings of the direction
+export type CcMode =
+  "absolute" | "twosComplement" | "binaryOffset" | "signMagnitude";
+
+export type CcTakeover = "jump" | "pickup";
+
+export interface CcMapping {
+  channel: number; // 0 to 15
+  controller: number; // 0 to MAX_LEARN_CONTROLLER
+  track: number; // Track index
+  param: string; // Path of the setting
+  min: number;
+  max: number;
+  step: number; // Values are rounded to this, as on the slider
+  curve: CcCurve;
+  mode: CcMode;
+  takeover: CcTakeover;
+}
+
+export const CC_CURVES: Record<CcCurve, string> = {
+  linear: "Linear",
+  exponential: "Exponential",
+  logarithmic: "Logarithmic",
+};
+
+export const CC_MODES: Record<CcMode, string> = {
+  absolute: "Absolute",
+  twosComplement: "Relative (2's complement)",
+  binaryOffset: "Relative (offset 64)",
+  signMagnitude: "Relative (sign bit)",
+};
+
+export const CC_TAKEOVERS: Record<CcTakeover, string> = {
+  jump: "Jump",
+  pickup: "Pickup",
+};
+
+// Controllers above this are channel mode messages (all notes off etc.)
+export const MAX_LEARN_CONTROLLER = 119;
+
+// A relative encoder sweeps the whole range in this many steps
+export const RELATIVE_STEPS = 128;
+
+// Curves map a knob position (0 to 1) to a position in the range
+function applyCurve(position: number, curve: CcCurve): number {
+  switch (curve) {
+    case "linear":
+      return position;
+    case "exponential":
+      return position ** 3;
+    case "logarithmic":
+      return 1 - (1 - position) ** 3;
+  }
+}
+
+function invertCurve(position: number, curve: CcCurve): number {
+  switch (curve) {
+    case "linear":
+      return position;
+    case "exponential":
+      return Math.cbrt(position);
+    case "logarithmic":
+      return 1 - Math.cbrt(1 - position);
+  }
+}
+
+// Where a value sits on the knob's travel (0 to 1)
+export function getKnobPosition(mapping: CcMapping, value: number): number {
+  const span = mapping.max - mapping.min;
+  const position = span === 0 ? 0 : (value - mapping.min) / span;
+  return invertCurve(Math.max(0, Math.min(1, position)), mapping.curve);
+}
+
+// The value at a knob position, rounded to the mapping's step
+export function getMappedValue(mapping: CcMapping, position: number): number {
+  const { min, max, step } = mapping;
+  const value =
+    min +
+    applyCurve(Math.max(0, Math.min(1, position)), mapping.curve) * (max - min);
+  const rounded =
+    step > 0 ? min + Math.round((value - min) / step) * step : value;
+  // Rounding must not leave the range, nor leave float noise behind
+  return Number(
+    Math.max(Math.min(min, max), Math.min(Math.max(min, max), rounded)).toFixed(
+      6,
+    ),
+  );
+}
+
+// Steps turned by a relative encoder (positive is clockwise)
+export function getRelativeSteps(mode: CcMode, value: number): number {
+  switch (mode) {
+    case "twosComplement":
+      return value < 64 ? value : value - 128;
+    case "binaryOffset":
+      return value - 64;
+    case "signMagnitude":
+      return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+    case "absolute":
+      return 0;
+  }
+}
+
+// Mappings of a track list after tracks were removed or reordered. `order`
+// holds the previous index of each track (-1 for new ones); mappings of
+// removed tracks are dropped
+export function remapCcMappings(
+  mappings: CcMapping[],
+  order: number[],
+): CcMapping[] {
+  return mappings.flatMap((mapping) => {
+    const track = order.indexOf(mapping.track);
+    return track === -1 ? [] : [{ ...mapping, track }];
+  });
+}
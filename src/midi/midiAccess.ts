@@ -0,0 +1,36 @@
+// MIDI Access
+// One Web MIDI access for the whole app, requested the first time a part of
+// it needs MIDI. Ports connecting and disconnecting are reported as
+// "statechange" events on the access object
+
+let accessPromise: Promise<MIDIAccess> | null = null;
+let access: MIDIAccess | null = null;
+
+export function isMidiSupported(): boolean {
+  return typeof navigator.requestMIDIAccess === "function";
+}
+
+export function requestMidiAccess(): Promise<MIDIAccess> {
+  if (!accessPromise) {
+    accessPromise = navigator.requestMIDIAccess().then((midiAccess) => {
+      access = midiAccess;
+      return midiAccess;
+    });
+  }
+  return accessPromise;
+}
+
+// A connected output by id. Null until access was granted, or when the
+// device is unplugged
+export function getMidiOutput(id: string): MIDIOutput | null {
+  const output = access?.outputs.get(id);
+  return output && output.state === "connected" ? output : null;
+}
+
+// Why MIDI can't be used, for display
+export function describeMidiError(error: unknown): string {
+  const name = (error as Error).name;
+  return name === "SecurityError" || name === "NotAllowedError"
+    ? "MIDI access was denied (allow it in the browser's site settings)"
+    : `MIDI is unavailable: ${(error as Error).message}`;
+}
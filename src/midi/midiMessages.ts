@@ -0,0 +1,92 @@
+// MIDI Messages
+// Decode the raw bytes of Web MIDI channel messages. Channels are 0 to 15
+// here and shown as 1 to 16
+
+export const MIDI_CHANNELS = 16;
+
+// Controller numbers the app responds to
+export const CC_MOD_WHEEL = 1;
+export const CC_SUSTAIN = 64;
+export const CC_ALL_NOTES_OFF = 123;
+
+// Pitch bend range in semitones (2 is the usual default of synths)
+export const DEFAULT_BEND_RANGE = 2;
+export const MAX_BEND_RANGE = 24;
+
+export type MidiMessage =
+  | { type: "noteOn"; channel: number; note: number; velocity: number }
+  | { type: "noteOff"; channel: number; note: number }
+  | {
+      type: "controlChange";
+      channel: number;
+      controller: number;
+      value: number;
+    }
+  | { type: "pitchBend"; channel: number; value: number }; // -1 to 1
+
+// Returns null for messages the app doesn't use (system messages included)
+export function parseMidiMessage(data: Uint8Array): MidiMessage | null {
+  if (data.length < 2) return null;
+  const status = data[0] & 0xf0;
+  const channel = data[0] & 0x0f;
+
+  switch (status) {
+    case 0x90:
+      // Note on with velocity 0 is a note off
+      return data[2] > 0
+        ? { type: "noteOn", channel, note: data[1], velocity: data[2] }
+        : { type: "noteOff", channel, note: data[1] };
+    case 0x80:
+      return { type: "noteOff", channel, note: data[1] };
+    case 0xb0:
+      return {
+        type: "controlChange",
+        channel,
+        controller: data[1],
+        value: data[2],
+      };
+    case 0xe0: {
+      // 14 bit, centered on 8192
+      const value = ((data[2] << 7) | data[1]) - 8192;
+      return {
+        type: "pitchBend",
+        channel,
+        value: value < 0 ? value / 8192 : value / 8191,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// System real-time and song position messages, for following another
+// device's transport. Positions are in MIDI beats (16th notes)
+export type SyncMessage =
+  | { type: "clock" }
+  | { type: "start" }
+  | { type: "continue" }
+  | { type: "stop" }
+  | { type: "songPosition"; beats: number };
+
+// MIDI clock pulses per MIDI beat
+export const CLOCKS_PER_MIDI_BEAT = 6;
+
+export function parseSyncMessage(data: Uint8Array): SyncMessage | null {
+  switch (data[0]) {
+    case 0xf8:
+      return { type: "clock" };
+    case 0xfa:
+      return { type: "start" };
+    case 0xfb:
+      return { type: "continue" };
+    case 0xfc:
+      return { type: "stop" };
+    case 0xf2:
+      // 14 bit, least significant byte first
+      return data.length < 3
+        ? null
+        : { type: "songPosition", beats: (data[2] << 7) | data[1] };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,113 @@
+// MIDI Output
+// Send sequencer notes and clock to external gear. Messages are timestamped
+// from audio clock times, so they leave in step with the internal synths
+
+import * as Tone from "tone";
+import { CC_ALL_NOTES_OFF } from "./midiMessages";
+
+export interface TrackMidiOutput {
+  device: string | null; // MIDIOutput id, null = internal synth only
+  channel: number; // 0 to 15
+  internal: boolean; // Also play the internal synth
+}
+
+export const DEFAULT_TRACK_OUTPUT: TrackMidiOutput = {
+  device: null,
+  channel: 0,
+  internal: true,
+};
+
+// MIDI clock runs at 24 pulses per quarter note
+export const CLOCK_PPQ = 24;
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const CLOCK = 0xf8;
+const START = 0xfa;
+const CONTINUE = 0xfb;
+const STOP = 0xfc;
+const SONG_POSITION = 0xf2;
+
+// Web MIDI timestamps are on the performance.now() clock. The context's
+// output timestamp pairs both clocks at the moment audio leaves the
+// speakers, so output latency is accounted for where the browser reports it
+function getClockPair(): { contextTime: number; performanceTime: number } {
+  const context = Tone.getContext().rawContext as AudioContext;
+  const stamp = context.getOutputTimestamp?.();
+  if (
+    stamp?.contextTime !== undefined &&
+    stamp.performanceTime !== undefined &&
+    stamp.performanceTime > 0
+  ) {
+    return {
+      contextTime: stamp.contextTime,
+      performanceTime: stamp.performanceTime,
+    };
+  }
+  return {
+    contextTime: context.currentTime,
+    performanceTime: performance.now(),
+  };
+}
+
+export function toMidiTimestamp(time: number): number {
+  const { contextTime, performanceTime } = getClockPair();
+  return performanceTime + (time - contextTime) * 1000;
+}
+
+// Audio clock time of a received message
+export function fromMidiTimestamp(timestamp: number): number {
+  const { contextTime, performanceTime } = getClockPair();
+  return contextTime + (timestamp - performanceTime) / 1000;
+}
+
+// A note on at `time` and its note off `duration` seconds later
+export function sendMidiNote(
+  output: MIDIOutput,
+  channel: number,
+  pitch: number,
+  velocity: number, // 0 to 1
+  time: number,
+  duration: number,
+): void {
+  const start = toMidiTimestamp(time);
+  const midiVelocity = Math.max(1, Math.min(127, Math.round(velocity * 127)));
+  output.send([NOTE_ON | channel, pitch, midiVelocity], start);
+  output.send([NOTE_OFF | channel, pitch, 0], start + duration * 1000);
+}
+
+// Drop the messages still waiting for their timestamp. Only Chrome supports
+// this; elsewhere they are still sent, so follow up with note offs
+export function clearMidiOutput(output: MIDIOutput): void {
+  (output as MIDIOutput & { clear?: () => void }).clear?.();
+}
+
+export function silenceMidiChannel(output: MIDIOutput, channel: number): void {
+  output.send([CONTROL_CHANGE | channel, CC_ALL_NOTES_OFF, 0]);
+}
+
+export function sendMidiClock(output: MIDIOutput, time: number): void {
+  output.send([CLOCK], toMidiTimestamp(time));
+}
+
+// Start plays from the top; elsewhere the song position is sent before a
+// continue. The first clock pulse after either is the downbeat
+export function sendMidiStart(
+  output: MIDIOutput,
+  time: number,
+  ticks: number = 0, // Transport position
+): void {
+  const timestamp = toMidiTimestamp(time);
+  const beats = Math.floor(ticks / (Tone.getTransport().PPQ / 4)); // 16ths
+  if (beats <= 0) {
+    output.send([START], timestamp);
+    return;
+  }
+  output.send([SONG_POSITION, beats & 0x7f, (beats >> 7) & 0x7f], timestamp);
+  output.send([CONTINUE], timestamp);
+}
+
+export function sendMidiStop(output: MIDIOutput): void {
+  output.send([STOP]);
+}
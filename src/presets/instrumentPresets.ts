@@ -1,6 +1,8 @@
 // Instrument Preset Library
 // Provides a collection of synthesizer presets optimized for dual oscillator voice
 
+import { DEFAULT_MOD_MATRIX, type ModMatrix } from "../audio/modMatrix";
+
 export interface InstrumentPreset {
   name: string;
   category: string;
@@ -54,7 +56,6 @@ export interface InstrumentPreset {
 
     // LFO
     lfoRate: number;
-    lfoDepth: number;
     lfoType: "sine" | "square" | "sawtooth" | "triangle";
     lfoOsc1Amount: number;
     lfoOsc2Amount: number;
@@ -72,6 +73,9 @@ export interface InstrumentPreset {
     reverbSize: number;
     reverbStereo: number;
     reverbDamping: number;
+
+    // Modulation Matrix
+    modMatrix: ModMatrix;
   };
 }
 
@@ -138,7 +142,6 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
 
       // LFO: Off
       lfoRate: 0,
-      lfoDepth: 0,
       lfoType: "sine",
       lfoOsc1Amount: 0,
       lfoOsc2Amount: 0,
@@ -156,6 +159,12 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
       reverbSize: 0.4,
       reverbStereo: 0.3,
       reverbDamping: 0.5,
+
+      // Modulation: Velocity opens the filter
+      modMatrix: {
+        ...DEFAULT_MOD_MATRIX,
+        slots: [{ source: "velocity", destination: "filterFreq", amount: 0.1 }],
+      },
     },
   },
 
@@ -213,7 +222,6 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
 
       // LFO: Off
       lfoRate: 0,
-      lfoDepth: 0,
       lfoType: "sine",
       lfoOsc1Amount: 0,
       lfoOsc2Amount: 0,
@@ -231,6 +239,14 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
       reverbSize: 0.7,
       reverbStereo: 0.6,
       reverbDamping: 0.4,
+
+      // Modulation: Harder notes sound brighter
+      modMatrix: {
+        ...DEFAULT_MOD_MATRIX,
+        slots: [
+          { source: "velocity", destination: "filterFreq", amount: 0.15 },
+        ],
+      },
     },
   },
 
@@ -288,7 +304,6 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
 
       // LFO: Subtle vibrato
       lfoRate: 4,
-      lfoDepth: 0,
       lfoType: "sine",
       lfoOsc1Amount: 0.002,
       lfoOsc2Amount: 0.002,
@@ -306,6 +321,13 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
       reverbSize: 0.9,
       reverbStereo: 0.8,
       reverbDamping: 0.3,
+
+      // Modulation: Slow LFO 2 drifts between the oscillators
+      modMatrix: {
+        ...DEFAULT_MOD_MATRIX,
+        lfo2Rate: 0.2,
+        slots: [{ source: "lfo2", destination: "oscMix", amount: 0.2 }],
+      },
     },
   },
 
@@ -363,7 +385,6 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
 
       // LFO: Vibrato
       lfoRate: 5.5,
-      lfoDepth: 0,
       lfoType: "sine",
       lfoOsc1Amount: 0.005,
       lfoOsc2Amount: 0.005,
@@ -381,6 +402,14 @@ export const INSTRUMENT_PRESETS: InstrumentPreset[] = [
       reverbSize: 0.6,
       reverbStereo: 0.5,
       reverbDamping: 0.5,
+
+      // Modulation: Mod wheel adds vibrato
+      modMatrix: {
+        ...DEFAULT_MOD_MATRIX,
+        slots: [
+          { source: "modWheel", destination: "lfoOsc1Amount", amount: 0.5 },
+        ],
+      },
     },
   },
 ];
@@ -402,3 +431,18 @@ export function getCategoryList(): string[] {
   const categories = INSTRUMENT_PRESETS.map((p) => p.category);
   return Array.from(new Set(categories));
 }
+
+// The preset a track's settings were most likely made from (the one with the
+// most identical parameters). Exact for unedited presets
+export function getClosestPreset(
+  settings: InstrumentPreset["settings"],
+): InstrumentPreset {
+  const score = (preset: InstrumentPreset) =>
+    (Object.keys(preset.settings) as (keyof InstrumentPreset["settings"])[])
+      .filter((key) => key !== "modMatrix")
+      .filter((key) => preset.settings[key] === settings[key]).length;
+
+  return INSTRUMENT_PRESETS.reduce((best, preset) =>
+    score(preset) > score(best) ? preset : best,
+  );
+}
@@ -0,0 +1,416 @@
+// Project Files
+// The whole session as one versioned document. The app starts from the
+// saved project and saves it whole on every change; it is also what is
+// exported and imported
+
+import type { TrackSettings } from "../audio/DualOscVoice";
+import { DEFAULT_MOD_MATRIX } from "../audio/modMatrix";
+import type { CcMapping } from "../midi/ccMapping";
+import { getPresetByName } from "../presets/instrumentPresets";
+import { DEFAULT_BEND_RANGE } from "../midi/midiMessages";
+import { DEFAULT_GROOVE, type GrooveSettings } from "../sequencer/groove";
+import {
+  PATTERN_LETTERS,
+  createEmptyPattern,
+  type Pattern,
+  type PlayMode,
+  type SongEntry,
+} from "../sequencer/patterns";
+import {
+  DEFAULT_SCALE,
+  getScalePitches,
+  type ScaleSettings,
+} from "../sequencer/scales";
+import { migrateSequence, type TupletRatio } from "../sequencer/sequence";
+import {
+  DEFAULT_PATTERN_SETTINGS,
+  MAX_PATTERN_LENGTH,
+} from "../sequencer/timing";
+import { fitToTrackCount } from "../sequencer/trackOperations";
+import { ProjectError, validateProject } from "./validation";
+
+export { ProjectError } from "./validation";
+
+export const PROJECT_VERSION = 8;
+
+export interface ProjectTrack {
+  settings: TrackSettings;
+  volume: number; // dB
+  mute: boolean;
+  bendRange: number; // Pitch bend range of live input, semitones
+}
+
+export interface Project {
+  version: number;
+  tracks: ProjectTrack[];
+  bpm: number;
+  velocity: number; // Velocity of newly entered notes, 1-127
+  metronome: boolean;
+  scale: ScaleSettings;
+  trackScales: (ScaleSettings | null)[]; // null = follow the global scale
+  patterns: Pattern[];
+  currentPattern: number;
+  song: SongEntry[];
+  playMode: PlayMode;
+  ccMappings: CcMapping[]; // MIDI controls mapped to track settings
+  groove: GrooveSettings; // Swing, groove template and humanize
+}
+
+// The parts of a project the sequencer keeps
+export type SequencerProject = Omit<
+  Project,
+  "version" | "tracks" | "ccMappings"
+>;
+
+// The session is saved under this key as one project document
+const STORAGE_KEY = "synth-project";
+
+// Keys the session was spread over before it was saved as one document,
+// only read to bring such a session over. The single-sequence keys are the
+// unversioned layout (version 0); with the pattern bank, the keys hold
+// version 7
+const LEGACY_STORAGE_KEYS = {
+  trackSettings: "synth-track-settings",
+  trackVolumes: "synth-track-volumes",
+  trackMutes: "synth-track-mutes",
+  trackBendRanges: "synth-track-bend-ranges",
+  bpm: "synth-bpm",
+  velocity: "synth-velocity",
+  metronome: "synth-metronome",
+  scale: "synth-scale",
+  trackScales: "synth-track-scales",
+  patterns: "synth-pattern-bank",
+  currentPattern: "synth-current-pattern",
+  song: "synth-song",
+  playMode: "synth-play-mode",
+  ccMappings: "synth-cc-mappings",
+  groove: "synth-groove",
+  sequence: "synth-sequence",
+  patternSettings: "synth-pattern",
+};
+const LEGACY_STORAGE_VERSION = 7;
+
+// Instruments of a new project
+const NEW_PROJECT_PRESETS = ["Bass", "Piano", "Pad", "Lead"];
+
+type Document = Record<string, unknown>;
+
+function isDocument(value: unknown): value is Document {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] | undefined {
+  return Array.isArray(value) ? value : undefined;
+}
+
+// Upgrades a document from the version in the key to the next one.
+// Version 0 is the unversioned layout of the old localStorage keys:
+// { trackSettings, trackVolumes, trackMutes, sequence, bpm, velocity,
+// metronome }, with a single sequence and no scales or pattern bank.
+// Fields are left as found where they don't fit; validation reports them
+const MIGRATIONS: Record<
+  number,
+  (doc: Document) => Document & { version: number }
+> = {
+  0: (doc) => {
+    const settings = asArray(doc.trackSettings) ?? [];
+    const velocity = typeof doc.velocity === "number" ? doc.velocity : 80;
+    const volumes = fitToTrackCount<unknown>(
+      asArray(doc.trackVolumes),
+      settings.length,
+      () => 0,
+    );
+    const mutes = fitToTrackCount<unknown>(
+      asArray(doc.trackMutes),
+      settings.length,
+      () => false,
+    );
+
+    const patterns = PATTERN_LETTERS.map(() =>
+      createEmptyPattern(settings.length),
+    );
+    if (Array.isArray(doc.sequence)) {
+      // Old sequences may hold bare tuplet counts; generate their notes
+      patterns[0].sequence = migrateSequence(
+        doc.sequence.map((step: unknown) => (Array.isArray(step) ? step : [])),
+        settings.length,
+        velocity,
+        () => getScalePitches(DEFAULT_SCALE),
+      );
+      patterns[0].settings = {
+        ...DEFAULT_PATTERN_SETTINGS,
+        length: Math.max(1, Math.min(MAX_PATTERN_LENGTH, doc.sequence.length)),
+      };
+    }
+
+    return {
+      version: 1,
+      tracks: settings.map((s, i) => ({
+        // Settings saved before the modulation matrix existed have none
+        settings: isDocument(s)
+          ? { ...s, modMatrix: s.modMatrix ?? DEFAULT_MOD_MATRIX }
+          : s,
+        volume: volumes[i],
+        mute: mutes[i],
+      })),
+      bpm: doc.bpm ?? 60,
+      velocity,
+      metronome: doc.metronome ?? true,
+      scale: DEFAULT_SCALE,
+      trackScales: settings.map(() => null),
+      patterns,
+      currentPattern: 0,
+      song: [],
+      playMode: "pattern",
+    };
+  },
+  // Version 1 had no live input settings
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    tracks: Array.isArray(doc.tracks)
+      ? doc.tracks.map((track: unknown) =>
+          isDocument(track)
+            ? { ...track, bendRange: DEFAULT_BEND_RANGE }
+            : track,
+        )
+      : doc.tracks,
+  }),
+  // Version 2 had no MIDI mappings
+  2: (doc) => ({ ...doc, version: 3, ccMappings: [] }),
+  // Version 3 played everything straight
+  3: (doc) => ({
+    ...doc,
+    version: 4,
+    groove: {
+      ...DEFAULT_GROOVE,
+      trackSwing: Array.isArray(doc.tracks) ? doc.tracks.map(() => null) : [],
+    },
+  }),
+  // Version 4 had no parameter locks
+  4: (doc) => ({ ...doc, version: 5 }),
+  // Version 5 played every step that had notes, once
+  5: (doc) => ({ ...doc, version: 6 }),
+  // Version 6 had no automation
+  6: (doc) => ({ ...doc, version: 7 }),
+  // Settings up to version 7 could carry an LFO depth, which did nothing
+  7: (doc) => ({
+    ...doc,
+    version: 8,
+    tracks: Array.isArray(doc.tracks)
+      ? doc.tracks.map((track: unknown) => {
+          if (!isDocument(track) || !isDocument(track.settings)) return track;
+          const settings = { ...track.settings };
+          delete settings.lfoDepth;
+          return { ...track, settings };
+        })
+      : doc.tracks,
+  }),
+};
+
+// Bring any supported document up to the current version and check it.
+// Throws a ProjectError naming the first problem found
+export function loadProject(doc: unknown): Project {
+  if (!isDocument(doc)) {
+    throw new ProjectError("Not a project: expected a JSON object");
+  }
+
+  const saved = doc.version ?? 0;
+  if (typeof saved !== "number" || !Number.isInteger(saved)) {
+    throw new ProjectError(
+      `version: expected a whole number, got ${JSON.stringify(saved)}`,
+    );
+  }
+
+  let migrated = doc;
+  let version = saved;
+  if (version > PROJECT_VERSION) {
+    throw new ProjectError(
+      `Project version ${version} was saved by a newer version of the app (this one reads up to ${PROJECT_VERSION})`,
+    );
+  }
+  while (version < PROJECT_VERSION) {
+    const upgraded = MIGRATIONS[version](migrated);
+    migrated = upgraded;
+    version = upgraded.version;
+  }
+
+  return validateProject(migrated);
+}
+
+export function parseProject(text: string): Project {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (e) {
+    throw new ProjectError(`Not valid JSON: ${(e as Error).message}`);
+  }
+  return loadProject(doc);
+}
+
+export function serializeProject(project: Project): string {
+  return JSON.stringify(project, null, 2);
+}
+
+// A fresh session: one track per instrument and a few random notes in
+// pattern A, arpeggiated in the default scale
+export function createNewProject(): Project {
+  const settings = NEW_PROJECT_PRESETS.map(
+    (name) => getPresetByName(name)!.settings,
+  );
+  const numTracks = settings.length;
+  const velocity = 80;
+
+  // Tuplets on every other step of track 0, one on step 3 of track 1
+  const tupletOptions: TupletRatio[] = ["2", "3", "4", "5"];
+  const randomTuplet = () =>
+    tupletOptions[Math.floor(Math.random() * tupletOptions.length)];
+  const tuplets = Array.from(
+    { length: DEFAULT_PATTERN_SETTINGS.length },
+    (_, step) => {
+      const cells: TupletRatio[] = Array(numTracks).fill("0");
+      if (step % 2 === 0) cells[0] = randomTuplet();
+      if (step === 3 && numTracks > 1) cells[1] = randomTuplet();
+      return cells;
+    },
+  );
+
+  const patterns = PATTERN_LETTERS.map(() => createEmptyPattern(numTracks));
+  patterns[0].sequence = migrateSequence(tuplets, numTracks, velocity, () =>
+    getScalePitches(DEFAULT_SCALE),
+  );
+
+  return {
+    version: PROJECT_VERSION,
+    tracks: settings.map((s) => ({
+      settings: s,
+      volume: 0,
+      mute: false,
+      bendRange: DEFAULT_BEND_RANGE,
+    })),
+    bpm: 60,
+    velocity,
+    metronome: true,
+    scale: DEFAULT_SCALE,
+    trackScales: settings.map(() => null),
+    patterns,
+    currentPattern: 0,
+    song: [],
+    playMode: "pattern",
+    ccMappings: [],
+    groove: { ...DEFAULT_GROOVE, trackSwing: settings.map(() => null) },
+  };
+}
+
+function readLegacy(key: string): unknown {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return saved; // Plain string values (play mode)
+  }
+}
+
+// Whether anything has been saved yet (a fresh session has no project)
+export function hasStoredProject(): boolean {
+  return (
+    localStorage.getItem(STORAGE_KEY) !== null ||
+    localStorage.getItem(LEGACY_STORAGE_KEYS.trackSettings) !== null
+  );
+}
+
+// The saved groove, or a straight one (not saved by earlier versions). The
+// per-track swing is fitted to the track count as the sequencer did
+function readLegacyGroove(numTracks: number): unknown {
+  const groove = readLegacy(LEGACY_STORAGE_KEYS.groove);
+  if (groove === undefined) {
+    return { ...DEFAULT_GROOVE, trackSwing: Array(numTracks).fill(null) };
+  }
+  if (!isDocument(groove)) return groove;
+  return {
+    ...groove,
+    trackSwing: fitToTrackCount<unknown>(
+      asArray(groove.trackSwing),
+      numTracks,
+      () => null,
+    ),
+  };
+}
+
+// The session spread over the legacy keys, as a document to migrate
+function readLegacyStorage(): Document {
+  const keys = LEGACY_STORAGE_KEYS;
+  if (localStorage.getItem(keys.patterns) === null) {
+    return {
+      trackSettings: readLegacy(keys.trackSettings),
+      trackVolumes: readLegacy(keys.trackVolumes),
+      trackMutes: readLegacy(keys.trackMutes),
+      sequence: readLegacy(keys.sequence),
+      bpm: readLegacy(keys.bpm),
+      velocity: readLegacy(keys.velocity),
+      metronome: readLegacy(keys.metronome),
+    };
+  }
+
+  // Missing values, and lists of another length than the tracks, were
+  // filled in with defaults by the sequencer and the app
+  const settings = readLegacy(keys.trackSettings);
+  const numTracks = Array.isArray(settings) ? settings.length : 0;
+  const perTrack = (key: string, create: () => unknown) => {
+    const value = readLegacy(key);
+    return value === undefined || Array.isArray(value)
+      ? fitToTrackCount<unknown>(value, numTracks, create)
+      : value;
+  };
+  const volumes = perTrack(keys.trackVolumes, () => 0);
+  const mutes = perTrack(keys.trackMutes, () => false);
+  const bendRanges = perTrack(keys.trackBendRanges, () => DEFAULT_BEND_RANGE);
+  return {
+    version: LEGACY_STORAGE_VERSION,
+    tracks: Array.isArray(settings)
+      ? settings.map((s, i) => ({
+          settings: s,
+          volume: asArray(volumes)?.[i],
+          mute: asArray(mutes)?.[i],
+          bendRange: asArray(bendRanges)?.[i],
+        }))
+      : settings,
+    bpm: readLegacy(keys.bpm) ?? 60,
+    velocity: readLegacy(keys.velocity) ?? 80,
+    metronome: readLegacy(keys.metronome) ?? true,
+    scale: readLegacy(keys.scale) ?? DEFAULT_SCALE,
+    trackScales: perTrack(keys.trackScales, () => null),
+    patterns: readLegacy(keys.patterns),
+    currentPattern: readLegacy(keys.currentPattern) ?? 0,
+    song: readLegacy(keys.song) ?? [],
+    playMode: readLegacy(keys.playMode) ?? "pattern",
+    ccMappings: readLegacy(keys.ccMappings) ?? [],
+    groove: readLegacyGroove(numTracks),
+  };
+}
+
+// The saved session, migrated and checked. A session saved over the legacy
+// keys is brought over from them. Throws a ProjectError naming the first
+// problem found
+export function readStoredProject(): Project {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved !== null) return parseProject(saved);
+  return loadProject(readLegacyStorage());
+}
+
+// Save the session, replacing what was saved before
+export function writeStoredProject(project: Project) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(project));
+  Object.values(LEGACY_STORAGE_KEYS).forEach((key) =>
+    localStorage.removeItem(key),
+  );
+}
+
+// Forget the saved session; the app starts a new project
+export function clearStoredProject() {
+  localStorage.removeItem(STORAGE_KEY);
+  Object.values(LEGACY_STORAGE_KEYS).forEach((key) =>
+    localStorage.removeItem(key),
+  );
+}
@@ -0,0 +1,436 @@
+// Project Validation
+// Checks an imported document field by field. Errors name the path of the
+// first bad value, e.g. "patterns[2].sequence[5][1].notes[0].velocity"
+
+import type { TrackSettings } from "../audio/DualOscVoice";
+import { isSettingPath } from "../audio/settingPaths";
+import {
+  MAX_MOD_SLOTS,
+  MOD_DESTINATIONS,
+  MOD_SOURCES,
+} from "../audio/modMatrix";
+import {
+  CC_CURVES,
+  CC_MODES,
+  CC_TAKEOVERS,
+  MAX_LEARN_CONTROLLER,
+} from "../midi/ccMapping";
+import { MAX_BEND_RANGE, MIDI_CHANNELS } from "../midi/midiMessages";
+import { getPresetByName } from "../presets/instrumentPresets";
+import { MAX_AUTOMATION_POINTS } from "../sequencer/automation";
+import {
+  MAX_GROOVE_STEPS,
+  MAX_GROOVE_TIMING,
+  MAX_GROOVE_VELOCITY,
+  MAX_HUMANIZE,
+  MAX_SEED,
+  MAX_SWING,
+} from "../sequencer/groove";
+import { MAX_SONG_REPEATS, PATTERN_LETTERS } from "../sequencer/patterns";
+import { SCALES } from "../sequencer/scales";
+import {
+  MAX_CONDITION_LOOPS,
+  MAX_RATCHETS,
+  TRIG_CONDITIONS,
+} from "../sequencer/trigs";
+import { MAX_PATTERN_LENGTH, STEP_RESOLUTIONS } from "../sequencer/timing";
+import type { Project } from "./project";
+
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectError";
+  }
+}
+
+const WAVEFORMS = ["sine", "square", "sawtooth", "triangle"];
+
+// Allowed values of the text fields in track settings
+const SETTING_OPTIONS: Partial<Record<keyof TrackSettings, string[]>> = {
+  osc1Type: WAVEFORMS,
+  osc2Type: WAVEFORMS,
+  lfoType: WAVEFORMS,
+  filterType: ["lowpass", "highpass", "bandpass", "notch"],
+  portamentoMode: ["always", "legato", "off"],
+};
+
+const TUPLETS = ["0", "1", "2", "3", "4", "5", "6", "7", "8"];
+const BEAT_UNITS = [2, 4, 8, 16];
+
+function describe(value: unknown): string {
+  if (value === undefined) return "nothing";
+  if (Array.isArray(value)) return "a list";
+  if (value === null) return "null";
+  if (typeof value === "object") return "an object";
+  return JSON.stringify(value);
+}
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new ProjectError(
+    `${path}: expected ${expected}, got ${describe(value)}`,
+  );
+}
+
+function checkObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    fail(path, "an object", value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function checkArray(value: unknown, path: string, length?: number): unknown[] {
+  if (!Array.isArray(value)) fail(path, "a list", value);
+  if (length !== undefined && value.length !== length) {
+    throw new ProjectError(
+      `${path}: expected ${length} entries, got ${value.length}`,
+    );
+  }
+  return value;
+}
+
+function checkNumber(
+  value: unknown,
+  path: string,
+  min = -Infinity,
+  max = Infinity,
+  integer = false,
+) {
+  const kind = integer ? "a whole number" : "a number";
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, kind, value);
+  }
+  if ((integer && !Number.isInteger(value)) || value < min || value > max) {
+    fail(path, `${kind} from ${min} to ${max}`, value);
+  }
+}
+
+function checkInteger(value: unknown, path: string, min: number, max: number) {
+  checkNumber(value, path, min, max, true);
+}
+
+function checkBoolean(value: unknown, path: string) {
+  if (typeof value !== "boolean") fail(path, "true or false", value);
+}
+
+function checkString(value: unknown, path: string) {
+  if (typeof value !== "string") fail(path, "text", value);
+}
+
+function checkOption(value: unknown, path: string, options: unknown[]) {
+  if (!options.includes(value)) {
+    fail(
+      path,
+      `one of ${options.map((o) => JSON.stringify(o)).join(", ")}`,
+      value,
+    );
+  }
+}
+
+function checkTrackSettings(value: unknown, path: string) {
+  const settings = checkObject(value, path);
+
+  // Every field of a preset must be present with the same type
+  const reference = getPresetByName("Piano")!.settings;
+  (Object.keys(reference) as (keyof TrackSettings)[]).forEach((key) => {
+    if (key === "modMatrix") return;
+    const options = SETTING_OPTIONS[key];
+    if (options) {
+      checkOption(settings[key], `${path}.${key}`, options);
+    } else {
+      checkNumber(settings[key], `${path}.${key}`);
+    }
+  });
+
+  const matrix = checkObject(settings.modMatrix, `${path}.modMatrix`);
+  checkNumber(matrix.lfo2Rate, `${path}.modMatrix.lfo2Rate`, 0);
+  checkOption(matrix.lfo2Type, `${path}.modMatrix.lfo2Type`, WAVEFORMS);
+  ["envAttack", "envDecay", "envSustain", "envRelease"].forEach((key) =>
+    checkNumber(matrix[key], `${path}.modMatrix.${key}`, 0),
+  );
+  const slots = checkArray(matrix.slots, `${path}.modMatrix.slots`);
+  if (slots.length > MAX_MOD_SLOTS) {
+    throw new ProjectError(
+      `${path}.modMatrix.slots: expected at most ${MAX_MOD_SLOTS} slots, got ${slots.length}`,
+    );
+  }
+  slots.forEach((value, i) => {
+    const slotPath = `${path}.modMatrix.slots[${i}]`;
+    const slot = checkObject(value, slotPath);
+    checkOption(slot.source, `${slotPath}.source`, Object.keys(MOD_SOURCES));
+    checkOption(
+      slot.destination,
+      `${slotPath}.destination`,
+      Object.keys(MOD_DESTINATIONS),
+    );
+    checkNumber(slot.amount, `${slotPath}.amount`, -1, 1);
+  });
+}
+
+function checkScale(value: unknown, path: string) {
+  const scale = checkObject(value, path);
+  checkInteger(scale.root, `${path}.root`, 0, 11);
+  checkOption(scale.type, `${path}.type`, Object.keys(SCALES));
+  checkArray(scale.customIntervals, `${path}.customIntervals`).forEach(
+    (interval, i) =>
+      checkInteger(interval, `${path}.customIntervals[${i}]`, 0, 11),
+  );
+  checkInteger(scale.octave, `${path}.octave`, 0, 8);
+  checkInteger(scale.octaves, `${path}.octaves`, 1, 4);
+}
+
+function checkPattern(value: unknown, path: string, numTracks: number) {
+  const pattern = checkObject(value, path);
+  checkString(pattern.name, `${path}.name`);
+
+  const settings = checkObject(pattern.settings, `${path}.settings`);
+  checkInteger(
+    settings.length,
+    `${path}.settings.length`,
+    1,
+    MAX_PATTERN_LENGTH,
+  );
+  const meter = checkObject(
+    settings.timeSignature,
+    `${path}.settings.timeSignature`,
+  );
+  checkInteger(meter.beats, `${path}.settings.timeSignature.beats`, 1, 32);
+  checkOption(
+    meter.beatUnit,
+    `${path}.settings.timeSignature.beatUnit`,
+    BEAT_UNITS,
+  );
+  checkOption(
+    settings.resolution,
+    `${path}.settings.resolution`,
+    Object.keys(STEP_RESOLUTIONS),
+  );
+  checkArray(settings.trackLengths, `${path}.settings.trackLengths`).forEach(
+    (length, i) => {
+      if (length !== null) {
+        checkInteger(
+          length,
+          `${path}.settings.trackLengths[${i}]`,
+          1,
+          MAX_PATTERN_LENGTH,
+        );
+      }
+    },
+  );
+
+  checkArray(pattern.sequence, `${path}.sequence`).forEach((step, s) => {
+    checkArray(step, `${path}.sequence[${s}]`, numTracks).forEach(
+      (value, t) => {
+        const cellPath = `${path}.sequence[${s}][${t}]`;
+        const cell = checkObject(value, cellPath);
+        checkOption(cell.tuplet, `${cellPath}.tuplet`, TUPLETS);
+        checkArray(cell.notes, `${cellPath}.notes`).forEach((value, n) => {
+          const notePath = `${cellPath}.notes[${n}]`;
+          const note = checkObject(value, notePath);
+          if (note.pitch !== null) {
+            checkInteger(note.pitch, `${notePath}.pitch`, 0, 127);
+          }
+          checkInteger(note.velocity, `${notePath}.velocity`, 1, 127);
+          checkNumber(note.gate, `${notePath}.gate`, 0.05, 1);
+          checkBoolean(note.tie, `${notePath}.tie`);
+        });
+        if (cell.locks !== undefined) {
+          const locks = checkObject(cell.locks, `${cellPath}.locks`);
+          Object.entries(locks).forEach(([param, lock]) => {
+            if (!isSettingPath(param)) {
+              fail(`${cellPath}.locks`, "paths of track settings", param);
+            }
+            checkNumber(lock, `${cellPath}.locks.${param}`);
+          });
+        }
+        if (cell.trig !== undefined) checkTrig(cell.trig, `${cellPath}.trig`);
+      },
+    );
+  });
+
+  if (pattern.automation !== undefined) {
+    checkArray(pattern.automation, `${path}.automation`).forEach((value, l) =>
+      checkAutomationLane(value, `${path}.automation[${l}]`, numTracks),
+    );
+  }
+}
+
+function checkAutomationLane(value: unknown, path: string, numTracks: number) {
+  const lane = checkObject(value, path);
+  checkInteger(lane.track, `${path}.track`, 0, numTracks - 1);
+  checkString(lane.param, `${path}.param`);
+  if (!isSettingPath(lane.param as string)) {
+    fail(`${path}.param`, "the path of a track setting", lane.param);
+  }
+  checkNumber(lane.min, `${path}.min`);
+  checkNumber(lane.max, `${path}.max`);
+  const points = checkArray(lane.points, `${path}.points`);
+  if (points.length > MAX_AUTOMATION_POINTS) {
+    fail(
+      `${path}.points`,
+      `at most ${MAX_AUTOMATION_POINTS} points`,
+      points.length,
+    );
+  }
+  let previous = 0;
+  points.forEach((value, p) => {
+    const point = checkObject(value, `${path}.points[${p}]`);
+    checkNumber(point.time, `${path}.points[${p}].time`, previous);
+    checkNumber(point.value, `${path}.points[${p}].value`);
+    previous = point.time as number;
+  });
+}
+
+function checkTrig(value: unknown, path: string) {
+  const trig = checkObject(value, path);
+  checkNumber(trig.probability, `${path}.probability`, 0, 100);
+  if (trig.condition !== null) {
+    const condition = checkObject(trig.condition, `${path}.condition`);
+    checkOption(
+      condition.type,
+      `${path}.condition.type`,
+      Object.keys(TRIG_CONDITIONS),
+    );
+    if (condition.type === "ratio") {
+      checkInteger(
+        condition.of,
+        `${path}.condition.of`,
+        2,
+        MAX_CONDITION_LOOPS,
+      );
+      checkInteger(
+        condition.play,
+        `${path}.condition.play`,
+        1,
+        condition.of as number,
+      );
+    }
+  }
+  checkInteger(trig.ratchets, `${path}.ratchets`, 1, MAX_RATCHETS);
+  checkNumber(trig.ratchetDecay, `${path}.ratchetDecay`, 0, 100);
+}
+
+function checkCcMapping(value: unknown, path: string, numTracks: number) {
+  const mapping = checkObject(value, path);
+  checkInteger(mapping.channel, `${path}.channel`, 0, MIDI_CHANNELS - 1);
+  checkInteger(
+    mapping.controller,
+    `${path}.controller`,
+    0,
+    MAX_LEARN_CONTROLLER,
+  );
+  checkInteger(mapping.track, `${path}.track`, 0, numTracks - 1);
+  checkString(mapping.param, `${path}.param`);
+  if (!isSettingPath(mapping.param as string)) {
+    fail(`${path}.param`, "the path of a track setting", mapping.param);
+  }
+  checkNumber(mapping.min, `${path}.min`);
+  checkNumber(mapping.max, `${path}.max`);
+  checkNumber(mapping.step, `${path}.step`, 0);
+  checkOption(mapping.curve, `${path}.curve`, Object.keys(CC_CURVES));
+  checkOption(mapping.mode, `${path}.mode`, Object.keys(CC_MODES));
+  checkOption(mapping.takeover, `${path}.takeover`, Object.keys(CC_TAKEOVERS));
+}
+
+function checkGroove(value: unknown, path: string, numTracks: number) {
+  const groove = checkObject(value, path);
+  checkNumber(groove.swing, `${path}.swing`, 0, MAX_SWING);
+  checkArray(groove.trackSwing, `${path}.trackSwing`, numTracks).forEach(
+    (swing, i) => {
+      if (swing !== null) {
+        checkNumber(swing, `${path}.trackSwing[${i}]`, 0, MAX_SWING);
+      }
+    },
+  );
+
+  if (groove.template !== null) {
+    const templatePath = `${path}.template`;
+    const template = checkObject(groove.template, templatePath);
+    checkString(template.name, `${templatePath}.name`);
+    const steps = checkArray(template.steps, `${templatePath}.steps`);
+    if (steps.length === 0 || steps.length > MAX_GROOVE_STEPS) {
+      throw new ProjectError(
+        `${templatePath}.steps: expected 1 to ${MAX_GROOVE_STEPS} steps, got ${steps.length}`,
+      );
+    }
+    steps.forEach((value, i) => {
+      const stepPath = `${templatePath}.steps[${i}]`;
+      const step = checkObject(value, stepPath);
+      checkNumber(
+        step.timing,
+        `${stepPath}.timing`,
+        -MAX_GROOVE_TIMING,
+        MAX_GROOVE_TIMING,
+      );
+      checkNumber(
+        step.velocity,
+        `${stepPath}.velocity`,
+        0,
+        MAX_GROOVE_VELOCITY,
+      );
+    });
+  }
+  checkNumber(groove.amount, `${path}.amount`, 0, 100);
+
+  const humanize = checkObject(groove.humanize, `${path}.humanize`);
+  ["timing", "velocity", "length"].forEach((key) =>
+    checkNumber(humanize[key], `${path}.humanize.${key}`, 0, MAX_HUMANIZE),
+  );
+  checkInteger(humanize.seed, `${path}.humanize.seed`, 0, MAX_SEED);
+}
+
+// Returns the document typed as a project, or throws a ProjectError
+export function validateProject(doc: unknown): Project {
+  const project = checkObject(doc, "project");
+
+  const tracks = checkArray(project.tracks, "tracks");
+  if (tracks.length === 0) {
+    throw new ProjectError("tracks: expected at least one track");
+  }
+  tracks.forEach((value, i) => {
+    const track = checkObject(value, `tracks[${i}]`);
+    checkTrackSettings(track.settings, `tracks[${i}].settings`);
+    checkNumber(track.volume, `tracks[${i}].volume`, -40, 10);
+    checkBoolean(track.mute, `tracks[${i}].mute`);
+    checkInteger(track.bendRange, `tracks[${i}].bendRange`, 0, MAX_BEND_RANGE);
+  });
+
+  checkNumber(project.bpm, "bpm", 20, 240);
+  checkInteger(project.velocity, "velocity", 1, 127);
+  checkBoolean(project.metronome, "metronome");
+
+  checkScale(project.scale, "scale");
+  checkArray(project.trackScales, "trackScales", tracks.length).forEach(
+    (scale, i) => {
+      if (scale !== null) checkScale(scale, `trackScales[${i}]`);
+    },
+  );
+
+  checkArray(project.patterns, "patterns", PATTERN_LETTERS.length).forEach(
+    (pattern, i) => checkPattern(pattern, `patterns[${i}]`, tracks.length),
+  );
+  checkInteger(
+    project.currentPattern,
+    "currentPattern",
+    0,
+    PATTERN_LETTERS.length - 1,
+  );
+
+  checkArray(project.song, "song").forEach((value, i) => {
+    const entry = checkObject(value, `song[${i}]`);
+    checkInteger(
+      entry.pattern,
+      `song[${i}].pattern`,
+      0,
+      PATTERN_LETTERS.length - 1,
+    );
+    checkInteger(entry.repeats, `song[${i}].repeats`, 1, MAX_SONG_REPEATS);
+  });
+  checkOption(project.playMode, "playMode", ["pattern", "song"]);
+
+  checkArray(project.ccMappings, "ccMappings").forEach((mapping, i) =>
+    checkCcMapping(mapping, `ccMappings[${i}]`, tracks.length),
+  );
+  checkGroove(project.groove, "groove", tracks.length);
+
+  return doc as Project;
+}
@@ -0,0 +1,74 @@
+// Automation Recorder
+// Records knob moves into automation lanes. While it is armed and the
+// transport runs, moving a track's knob (on screen or mapped by MIDI learn)
+// records the value instead of changing the track's settings; listeners
+// write it into the playing pattern at the transport position
+
+// A knob moved while recording, with the range of its slider
+export interface AutomationMove {
+  track: number;
+  param: string;
+  value: number;
+  min: number;
+  max: number;
+}
+
+export type AutomationRecorderEvent =
+  | { type: "recording"; recording: boolean }
+  | { type: "move"; move: AutomationMove };
+
+type AutomationRecorderListener = (event: AutomationRecorderEvent) => void;
+
+export class AutomationRecorder {
+  private isArmed = false;
+  private isPlaying = false;
+  private listeners = new Set<AutomationRecorderListener>();
+
+  // Returns the function that removes the listener
+  subscribe(listener: AutomationRecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get armed(): boolean {
+    return this.isArmed;
+  }
+
+  get recording(): boolean {
+    return this.isArmed && this.isPlaying;
+  }
+
+  arm(armed: boolean): void {
+    this.update(() => {
+      this.isArmed = armed;
+    });
+  }
+
+  // Told by the sequencer when the transport starts and stops
+  setPlaying(playing: boolean): void {
+    this.update(() => {
+      this.isPlaying = playing;
+    });
+  }
+
+  // Record a knob move. Returns false (and records nothing) unless recording
+  record(move: AutomationMove): boolean {
+    if (!this.recording) return false;
+    this.emit({ type: "move", move });
+    return true;
+  }
+
+  private update(change: () => void): void {
+    const was = this.recording;
+    change();
+    if (this.recording !== was) {
+      this.emit({ type: "recording", recording: this.recording });
+    }
+  }
+
+  private emit(event: AutomationRecorderEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,65 @@
+// Lock Recorder
+// Records parameter locks into a held step. While a step is held, turning a
+// knob of its track (on screen or mapped by MIDI learn) sets a lock instead
+// of changing the track's settings; listeners store the locks in the cell
+
+import type { ParamLocks } from "../audio/settingPaths";
+
+// A sequencer cell being recorded into, with the locks it has so far
+export interface HeldStep {
+  pattern: number;
+  step: number;
+  track: number;
+  locks: ParamLocks;
+}
+
+export type LockRecorderEvent =
+  { type: "hold"; held: HeldStep | null } | { type: "lock"; held: HeldStep };
+
+type LockRecorderListener = (event: LockRecorderEvent) => void;
+
+export class LockRecorder {
+  private step: HeldStep | null = null;
+  private listeners = new Set<LockRecorderListener>();
+
+  // Returns the function that removes the listener
+  subscribe(listener: LockRecorderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  get held(): HeldStep | null {
+    return this.step;
+  }
+
+  // Hold a step to record into (null releases it)
+  hold(held: HeldStep | null): void {
+    this.step = held;
+    this.emit({ type: "hold", held });
+  }
+
+  // Lock a setting of the held step to a value (null removes the lock)
+  setLock(param: string, value: number | null): void {
+    if (!this.step) return;
+    const locks = { ...this.step.locks };
+    if (value === null) {
+      delete locks[param];
+    } else {
+      locks[param] = value;
+    }
+    this.step = { ...this.step, locks };
+    this.emit({ type: "lock", held: this.step });
+  }
+
+  clearLocks(): void {
+    if (!this.step) return;
+    this.step = { ...this.step, locks: {} };
+    this.emit({ type: "lock", held: this.step });
+  }
+
+  private emit(event: LockRecorderEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
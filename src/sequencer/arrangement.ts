@@ -0,0 +1,222 @@
+// Arrangement
+// The patterns playback goes through, laid out on one continuous timeline
+// (in quarter notes), with the notes and steps they produce. Used by exports
+// and offline rendering so they match what the transport plays
+
+import type { ParamLocks } from "../audio/settingPaths";
+import { getAutomationTimes, getAutomationValues } from "./automation";
+import { DEFAULT_GROOVE, applyGroove, type GrooveSettings } from "./groove";
+import type { Pattern, PlayMode, SongEntry } from "./patterns";
+import { getTrackNotes } from "./sequence";
+import { createTrigState, playTrigs } from "./trigs";
+import {
+  STEP_RESOLUTIONS,
+  getBarQuarters,
+  getTrackLength,
+  type PatternSettings,
+} from "./timing";
+
+// A pattern played a number of times in a row. As in playback, each track
+// keeps looping over its own length until the section ends
+export interface Section {
+  pattern: Pattern;
+  repeats: number;
+}
+
+// A section placed on the timeline, possibly cut short
+export interface PlacedSection {
+  pattern: Pattern;
+  start: number; // Quarter notes
+  quarters: number;
+}
+
+export interface TimedNote {
+  time: number; // Quarter notes
+  duration: number; // Quarter notes
+  pitch: number;
+  velocity: number; // 0 to 1
+}
+
+export interface TimedStep {
+  time: number; // Quarter notes
+  step: number; // Steps since the section started
+  pattern: Pattern;
+  settings: PatternSettings;
+}
+
+// What the transport plays: the song in song mode, otherwise the current
+// pattern on its own
+export function getPlaybackSections(
+  patterns: Pattern[],
+  currentPattern: number,
+  playMode: PlayMode,
+  song: SongEntry[],
+): Section[] {
+  return playMode === "song" && song.length > 0
+    ? song.map((entry) => ({
+        pattern: patterns[entry.pattern],
+        repeats: entry.repeats,
+      }))
+    : [{ pattern: patterns[currentPattern], repeats: 1 }];
+}
+
+function getStepQuarters(settings: PatternSettings): number {
+  return STEP_RESOLUTIONS[settings.resolution].quarters;
+}
+
+function getSectionQuarters({ pattern, repeats }: Section): number {
+  return pattern.settings.length * repeats * getStepQuarters(pattern.settings);
+}
+
+// Bars in one pass through the sections, each counted in its own meter
+export function getSectionBars(sections: Section[]): number {
+  return sections.reduce(
+    (bars, section) =>
+      bars +
+      getSectionQuarters(section) /
+        getBarQuarters(section.pattern.settings.timeSignature),
+    0,
+  );
+}
+
+// Place the sections one after another. With a bar count they repeat (as
+// looping playback does) until that many bars are filled
+export function layoutSections(
+  sections: Section[],
+  bars?: number,
+): PlacedSection[] {
+  const placed: PlacedSection[] = [];
+  let start = 0;
+  let remainingBars = bars ?? getSectionBars(sections);
+
+  for (let i = 0; remainingBars > 1e-9 && sections.length > 0; i++) {
+    const section = sections[i % sections.length];
+    const barQuarters = getBarQuarters(section.pattern.settings.timeSignature);
+    const quarters = Math.min(
+      getSectionQuarters(section),
+      remainingBars * barQuarters,
+    );
+    placed.push({ pattern: section.pattern, start, quarters });
+    start += quarters;
+    remainingBars -= quarters / barQuarters;
+  }
+  return placed;
+}
+
+export function getTimelineQuarters(placed: PlacedSection[]): number {
+  return placed.reduce((total, section) => total + section.quarters, 0);
+}
+
+// The section playing at a position, with the position inside it. Past the
+// end the timeline loops, as playback does
+export function findPlacedSection(
+  placed: PlacedSection[],
+  quarters: number,
+): { index: number; offset: number } {
+  const total = getTimelineQuarters(placed);
+  const position = total > 0 ? quarters % total : 0;
+  const index = placed.findIndex(
+    (section) => position < section.start + section.quarters,
+  );
+  return index === -1
+    ? { index: 0, offset: 0 }
+    : { index, offset: position - placed[index].start };
+}
+
+// Every note one track plays over the timeline, with its trigs and the
+// groove applied. Renders play without fills
+export function getTimelineNotes(
+  placed: PlacedSection[],
+  trackIndex: number,
+  groove: GrooveSettings = DEFAULT_GROOVE,
+): TimedNote[] {
+  const timed: TimedNote[] = [];
+
+  placed.forEach(({ pattern, start, quarters }) => {
+    const stepQuarters = getStepQuarters(pattern.settings);
+    const sectionSteps = quarters / stepQuarters;
+    const trackLength = getTrackLength(pattern.settings, trackIndex);
+    const notes = getTrackNotes(pattern.sequence, trackIndex, trackLength);
+    // Trigs count loops from the start of each section, as playback does
+    const trigState = createTrigState();
+
+    for (let loop = 0; loop * trackLength < sectionSteps - 1e-9; loop++) {
+      playTrigs(notes, pattern.sequence, trackIndex, loop, trigState).forEach(
+        (note) => {
+          const step = loop * trackLength + note.time;
+          if (step >= sectionSteps - 1e-9) return;
+          // The groove repeats with every pass through the pattern
+          const passTime = step % pattern.settings.length;
+          const grooved = applyGroove(groove, trackIndex, {
+            ...note,
+            time: passTime,
+          });
+          timed.push({
+            time: Math.max(
+              0,
+              start + (step + grooved.time - passTime) * stepQuarters,
+            ),
+            duration: grooved.duration * stepQuarters,
+            pitch: note.pitch,
+            velocity: grooved.velocity,
+          });
+        },
+      );
+    }
+  });
+
+  return timed;
+}
+
+// Where one track's automation changes over the timeline (times in quarter
+// notes), with the automated values from there on (null where a section has
+// none). Each section plays its pattern's lanes, looping with it
+export function getTimelineAutomation(
+  placed: PlacedSection[],
+  trackIndex: number,
+): { time: number; values: ParamLocks | null }[] {
+  const events: { time: number; values: ParamLocks | null }[] = [];
+
+  placed.forEach(({ pattern, start, quarters }) => {
+    const lanes = (pattern.automation ?? []).filter(
+      (lane) => lane.track === trackIndex && lane.points.length > 0,
+    );
+    if (lanes.length === 0) {
+      events.push({ time: start, values: null });
+      return;
+    }
+
+    const stepQuarters = getStepQuarters(pattern.settings);
+    const { length } = pattern.settings;
+    const sectionSteps = quarters / stepQuarters;
+    for (let pass = 0; pass * length < sectionSteps - 1e-9; pass++) {
+      getAutomationTimes(lanes, trackIndex, 0, length).forEach((time) => {
+        const step = pass * length + time;
+        if (step >= sectionSteps - 1e-9) return;
+        events.push({
+          time: start + step * stepQuarters,
+          values: getAutomationValues(lanes, trackIndex, time),
+        });
+      });
+    }
+  });
+
+  return events;
+}
+
+// Every step over the timeline (feeds the "Sequencer Step" mod source)
+export function getTimelineSteps(placed: PlacedSection[]): TimedStep[] {
+  const steps: TimedStep[] = [];
+  placed.forEach(({ pattern, start, quarters }) => {
+    const stepQuarters = getStepQuarters(pattern.settings);
+    for (let step = 0; step * stepQuarters < quarters - 1e-9; step++) {
+      steps.push({
+        time: start + step * stepQuarters,
+        step,
+        pattern,
+        settings: pattern.settings,
+      });
+    }
+  });
+  return steps;
+}
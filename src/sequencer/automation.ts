@@ -0,0 +1,182 @@
+// Automation
+// Knob moves recorded into a pattern. Each lane follows one setting of one
+// track through breakpoints, in straight lines between them, and holds its
+// first and last values before and after them. Times are in steps from the
+// start of the pattern, so automation loops with it
+
+import type { ParamLocks } from "../audio/settingPaths";
+
+export interface AutomationPoint {
+  time: number;
+  value: number;
+}
+
+export interface AutomationLane {
+  track: number; // Track index
+  param: string; // Path of the setting
+  min: number; // Range of the setting's slider, shown by the editor
+  max: number;
+  points: AutomationPoint[]; // In time order
+}
+
+export const MAX_AUTOMATION_POINTS = 2048;
+
+// Knob moves closer together than this (in steps) are recorded once, which
+// keeps fast moves from piling up points. A point drawn on its own replaces
+// the ones this close to it
+export const MIN_POINT_SPACING = 1 / 32;
+
+export function getLaneValue(
+  lane: AutomationLane,
+  time: number,
+): number | null {
+  const { points } = lane;
+  if (points.length === 0) return null;
+  const next = points.findIndex((point) => point.time > time);
+  if (next === 0) return points[0].value;
+  if (next === -1) return points[points.length - 1].value;
+
+  const a = points[next - 1];
+  const b = points[next];
+  return a.value + ((b.value - a.value) * (time - a.time)) / (b.time - a.time);
+}
+
+// The automated settings of a track at a time, or null if it has none
+export function getAutomationValues(
+  lanes: AutomationLane[],
+  trackIndex: number,
+  time: number,
+): ParamLocks | null {
+  let values: ParamLocks | null = null;
+  lanes.forEach((lane) => {
+    if (lane.track !== trackIndex) return;
+    const value = getLaneValue(lane, time);
+    if (value !== null) values = { ...values, [lane.param]: value };
+  });
+  return values;
+}
+
+// Times from `from` up to `to` where a track's automation changes direction:
+// `from` itself and the breakpoints after it. Automation played at these
+// times in order, with ramps between them, follows every lane exactly
+export function getAutomationTimes(
+  lanes: AutomationLane[],
+  trackIndex: number,
+  from: number,
+  to: number,
+): number[] {
+  const times = new Set<number>();
+  lanes.forEach((lane) => {
+    if (lane.track !== trackIndex) return;
+    lane.points.forEach(({ time }) => {
+      if (time > from && time < to) times.add(time);
+    });
+  });
+  return [from, ...[...times].sort((a, b) => a - b)];
+}
+
+function withoutPoints(
+  lane: AutomationLane,
+  remove: (time: number) => boolean,
+): AutomationLane {
+  return {
+    ...lane,
+    points: lane.points.filter((point) => !remove(point.time)),
+  };
+}
+
+// A lane with a breakpoint written in, replacing the breakpoints passed over
+// since `from` (the previous one written while drawing, either side of it)
+// or, without one, those too close to it
+export function writePoint(
+  lane: AutomationLane,
+  point: AutomationPoint,
+  from?: number,
+): AutomationLane {
+  const { time } = point;
+  const cleared = withoutPoints(lane, (t) =>
+    from === undefined
+      ? Math.abs(t - time) < MIN_POINT_SPACING
+      : from <= time
+        ? t > from && t <= time
+        : t < from && t >= time,
+  );
+  const points = [...cleared.points, point].sort((a, b) => a.time - b.time);
+  return {
+    ...lane,
+    points:
+      points.length > MAX_AUTOMATION_POINTS
+        ? points.slice(points.length - MAX_AUTOMATION_POINTS)
+        : points,
+  };
+}
+
+// A lane with a knob value recorded in, replacing what was recorded over
+// since the previous value, at `from`. That is later than the new one if the
+// pattern looped in between
+export function recordPoint(
+  lane: AutomationLane,
+  point: AutomationPoint,
+  from?: number,
+): AutomationLane {
+  if (from === undefined || from <= point.time) {
+    return writePoint(lane, point, from);
+  }
+  return writePoint(
+    withoutPoints(lane, (t) => t > from),
+    point,
+    -Infinity,
+  );
+}
+
+// A lane without the breakpoints between two times (in either order)
+export function erasePoints(
+  lane: AutomationLane,
+  from: number,
+  to: number,
+): AutomationLane {
+  const start = Math.min(from, to);
+  const end = Math.max(from, to);
+  return withoutPoints(lane, (t) => t >= start && t <= end);
+}
+
+// A lane with each inner breakpoint averaged with its neighbours, then the
+// breakpoints left on a straight line between theirs dropped
+export function smoothLane(lane: AutomationLane): AutomationLane {
+  const { points } = lane;
+  if (points.length < 3) return lane;
+
+  const averaged = points.map((point, i) =>
+    i === 0 || i === points.length - 1
+      ? point
+      : {
+          ...point,
+          value: (points[i - 1].value + point.value + points[i + 1].value) / 3,
+        },
+  );
+
+  const tolerance = Math.abs(lane.max - lane.min) / 200;
+  const kept = averaged.filter((point, i) => {
+    if (i === 0 || i === averaged.length - 1) return true;
+    const a = averaged[i - 1];
+    const b = averaged[i + 1];
+    const onLine =
+      a.value +
+      ((b.value - a.value) * (point.time - a.time)) / (b.time - a.time);
+    return Math.abs(point.value - onLine) > tolerance;
+  });
+  return { ...lane, points: kept };
+}
+
+// Lanes of a track list after tracks were removed or reordered. `order`
+// holds the previous index of each track (-1 for new ones); lanes of removed
+// tracks are dropped
+export function remapAutomation(
+  lanes: AutomationLane[],
+  order: number[],
+): AutomationLane[] {
+  return lanes.flatMap((lane) => {
+    const track = order.indexOf(lane.track);
+    return track === -1 ? [] : [{ ...lane, track }];
+  });
+}
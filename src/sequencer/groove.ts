@@ -0,0 +1,213 @@
+// Groove
+// Timing and dynamics applied to notes as they are played: swing delays every
+// second step, a groove template moves and weights each step of a repeating
+// cycle, and humanize varies timing, velocity and length by seeded random
+// amounts, so the same project always plays (and renders) the same way.
+// Times are in steps from the start of a pass through the pattern
+
+import type { MidiNoteInput } from "./midiImport";
+import type { NoteEvent } from "./sequence";
+import {
+  STEP_RESOLUTIONS,
+  getStepsPerBar,
+  type PatternSettings,
+} from "./timing";
+
+// One step of a template cycle
+export interface GrooveStep {
+  timing: number; // Steps, -MAX_GROOVE_TIMING to MAX_GROOVE_TIMING
+  velocity: number; // Scale, 0 to MAX_GROOVE_VELOCITY
+}
+
+export interface GrooveTemplate {
+  name: string;
+  steps: GrooveStep[];
+}
+
+// Largest random variations, each in percent
+export interface Humanize {
+  timing: number; // Of a step
+  velocity: number;
+  length: number;
+  seed: number; // Whole number; another seed gives other variations
+}
+
+export interface GrooveSettings {
+  swing: number; // Percent of a step, 0 to MAX_SWING
+  trackSwing: (number | null)[]; // null = the global swing
+  template: GrooveTemplate | null;
+  amount: number; // Percent of the template applied, 0 to 100
+  humanize: Humanize;
+}
+
+export const MAX_SWING = 50;
+export const MAX_GROOVE_TIMING = 0.5;
+export const MAX_GROOVE_VELOCITY = 2;
+export const MAX_HUMANIZE = 50;
+export const MAX_GROOVE_STEPS = 64;
+export const MAX_SEED = 999999;
+
+// Notes never move earlier than this (in steps), so playback can schedule
+// them from half a step ahead
+export const MAX_GROOVE_LEAD = 0.5;
+
+export const DEFAULT_GROOVE: GrooveSettings = {
+  swing: 0,
+  trackSwing: [],
+  template: null,
+  amount: 100,
+  humanize: { timing: 0, velocity: 0, length: 0, seed: 1 },
+};
+
+// Built-in templates, one beat of sixteenths long
+export const GROOVE_TEMPLATES: GrooveTemplate[] = [
+  {
+    name: "Accents",
+    steps: [
+      { timing: 0, velocity: 1.2 },
+      { timing: 0, velocity: 0.75 },
+      { timing: 0, velocity: 0.95 },
+      { timing: 0, velocity: 0.75 },
+    ],
+  },
+  {
+    name: "Push",
+    steps: [
+      { timing: 0, velocity: 1.1 },
+      { timing: -0.1, velocity: 0.85 },
+      { timing: -0.05, velocity: 1 },
+      { timing: -0.1, velocity: 0.85 },
+    ],
+  },
+  {
+    name: "Laid back",
+    steps: [
+      { timing: 0, velocity: 1.1 },
+      { timing: 0.1, velocity: 0.85 },
+      { timing: 0.05, velocity: 0.95 },
+      { timing: 0.12, velocity: 0.8 },
+    ],
+  },
+];
+
+// Deterministic random numbers from 0 to 1 (mulberry32), seeded from a few
+// whole numbers so each note gets its own sequence
+export function createRandom(...keys: number[]): () => number {
+  let state = keys.reduce(
+    (hash, key) => Math.imul(hash ^ key, 0x5bd1e995) ^ (hash >>> 15),
+    0x9e3779b9,
+  );
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The swing a track plays with, in percent
+export function getTrackSwing(
+  groove: GrooveSettings,
+  trackIndex: number,
+): number {
+  return groove.trackSwing[trackIndex] ?? groove.swing;
+}
+
+// A note moved, weighted and varied by the groove. `note.time` is in steps
+// from the start of the pattern pass
+export function applyGroove(
+  groove: GrooveSettings,
+  trackIndex: number,
+  note: NoteEvent,
+): NoteEvent {
+  // Swing stretches the first step of each pair and squeezes the second, so
+  // the second starts late and tuplets inside them stay in order
+  const swing = getTrackSwing(groove, trackIndex) / 100;
+  const pairStart = Math.floor(note.time / 2) * 2;
+  const inPair = note.time - pairStart;
+  let time =
+    pairStart +
+    (inPair < 1
+      ? inPair * (1 + swing)
+      : 1 + swing + (inPair - 1) * (1 - swing));
+  let velocity = note.velocity;
+  let duration = note.duration;
+
+  const steps = groove.template?.steps ?? [];
+  if (steps.length > 0) {
+    const step = steps[Math.floor(note.time + 1e-6) % steps.length];
+    const amount = groove.amount / 100;
+    time += step.timing * amount;
+    velocity *= 1 + (step.velocity - 1) * amount;
+  }
+
+  const { humanize } = groove;
+  if (humanize.timing > 0 || humanize.velocity > 0 || humanize.length > 0) {
+    // Keyed by where the note is written, not when it is played
+    const random = createRandom(
+      humanize.seed,
+      trackIndex,
+      Math.round(note.time * 1000),
+    );
+    const vary = (percent: number) => ((random() * 2 - 1) * percent) / 100;
+    time += vary(humanize.timing);
+    velocity *= 1 + vary(humanize.velocity);
+    duration *= 1 + vary(humanize.length);
+  }
+
+  return {
+    ...note,
+    time: Math.max(note.time - MAX_GROOVE_LEAD, time),
+    duration: Math.max(0.01, duration),
+    velocity: Math.max(1 / 127, Math.min(1, velocity)),
+  };
+}
+
+// A template taken from played notes, one bar of the pattern's steps long.
+// Each note is matched to its nearest step; every step of the template takes
+// the average offset of its notes and their loudness against all the notes.
+// Steps without notes are left straight
+export function extractGroove(
+  name: string,
+  notes: MidiNoteInput[],
+  ppq: number,
+  settings: PatternSettings,
+): GrooveTemplate {
+  const stepQuarters = STEP_RESOLUTIONS[settings.resolution].quarters;
+  const length = Math.max(
+    1,
+    Math.min(MAX_GROOVE_STEPS, Math.round(getStepsPerBar(settings))),
+  );
+  const totals = Array.from({ length }, () => ({
+    timing: 0,
+    velocity: 0,
+    count: 0,
+  }));
+
+  notes.forEach((note) => {
+    const steps = note.ticks / ppq / stepQuarters;
+    const nearest = Math.round(steps);
+    const total = totals[nearest % length];
+    total.timing += steps - nearest;
+    total.velocity += note.velocity;
+    total.count++;
+  });
+
+  const average =
+    notes.reduce((sum, note) => sum + note.velocity, 0) / notes.length || 1;
+  return {
+    name,
+    steps: totals.map(({ timing, velocity, count }) =>
+      count === 0
+        ? { timing: 0, velocity: 1 }
+        : {
+            timing: Number((timing / count).toFixed(3)),
+            velocity: Number(
+              Math.min(MAX_GROOVE_VELOCITY, velocity / count / average).toFixed(
+                3,
+              ),
+            ),
+          },
+    ),
+  };
+}
@@ -0,0 +1,74 @@
+// MIDI Export
+// Write patterns or the song arrangement as a type-1 Standard MIDI File, one
+// MIDI track per synth track. Notes are the ones playback schedules
+
+import { Midi } from "@tonejs/midi";
+import { getTimelineNotes, layoutSections, type Section } from "./arrangement";
+import type { GrooveSettings } from "./groove";
+
+export interface MidiExportTrack {
+  name: string;
+  program: number; // General MIDI program, 0 to 127
+}
+
+// General MIDI programs suggested for each preset category
+export const CATEGORY_PROGRAMS: Record<string, number> = {
+  bass: 38, // Synth Bass 1
+  keys: 0, // Acoustic Grand Piano
+  synth: 81, // Lead 2 (sawtooth)
+};
+
+const PPQ = 480;
+
+// Channel 10 (index 9) is reserved for drums in General MIDI
+const CHANNELS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 11, 12, 13, 14, 15];
+
+export function exportMidi(
+  sections: Section[],
+  tracks: MidiExportTrack[],
+  bpm: number,
+  groove: GrooveSettings,
+): Uint8Array<ArrayBuffer> {
+  const midi = new Midi();
+  midi.header.setTempo(bpm);
+  const placed = layoutSections(sections);
+
+  // Meter changes between sections
+  const signatures = midi.header.timeSignatures;
+  placed.forEach(({ pattern, start }) => {
+    const meter = pattern.settings.timeSignature;
+    const previous = signatures[signatures.length - 1];
+    if (
+      !previous ||
+      previous.timeSignature[0] !== meter.beats ||
+      previous.timeSignature[1] !== meter.beatUnit
+    ) {
+      signatures.push({
+        ticks: Math.round(start * PPQ),
+        timeSignature: [meter.beats, meter.beatUnit],
+      });
+    }
+  });
+
+  tracks.forEach((info, trackIndex) => {
+    const track = midi.addTrack();
+    track.name = info.name;
+    track.channel = CHANNELS[trackIndex % CHANNELS.length];
+    track.instrument.number = info.program;
+
+    getTimelineNotes(placed, trackIndex, groove).forEach((note) => {
+      // Round both ends so tuplet positions don't drift
+      const start = Math.round(note.time * PPQ);
+      const end = Math.round((note.time + note.duration) * PPQ);
+      track.addNote({
+        midi: note.pitch,
+        ticks: start,
+        durationTicks: Math.max(1, end - start),
+        velocity: note.velocity,
+      });
+    });
+  });
+
+  midi.header.update();
+  return new Uint8Array(midi.toArray()); // Backed by a plain ArrayBuffer
+}
@@ -0,0 +1,213 @@
+// MIDI Import
+// Quantize the notes of a MIDI file track into one track of a pattern. Each
+// step is split into a fixed number of subdivisions (the cell's tuplet) and
+// every note snaps to the nearest subdivision
+
+import { NOTE_NAMES } from "./scales";
+import {
+  createEmptyCell,
+  createNote,
+  type SequenceCell,
+  type StepNote,
+  type TupletRatio,
+} from "./sequence";
+import {
+  MAX_PATTERN_LENGTH,
+  STEP_RESOLUTIONS,
+  getBarQuarters,
+  type PatternSettings,
+} from "./timing";
+
+// The fields of an @tonejs/midi note the import uses
+export interface MidiNoteInput {
+  name: string;
+  midi: number;
+  ticks: number;
+  durationTicks: number;
+  velocity: number; // 0 to 1
+}
+
+export interface MidiImportOptions {
+  ppq: number; // Ticks per quarter note of the file
+  settings: PatternSettings; // Step resolution and meter of the pattern
+  subdivisions: number; // Quantization grid, 1 to 8 per step
+  startBar: number; // First bar to import, from 1
+  endBar: number; // Last bar to import (inclusive)
+  velocity: number; // Velocity of the rests written into cells
+}
+
+export interface MidiImportReportEntry {
+  name: string;
+  bar: number; // Original position, in the pattern's meter
+  beat: number; // From 1, fractional
+  dropped: boolean; // Otherwise the note was moved
+  detail: string;
+}
+
+export interface MidiImportResult {
+  cells: SequenceCell[]; // One per step, starting at the first bar
+  imported: number;
+  report: MidiImportReportEntry[];
+}
+
+interface PlacedNote {
+  pitch: number;
+  velocity: number;
+  duration: number; // Quarter notes
+  continuation: boolean; // Filled in by the tie of an earlier note
+  tie: boolean;
+  gate: number;
+}
+
+export const MAX_SUBDIVISIONS = 8;
+
+// Number of bars the file's notes span, in the pattern's meter
+export function getMidiBarCount(
+  notes: MidiNoteInput[],
+  ppq: number,
+  settings: PatternSettings,
+): number {
+  const end = Math.max(0, ...notes.map((n) => n.ticks + n.durationTicks));
+  return Math.max(
+    1,
+    Math.ceil(end / ppq / getBarQuarters(settings.timeSignature)),
+  );
+}
+
+export function quantizeMidiNotes(
+  notes: MidiNoteInput[],
+  options: MidiImportOptions,
+): MidiImportResult {
+  const { ppq, settings, subdivisions, startBar, endBar, velocity } = options;
+  const stepQuarters = STEP_RESOLUTIONS[settings.resolution].quarters;
+  const barQuarters = getBarQuarters(settings.timeSignature);
+  const beatQuarters = 4 / settings.timeSignature.beatUnit;
+  const slotQuarters = stepQuarters / subdivisions;
+
+  const rangeStart = (startBar - 1) * barQuarters;
+  const rangeQuarters = (endBar - startBar + 1) * barQuarters;
+  const stepCount = Math.min(
+    MAX_PATTERN_LENGTH,
+    Math.ceil(rangeQuarters / stepQuarters - 1e-9),
+  );
+  const slotCount = stepCount * subdivisions;
+  const slots: (PlacedNote | null)[] = Array(slotCount).fill(null);
+
+  const report: MidiImportReportEntry[] = [];
+  const addReport = (note: MidiNoteInput, dropped: boolean, detail: string) => {
+    const quarters = note.ticks / ppq;
+    report.push({
+      name: note.name,
+      bar: Math.floor(quarters / barQuarters) + 1,
+      beat: (quarters % barQuarters) / beatQuarters + 1,
+      dropped,
+      detail,
+    });
+  };
+
+  // Notes just before the range snap onto its first subdivision
+  const inRange = notes
+    .map((note) => ({ note, time: note.ticks / ppq - rangeStart }))
+    .filter(({ time }) => time >= -slotQuarters / 2 && time < rangeQuarters)
+    .map(({ note, time }) => ({
+      note,
+      time,
+      slot: Math.max(0, Math.round(time / slotQuarters)),
+    }))
+    // Per subdivision the loudest note wins (then the highest)
+    .sort(
+      (a, b) =>
+        a.slot - b.slot ||
+        b.note.velocity - a.note.velocity ||
+        b.note.midi - a.note.midi,
+    );
+
+  let imported = 0;
+  inRange.forEach(({ note, time, slot }) => {
+    if (slot >= slotCount) {
+      addReport(
+        note,
+        true,
+        slot * slotQuarters >= rangeQuarters - 1e-9
+          ? "snaps past the end of the bar range"
+          : `past the ${MAX_PATTERN_LENGTH}-step pattern limit`,
+      );
+      return;
+    }
+
+    const taken = slots[slot];
+    if (taken) {
+      addReport(note, true, `subdivision already holds ${noteName(taken)}`);
+      return;
+    }
+
+    slots[slot] = {
+      pitch: note.midi,
+      velocity: Math.max(1, Math.min(127, Math.round(note.velocity * 127))),
+      duration: note.durationTicks / ppq,
+      continuation: false,
+      tie: false,
+      gate: 1,
+    };
+    imported++;
+
+    // Moved by more than one tick of the file
+    const shift = slot * slotQuarters - time;
+    if (Math.abs(shift) > 1 / ppq) {
+      const beats = Math.abs(shift / beatQuarters).toFixed(2);
+      addReport(
+        note,
+        false,
+        `moved ${beats} beat${beats === "1.00" ? "" : "s"} ${shift > 0 ? "later" : "earlier"}`,
+      );
+    }
+  });
+
+  // Long notes hold through the following empty subdivisions with ties
+  slots.forEach((placed, slot) => {
+    if (!placed || placed.continuation) return;
+
+    let remaining = placed.duration;
+    let last = placed;
+    for (
+      let next = slot + 1;
+      remaining > slotQuarters * 1.001 && next < slotCount && !slots[next];
+      next++
+    ) {
+      last.tie = true;
+      last = { ...placed, continuation: true, tie: false };
+      slots[next] = last;
+      remaining -= slotQuarters;
+    }
+    last.gate = Math.max(0.05, Math.min(1, remaining / slotQuarters));
+  });
+
+  const cells = Array.from({ length: stepCount }, (_, step): SequenceCell => {
+    const stepSlots = slots.slice(
+      step * subdivisions,
+      (step + 1) * subdivisions,
+    );
+    if (stepSlots.every((placed) => placed === null)) return createEmptyCell();
+
+    return {
+      tuplet: subdivisions.toString() as TupletRatio,
+      notes: stepSlots.map((placed): StepNote =>
+        placed
+          ? {
+              pitch: placed.pitch,
+              velocity: placed.velocity,
+              gate: placed.gate,
+              tie: placed.tie,
+            }
+          : createNote(null, velocity),
+      ),
+    };
+  });
+
+  report.sort((a, b) => a.bar - b.bar || a.beat - b.beat);
+  return { cells, imported, report };
+}
+
+function noteName(placed: PlacedNote): string {
+  return `${NOTE_NAMES[placed.pitch % 12]}${Math.floor(placed.pitch / 12) - 1}`;
+}
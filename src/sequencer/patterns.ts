@@ -0,0 +1,44 @@
+// Pattern Bank
+// Named patterns A-P and the song arrangement that chains them
+
+import type { AutomationLane } from "./automation";
+import { createEmptyCell, type SequenceStep } from "./sequence";
+import { DEFAULT_PATTERN_SETTINGS, type PatternSettings } from "./timing";
+
+export interface Pattern {
+  name: string; // Optional user name, shown after the letter
+  sequence: SequenceStep[];
+  settings: PatternSettings;
+  automation?: AutomationLane[]; // Recorded knob moves, if any
+}
+
+export interface SongEntry {
+  pattern: number; // Index into the bank
+  repeats: number; // Times the pattern loops before moving on
+}
+
+export type PlayMode = "pattern" | "song";
+
+export const PATTERN_LETTERS = "ABCDEFGHIJKLMNOP".split("");
+
+export const MAX_SONG_REPEATS = 99;
+
+export function createEmptyPattern(
+  numTracks: number,
+  settings: PatternSettings = DEFAULT_PATTERN_SETTINGS,
+): Pattern {
+  return {
+    name: "",
+    sequence: Array.from({ length: settings.length }, () =>
+      Array.from({ length: numTracks }, () => createEmptyCell()),
+    ),
+    settings: { ...settings, trackLengths: [] },
+  };
+}
+
+// Whether a pattern has any notes (empty patterns are shown dimmed)
+export function hasNotes(pattern: Pattern): boolean {
+  return pattern.sequence.some((step) =>
+    step.some((cell) => cell.notes.some((note) => note.pitch !== null)),
+  );
+}
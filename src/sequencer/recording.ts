@@ -0,0 +1,78 @@
+// Recording
+// Write notes played live into a track. Step recording fills one step per
+// note; overdub places each note on the step nearest to when it was played
+
+import {
+  DEFAULT_GATE,
+  type SequenceCell,
+  type SequenceStep,
+  type StepNote,
+} from "./sequence";
+import { getBarQuarters, type TimeSignature } from "./timing";
+
+export type RecordMode = "step" | "overdub";
+
+// Count-in before overdub recording starts
+export const COUNT_IN_BARS = [0, 1, 2];
+
+// A note held for this many steps or less is written without ties
+const MIN_TIE_STEPS = 1.001;
+
+// Replace a cell of the track with a single note lasting `steps` steps.
+// Longer notes tie through the following empty cells, up to the end of the
+// track's loop (ties don't wrap around)
+export function recordNote(
+  sequence: SequenceStep[],
+  trackIndex: number,
+  trackLength: number,
+  step: number,
+  pitch: number,
+  velocity: number, // 1 to 127
+  steps: number = DEFAULT_GATE,
+): SequenceStep[] {
+  const notes = new Map<number, StepNote>();
+  let note: StepNote = { pitch, velocity, gate: 1, tie: false };
+  notes.set(step, note);
+
+  let remaining = steps;
+  for (
+    let next = step + 1;
+    remaining > MIN_TIE_STEPS &&
+    next < trackLength &&
+    sequence[next]?.[trackIndex]?.tuplet === "0";
+    next++
+  ) {
+    note.tie = true;
+    note = { pitch, velocity, gate: 1, tie: false };
+    notes.set(next, note);
+    remaining -= 1;
+  }
+  note.gate = Math.max(0.05, Math.min(1, remaining));
+
+  return sequence.map((stepData, i) => {
+    const written = notes.get(i);
+    if (!written) return stepData;
+    // Parameter locks stay on the step
+    const cell: SequenceCell = {
+      ...stepData[trackIndex],
+      tuplet: "1",
+      notes: [written],
+    };
+    return stepData.map((c, t) => (t === trackIndex ? cell : c));
+  });
+}
+
+// Count-in clicks in quarter notes: one per beat, accenting each downbeat
+export function getCountInClicks(
+  timeSignature: TimeSignature,
+  bars: number,
+): { time: number; accent: boolean }[] {
+  const beatQuarters = 4 / timeSignature.beatUnit;
+  const barQuarters = getBarQuarters(timeSignature);
+  return Array.from({ length: bars * timeSignature.beats }, (_, beat) => ({
+    time:
+      Math.floor(beat / timeSignature.beats) * barQuarters +
+      (beat % timeSignature.beats) * beatQuarters,
+    accent: beat % timeSignature.beats === 0,
+  }));
+}
@@ -0,0 +1,161 @@
+// Scales
+// Key and scale definitions the note generator and editors snap to
+
+export type ScaleType =
+  | "major"
+  | "naturalMinor"
+  | "harmonicMinor"
+  | "melodicMinor"
+  | "dorian"
+  | "phrygian"
+  | "lydian"
+  | "mixolydian"
+  | "locrian"
+  | "majorPentatonic"
+  | "minorPentatonic"
+  | "blues"
+  | "wholeTone"
+  | "chromatic"
+  | "custom";
+
+export interface ScaleSettings {
+  root: number; // Pitch class, 0 = C to 11 = B
+  type: ScaleType;
+  customIntervals: number[]; // Semitones above the root, used by "custom"
+  octave: number; // Lowest octave of the range (4 = the octave from C4)
+  octaves: number; // Number of octaves in the range
+}
+
+export const NOTE_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+
+export const SCALES: Record<ScaleType, { label: string; intervals: number[] }> =
+  {
+    major: { label: "Major (Ionian)", intervals: [0, 2, 4, 5, 7, 9, 11] },
+    naturalMinor: {
+      label: "Natural Minor (Aeolian)",
+      intervals: [0, 2, 3, 5, 7, 8, 10],
+    },
+    harmonicMinor: {
+      label: "Harmonic Minor",
+      intervals: [0, 2, 3, 5, 7, 8, 11],
+    },
+    melodicMinor: { label: "Melodic Minor", intervals: [0, 2, 3, 5, 7, 9, 11] },
+    dorian: { label: "Dorian", intervals: [0, 2, 3, 5, 7, 9, 10] },
+    phrygian: { label: "Phrygian", intervals: [0, 1, 3, 5, 7, 8, 10] },
+    lydian: { label: "Lydian", intervals: [0, 2, 4, 6, 7, 9, 11] },
+    mixolydian: { label: "Mixolydian", intervals: [0, 2, 4, 5, 7, 9, 10] },
+    locrian: { label: "Locrian", intervals: [0, 1, 3, 5, 6, 8, 10] },
+    majorPentatonic: {
+      label: "Major Pentatonic",
+      intervals: [0, 2, 4, 7, 9],
+    },
+    minorPentatonic: {
+      label: "Minor Pentatonic",
+      intervals: [0, 3, 5, 7, 10],
+    },
+    blues: { label: "Blues", intervals: [0, 3, 5, 6, 7, 10] },
+    wholeTone: { label: "Whole Tone", intervals: [0, 2, 4, 6, 8, 10] },
+    chromatic: {
+      label: "Chromatic",
+      intervals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+    },
+    custom: { label: "Custom", intervals: [] },
+  };
+
+// C major from C4, the key the sequencer always used
+export const DEFAULT_SCALE: ScaleSettings = {
+  root: 0,
+  type: "major",
+  customIntervals: [0, 2, 4, 7, 9],
+  octave: 4,
+  octaves: 2,
+};
+
+export function getScaleIntervals(scale: ScaleSettings): number[] {
+  const intervals =
+    scale.type === "custom"
+      ? scale.customIntervals
+      : SCALES[scale.type].intervals;
+  // The root is always part of the scale
+  return Array.from(
+    new Set([0, ...intervals.map((i) => ((i % 12) + 12) % 12)]),
+  ).sort((a, b) => a - b);
+}
+
+// Parse "0 2 4 7 9" (or comma separated) into custom intervals
+export function parseIntervals(text: string): number[] {
+  return text
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((n) => Number.isInteger(n) && n >= 0 && n < 12);
+}
+
+export function getScaleName(scale: ScaleSettings): string {
+  return `${NOTE_NAMES[scale.root]} ${SCALES[scale.type].label}`;
+}
+
+export function isInScale(pitch: number, scale: ScaleSettings): boolean {
+  const pitchClass = (((pitch - scale.root) % 12) + 12) % 12;
+  return getScaleIntervals(scale).includes(pitchClass);
+}
+
+// Every MIDI note of the scale within its octave range, plus the top root
+export function getScalePitches(scale: ScaleSettings): number[] {
+  const intervals = getScaleIntervals(scale);
+  const base = (scale.octave + 1) * 12 + scale.root;
+  const pitches: number[] = [];
+  for (let octave = 0; octave < scale.octaves; octave++) {
+    intervals.forEach((interval) =>
+      pitches.push(base + octave * 12 + interval),
+    );
+  }
+  pitches.push(base + scale.octaves * 12);
+  return pitches.filter((pitch) => pitch >= 0 && pitch <= 127);
+}
+
+// Nearest pitch in the scale (ties snap down)
+export function snapToScale(pitch: number, scale: ScaleSettings): number {
+  for (let distance = 0; distance < 12; distance++) {
+    if (isInScale(pitch - distance, scale)) return pitch - distance;
+    if (isInScale(pitch + distance, scale)) return pitch + distance;
+  }
+  return pitch;
+}
+
+// Move a pitch to the same scale degree in another key and scale, taking the
+// shortest way between the two roots
+export function transposePitch(
+  pitch: number,
+  from: ScaleSettings,
+  to: ScaleSettings,
+): number {
+  const fromIntervals = getScaleIntervals(from);
+  const toIntervals = getScaleIntervals(to);
+  const rootShift = ((((to.root - from.root) % 12) + 18) % 12) - 6;
+
+  let transposed: number;
+  if (fromIntervals.length === toIntervals.length) {
+    const relative = snapToScale(pitch, from) - from.root;
+    const octave = Math.floor(relative / 12);
+    const degree = fromIntervals.indexOf(relative - octave * 12);
+    transposed = from.root + rootShift + octave * 12 + toIntervals[degree];
+  } else {
+    // Scales with a different number of notes have no matching degrees, so
+    // the shifted pitch is snapped to the nearest note instead
+    transposed = snapToScale(pitch + rootShift, to);
+  }
+  return Math.max(0, Math.min(127, transposed));
+}
@@ -0,0 +1,238 @@
+// Sequence Model
+// Explicit per-cell note data for the step sequencer, plus the optional
+// arpeggio generator that writes notes into a cell
+
+import type { ParamLocks } from "../audio/settingPaths";
+import { transposePitch, type ScaleSettings } from "./scales";
+import { isDefaultTrig, type StepTrig } from "./trigs";
+
+export type TupletRatio = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8";
+
+// One note per tuplet subdivision of a cell
+export interface StepNote {
+  pitch: number | null; // MIDI note number, null = rest
+  velocity: number; // 1 to 127
+  gate: number; // 0.05 to 1 (fraction of the subdivision)
+  tie: boolean; // Hold into the next subdivision if it has the same pitch
+}
+
+export interface SequenceCell {
+  tuplet: TupletRatio;
+  notes: StepNote[]; // Always tuplet-count long
+  locks?: ParamLocks; // Settings the track plays this step with, if any
+  trig?: StepTrig; // When and how often the notes play, if not always once
+}
+
+// One column of the sequencer: a cell per track
+export type SequenceStep = SequenceCell[];
+
+// A note as it is played: times in steps from the start of the pattern
+export interface NoteEvent {
+  time: number;
+  duration: number;
+  pitch: number;
+  velocity: number; // 0 to 1
+}
+
+export interface ArpeggioState {
+  index: number;
+  direction: number;
+}
+
+export const DEFAULT_GATE = 0.5;
+
+export function createEmptyCell(): SequenceCell {
+  return { tuplet: "0", notes: [] };
+}
+
+export function createNote(pitch: number | null, velocity: number): StepNote {
+  return { pitch, velocity, gate: DEFAULT_GATE, tie: false };
+}
+
+// Generate melodic pattern with arpeggiated MIDI notes from a scale
+export function generateArpeggio(
+  count: number,
+  state: ArpeggioState,
+  scalePitches: number[],
+  random: () => number = Math.random,
+): { pitches: number[]; state: ArpeggioState } {
+  const pitches: number[] = [];
+  let currentIndex = state.index;
+  const direction = state.direction;
+
+  for (let i = 0; i < count; i++) {
+    // 70% chance to continue arpeggio, 30% chance to jump randomly
+    if (random() < 0.7) {
+      // Arpeggio: move 1-3 steps in current direction
+      const step = 1 + Math.floor(random() * 3);
+      currentIndex += step * direction;
+
+      // Wrap around if out of bounds
+      currentIndex =
+        ((currentIndex % scalePitches.length) + scalePitches.length) %
+        scalePitches.length;
+    } else {
+      // Random jump to add variety
+      currentIndex = Math.floor(random() * scalePitches.length);
+    }
+
+    pitches.push(scalePitches[currentIndex]);
+  }
+
+  return { pitches, state: { index: currentIndex, direction } };
+}
+
+// Change a cell's subdivision count, keeping the notes that still fit and
+// filling new subdivisions with the given pitches
+export function resizeCell(
+  cell: SequenceCell,
+  tuplet: TupletRatio,
+  fillPitches: number[],
+  velocity: number,
+): SequenceCell {
+  const count = Number(tuplet);
+  const notes = Array.from(
+    { length: count },
+    (_, i) =>
+      cell.notes[i] ??
+      createNote(fillPitches[i - cell.notes.length] ?? null, velocity),
+  );
+  return { ...cell, tuplet, notes };
+}
+
+// Convert the old format (a bare tuplet count per cell, with notes picked at
+// random during playback) by generating the notes once
+export function migrateSequence(
+  saved: unknown[][],
+  numTracks: number,
+  velocity: number,
+  getScalePitches: (trackIndex: number) => number[],
+): SequenceStep[] {
+  const states: ArpeggioState[] = Array.from({ length: numTracks }, () => ({
+    index: 0,
+    direction: 1,
+  }));
+
+  return saved.map((step) =>
+    Array.from({ length: numTracks }, (_, trackIndex) => {
+      const cell = step[trackIndex];
+      if (cell && typeof cell === "object") return cell as SequenceCell;
+
+      const tuplet = (typeof cell === "string" ? cell : "0") as TupletRatio;
+      const generated = generateArpeggio(
+        Number(tuplet),
+        states[trackIndex],
+        getScalePitches(trackIndex),
+      );
+      states[trackIndex] = generated.state;
+      return resizeCell(createEmptyCell(), tuplet, generated.pitches, velocity);
+    }),
+  );
+}
+
+// Move every note of a cell into another key and scale
+export function transposeCell(
+  cell: SequenceCell,
+  from: ScaleSettings,
+  to: ScaleSettings,
+): SequenceCell {
+  return {
+    ...cell,
+    notes: cell.notes.map((note) =>
+      note.pitch === null
+        ? note
+        : { ...note, pitch: transposePitch(note.pitch, from, to) },
+    ),
+  };
+}
+
+// A cell with other parameter locks. Cells without locks have no `locks`
+// field
+export function setCellLocks(
+  cell: SequenceCell,
+  locks: ParamLocks,
+): SequenceCell {
+  const { locks: _previous, ...rest } = cell;
+  return Object.keys(locks).length > 0 ? { ...rest, locks } : rest;
+}
+
+// A cell with another trig. Cells that always play their notes once have no
+// `trig` field
+export function setCellTrig(cell: SequenceCell, trig: StepTrig): SequenceCell {
+  const { trig: _previous, ...rest } = cell;
+  return isDefaultTrig(trig) ? rest : { ...rest, trig };
+}
+
+// Pad the sequence with silent steps up to a length. Steps past the end are
+// kept, so shortening a pattern and lengthening it again loses nothing
+export function extendSequence(
+  sequence: SequenceStep[],
+  length: number,
+  numTracks: number,
+): SequenceStep[] {
+  if (sequence.length >= length) return sequence;
+  return [
+    ...sequence,
+    ...Array.from({ length: length - sequence.length }, () =>
+      Array.from({ length: numTracks }, () => createEmptyCell()),
+    ),
+  ];
+}
+
+// Flatten the first steps of one track into the notes it plays, merging tied
+// subdivisions into a single held note (times are in steps)
+export function getTrackNotes(
+  sequence: SequenceStep[],
+  trackIndex: number,
+  length: number = sequence.length,
+): NoteEvent[] {
+  const events: NoteEvent[] = [];
+  let held: { event: NoteEvent; end: number } | null = null;
+
+  sequence.slice(0, length).forEach((step, stepIndex) => {
+    const cell = step[trackIndex];
+    const count = cell ? Number(cell.tuplet) : 0;
+    if (count === 0) {
+      held = null; // A silent cell breaks any tie
+      return;
+    }
+
+    const interval = 1 / count;
+    cell.notes.forEach((note, noteIndex) => {
+      const time = stepIndex + interval * noteIndex;
+
+      if (note.pitch === null) {
+        held = null;
+        return;
+      }
+
+      // Continue the previous note if it was tied into this one
+      if (
+        held &&
+        held.event.pitch === note.pitch &&
+        Math.abs(held.end - time) < 1e-6
+      ) {
+        held.event.duration = time + interval * note.gate - held.event.time;
+      } else {
+        const event: NoteEvent = {
+          time,
+          duration: interval * note.gate,
+          pitch: note.pitch,
+          velocity: note.velocity / 127,
+        };
+        events.push(event);
+        held = { event, end: 0 };
+      }
+
+      if (note.tie) {
+        // A tied note lasts the whole subdivision
+        held.event.duration = time + interval - held.event.time;
+        held.end = time + interval;
+      } else {
+        held = null;
+      }
+    });
+  });
+
+  return events;
+}
@@ -0,0 +1,89 @@
+// Pattern Timing
+// Pattern length, time signature and step resolution, with per-track
+// lengths for polymetric patterns
+
+export type StepResolution = "4n" | "8n" | "16n" | "4t" | "8t" | "16t";
+
+export interface TimeSignature {
+  beats: number; // Beats per bar
+  beatUnit: number; // 2, 4, 8 or 16
+}
+
+export interface PatternSettings {
+  length: number; // Steps, 1 to 64
+  timeSignature: TimeSignature;
+  resolution: StepResolution;
+  trackLengths: (number | null)[]; // null = same as the pattern
+}
+
+// Step length in quarter notes
+export const STEP_RESOLUTIONS: Record<
+  StepResolution,
+  { label: string; quarters: number }
+> = {
+  "4n": { label: "1/4", quarters: 1 },
+  "8n": { label: "1/8", quarters: 1 / 2 },
+  "16n": { label: "1/16", quarters: 1 / 4 },
+  "4t": { label: "1/4 T", quarters: 2 / 3 },
+  "8t": { label: "1/8 T", quarters: 1 / 3 },
+  "16t": { label: "1/16 T", quarters: 1 / 6 },
+};
+
+export const MAX_PATTERN_LENGTH = 64;
+
+// 8 quarter notes (2 bars of 4/4)
+export const DEFAULT_PATTERN_SETTINGS: PatternSettings = {
+  length: 8,
+  timeSignature: { beats: 4, beatUnit: 4 },
+  resolution: "4n",
+  trackLengths: [],
+};
+
+export function getTrackLength(
+  settings: PatternSettings,
+  trackIndex: number,
+): number {
+  return settings.trackLengths[trackIndex] ?? settings.length;
+}
+
+// Longest loop of the pattern in steps (the sequence must hold this many)
+export function getMaxLength(settings: PatternSettings): number {
+  return Math.max(
+    settings.length,
+    ...settings.trackLengths.map((length) => length ?? 0),
+  );
+}
+
+export function getBarQuarters(timeSignature: TimeSignature): number {
+  return (timeSignature.beats * 4) / timeSignature.beatUnit;
+}
+
+// Steps per bar (may be fractional, e.g. 1/4 steps in 7/8)
+export function getStepsPerBar(settings: PatternSettings): number {
+  return (
+    getBarQuarters(settings.timeSignature) /
+    STEP_RESOLUTIONS[settings.resolution].quarters
+  );
+}
+
+// Metronome clicks over one loop of the pattern, in quarter notes. Beats of
+// a quarter note or longer also get an off-beat click
+export function getMetronomeClicks(
+  settings: PatternSettings,
+): { time: number; accent: boolean }[] {
+  const { timeSignature, resolution, length } = settings;
+  const beatQuarters = 4 / timeSignature.beatUnit;
+  const barQuarters = getBarQuarters(timeSignature);
+  const patternQuarters = length * STEP_RESOLUTIONS[resolution].quarters;
+  const interval = beatQuarters >= 1 ? beatQuarters / 2 : beatQuarters;
+
+  const clicks: { time: number; accent: boolean }[] = [];
+  for (let time = 0; time < patternQuarters - 1e-6; time += interval) {
+    const barPosition = time % barQuarters;
+    clicks.push({
+      time,
+      accent: barPosition < 1e-6 || barQuarters - barPosition < 1e-6,
+    });
+  }
+  return clicks;
+}
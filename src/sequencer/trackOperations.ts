@@ -0,0 +1,49 @@
+// Track Operations
+// Add, duplicate, delete and reorder tracks. Every per-track array in the app
+// (settings, mixer, sequence cells, scales, ...) goes through the same
+// operation so they stay aligned
+
+export type TrackOperation =
+  | { type: "add" }
+  | { type: "duplicate"; index: number }
+  | { type: "delete"; index: number }
+  | { type: "move"; from: number; to: number };
+
+// Returns a new array. `create` builds the item for an added track, or for a
+// duplicated one from its source item (per-track data is never mutated, so a
+// duplicate may share the source's objects)
+export function applyTrackOperation<T>(
+  items: T[],
+  operation: TrackOperation,
+  create: (source: T | undefined) => T,
+): T[] {
+  const result = [...items];
+  switch (operation.type) {
+    case "add":
+      result.push(create(undefined));
+      break;
+    case "duplicate":
+      result.splice(operation.index + 1, 0, create(items[operation.index]));
+      break;
+    case "delete":
+      result.splice(operation.index, 1);
+      break;
+    case "move": {
+      const [item] = result.splice(operation.from, 1);
+      result.splice(operation.to, 0, item);
+      break;
+    }
+  }
+  return result;
+}
+
+// Pad or trim a persisted per-track array to the current track count
+export function fitToTrackCount<T>(
+  items: T[] | null | undefined,
+  count: number,
+  create: (index: number) => T,
+): T[] {
+  return Array.from({ length: count }, (_, i) =>
+    items && i < items.length && items[i] != null ? items[i] : create(i),
+  );
+}
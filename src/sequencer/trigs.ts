@@ -0,0 +1,157 @@
+// Trigs
+// Whether a cell's notes play when its step comes round, and how often. A
+// trig has a probability, an optional condition on the track's loop count or
+// the fill switch, and ratchets that repeat each note at falling velocity.
+// Loops are counted per track from the start of the pattern and chance is
+// seeded by track, step and loop, so a pattern plays the same way each time
+// it starts
+
+import { createRandom } from "./groove";
+import type { NoteEvent, SequenceStep } from "./sequence";
+
+export type TrigCondition =
+  | { type: "ratio"; play: number; of: number } // Loop `play` of every `of`
+  | { type: "fill" } // Only while fill is on
+  | { type: "notFirst" } // Not on the track's first loop
+  | { type: "previous" }; // Only if the track's last step with notes played
+
+export interface StepTrig {
+  probability: number; // Percent, 0 to 100
+  condition: TrigCondition | null;
+  ratchets: number; // Times each note is played, 1 to MAX_RATCHETS
+  ratchetDecay: number; // Velocity each repeat loses, percent
+}
+
+// What playing a track so far means for its next trig
+export interface TrigState {
+  previousPlayed: boolean;
+}
+
+export const MAX_RATCHETS = 8;
+export const MAX_CONDITION_LOOPS = 8;
+
+export const DEFAULT_TRIG: StepTrig = {
+  probability: 100,
+  condition: null,
+  ratchets: 1,
+  ratchetDecay: 20,
+};
+
+export const TRIG_CONDITIONS: Record<TrigCondition["type"], string> = {
+  ratio: "Loop … of …",
+  fill: "Fill only",
+  notFirst: "Not first",
+  previous: "Previous step played",
+};
+
+export function createTrigState(): TrigState {
+  return { previousPlayed: false };
+}
+
+export function isDefaultTrig(trig: StepTrig): boolean {
+  return (
+    trig.probability === DEFAULT_TRIG.probability &&
+    trig.condition === null &&
+    trig.ratchets === DEFAULT_TRIG.ratchets
+  );
+}
+
+// Short label of a trig that isn't the default, e.g. "50% 1:2 ×3"
+export function describeTrig(trig: StepTrig): string {
+  const parts: string[] = [];
+  if (trig.probability < 100) parts.push(`${trig.probability}%`);
+  switch (trig.condition?.type) {
+    case "ratio":
+      parts.push(`${trig.condition.play}:${trig.condition.of}`);
+      break;
+    case "fill":
+      parts.push("FILL");
+      break;
+    case "notFirst":
+      parts.push("!1ST");
+      break;
+    case "previous":
+      parts.push("PRE");
+      break;
+  }
+  if (trig.ratchets > 1) parts.push(`×${trig.ratchets}`);
+  return parts.join(" ");
+}
+
+function meetsCondition(
+  condition: TrigCondition | null,
+  loop: number,
+  fill: boolean,
+  state: TrigState,
+): boolean {
+  switch (condition?.type) {
+    case undefined:
+      return true;
+    case "ratio":
+      return loop % condition.of === condition.play - 1;
+    case "fill":
+      return fill;
+    case "notFirst":
+      return loop > 0;
+    case "previous":
+      return state.previousPlayed;
+  }
+}
+
+// A note repeated by its cell's ratchets, evenly across the subdivision it
+// starts (`interval` steps long). Each repeat keeps the note's gate
+function ratchetNote(
+  note: NoteEvent,
+  trig: StepTrig,
+  interval: number,
+): NoteEvent[] {
+  const spacing = interval / trig.ratchets;
+  const duration = Math.min(note.duration, interval) / trig.ratchets;
+  return Array.from({ length: trig.ratchets }, (_, i) => ({
+    ...note,
+    time: note.time + i * spacing,
+    duration,
+    velocity: Math.max(
+      1 / 127,
+      note.velocity * (1 - trig.ratchetDecay / 100) ** i,
+    ),
+  }));
+}
+
+// The notes a track plays on one of its loops, out of the notes written in
+// it (times in steps from the start of the loop, sorted). Each cell with
+// notes decides once whether they play, updating `state` for the next one
+export function playTrigs(
+  notes: NoteEvent[],
+  sequence: SequenceStep[],
+  trackIndex: number,
+  loop: number,
+  state: TrigState,
+  fill = false,
+): NoteEvent[] {
+  const played: NoteEvent[] = [];
+  let step = -1;
+  let plays = false;
+
+  notes.forEach((note) => {
+    const cellStep = Math.floor(note.time + 1e-6);
+    const cell = sequence[cellStep]?.[trackIndex];
+    const trig = cell?.trig ?? DEFAULT_TRIG;
+    if (cellStep !== step) {
+      step = cellStep;
+      const random = createRandom(trackIndex, cellStep, loop);
+      plays =
+        meetsCondition(trig.condition, loop, fill, state) &&
+        random() * 100 < trig.probability;
+      state.previousPlayed = plays;
+    }
+    if (!plays) return;
+    played.push(
+      ...(trig.ratchets > 1
+        ? ratchetNote(note, trig, 1 / Math.max(1, Number(cell?.tuplet)))
+        : [note]),
+    );
+  });
+
+  return played;
+}